@@ -1,41 +1,66 @@
-import { type UIMessage } from "ai"
+import { createUIMessageStream, createUIMessageStreamResponse, type UIMessage } from "ai"
 import { TracerAgent } from "@/lib/langchain-agent"
-import { DocumentGeneratorChain } from "@/lib/chains/document-generator"
+import { DocumentGeneratorChain, type DocumentGeneration } from "@/lib/chains/document-generator"
+import { StructuredExtractorChain, StructuredExtractionError } from "@/lib/chains/structured-extractor"
+import { ConversationSummarizerChain } from "@/lib/chains/conversation-summarizer"
+import { ConsistencyReviewerChain, ReviewError, formatReviewFeedback } from "@/lib/chains/consistency-reviewer"
+import { MermaidRepairChain, type MermaidRepairResult } from "@/lib/chains/mermaid-repair"
+import { DecisionRecorderChain, DecisionRecordError } from "@/lib/chains/decision-recorder"
 import { getMemoryManager } from "@/lib/memory/session-manager"
-import type { ProjectPhase } from "@/lib/types/project"
+import { InterviewPlanner } from "@/lib/interview/planner"
+import { buildTraceabilityMatrix } from "@/lib/analysis/traceability"
+import { buildOpenApiSpec } from "@/lib/export/openapi"
+import { validateOpenApiSpec } from "@/lib/export/openapi-validation"
+import { buildDatabaseSchemaFiles } from "@/lib/export/db-schema-formats"
+import { buildScaffold, canScaffold } from "@/lib/export/scaffold"
+import { getPhasePipeline, type PhaseDefinition } from "@/lib/phases"
+import { validateProvider } from "@/lib/llm/providers"
+import { createUsageCallbacks, getUsageTracker, SpendCapExceededError, type UsageContext } from "@/lib/usage/usage-tracker"
+import { resolveUser, userCookieHeaders } from "@/lib/usage/user-identity"
+import type { ChatUIMessage, GeneratedDocument } from "@/lib/types/chat"
+import type { DocumentType, ReviewIssue } from "@/lib/types/project"
 
 // API Route Configuration
-// maxDuration: 30 seconds - should be enough for AI responses but prevents timeouts
-export const maxDuration = 30
+// maxDuration: 300 seconds - a turn can make several model calls (chat, documents, extraction,
+// review), each with its own retries and fallbacks inside LLM_DEADLINE_MS (60s by default)
+export const maxDuration = 300
 
 // We use lazy initialization here to avoid crashes during Next.js build
 // The agents only get created when someone actually makes a request
 let agent: TracerAgent | null = null
 let documentGenerator: DocumentGeneratorChain | null = null
+let extractor: StructuredExtractorChain | null = null
+let summarizer: ConversationSummarizerChain | null = null
+let reviewer: ConsistencyReviewerChain | null = null
+let mermaidRepairer: MermaidRepairChain | null = null
+let decisionRecorder: DecisionRecorderChain | null = null
 
 function initializeAgents() {
   if (!agent) {
     try {
       agent = new TracerAgent()
       documentGenerator = new DocumentGeneratorChain()
+      extractor = new StructuredExtractorChain()
+      summarizer = new ConversationSummarizerChain()
+      reviewer = new ConsistencyReviewerChain()
+      mermaidRepairer = new MermaidRepairChain()
+      decisionRecorder = new DecisionRecorderChain()
     } catch (error) {
       console.error("Failed to initialize agents:", error)
-      throw new Error("AI service initialization failed. Check your API key configuration.")
+      throw new Error("AI service initialization failed. Check your LLM provider configuration.")
     }
   }
-  return { agent, documentGenerator }
+  return { agent, documentGenerator, extractor, summarizer, reviewer, mermaidRepairer, decisionRecorder }
 }
 
 // Main POST handler - this is where all the magic happens
 export async function POST(req: Request) {
   try {
-    // Safety check: make sure we have an API key configured
-    const apiKey = process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY
-    if (!apiKey) {
+    // Safety check: make sure the active LLM provider is configured (e.g. has an API key)
+    const configError = validateProvider()
+    if (configError) {
       return new Response(
-        JSON.stringify({ 
-          error: "API key not configured. Please add OPENROUTER_API_KEY to your .env.local file." 
-        }),
+        JSON.stringify({ error: configError }),
         { status: 500, headers: { "Content-Type": "application/json" } }
       )
     }
@@ -43,8 +68,17 @@ export async function POST(req: Request) {
     // Initialize our AI agents
     const agents = initializeAgents()
     
-    // Parse the incoming request - expecting messages array and optional sessionId
-    const { messages, sessionId }: { messages: UIMessage[]; sessionId?: string } = await req.json()
+    // Parse the incoming request - expecting messages array, optional sessionId
+    // and any consistency review issues the user accepted for a regeneration pass
+    const { messages, sessionId, acceptedIssues: acceptedIssueIds = [] }: {
+      messages: UIMessage[]
+      sessionId?: string
+      acceptedIssues?: string[]
+    } = await req.json()
+
+    // Spend is tracked against the user in our signed cookie - never an id the client sends
+    const user = resolveUser(req)
+    const userId = user.userId
     
     if (!messages || messages.length === 0) {
       return new Response("No messages provided", { status: 400 })
@@ -54,6 +88,13 @@ export async function POST(req: Request) {
     // Each session gets its own isolated memory space
     const memoryManager = getMemoryManager()
     const effectiveSessionId = sessionId || `session-${Date.now()}`
+    // A new session is bound to this user - nobody else can continue it
+    if (!memoryManager.claimSession(effectiveSessionId, userId)) {
+      return new Response(
+        JSON.stringify({ error: "This session belongs to another user" }),
+        { status: 403, headers: { "Content-Type": "application/json", ...userCookieHeaders(user) } }
+      )
+    }
     const session = memoryManager.getSession(effectiveSessionId)
 
     console.log(`Processing request for session: ${effectiveSessionId}`)
@@ -63,128 +104,378 @@ export async function POST(req: Request) {
     const lastMessage = messages[messages.length - 1]
     const userMessage = lastMessage.parts.find(p => p.type === "text")?.text || ""
 
-    // Store this message in session history so we can reference it later
-    memoryManager.addMessage(effectiveSessionId, "user", userMessage)
-
-    // Project session tracks where we are in the three-phase workflow
-    // If this is the first message, we initialize a new project
+    // Project session tracks where we are in the phase pipeline
+    // If this session doesn't have one yet (new chat, or the server restarted), start a new project
     let projectSession = memoryManager.getProjectSession(effectiveSessionId)
-    if (!projectSession && messages.length === 1) {
+    if (!projectSession) {
       memoryManager.initializeProjectSession(effectiveSessionId, "New Project")
       projectSession = memoryManager.getProjectSession(effectiveSessionId)!
     }
 
-    // Gather context for the AI - previous messages and current project state
-    const conversationHistory = memoryManager.getConversationHistory(effectiveSessionId)
+    // Stop before spending anything if the session or user is already over their cap
+    const usageTracker = getUsageTracker()
+    try {
+      usageTracker.checkSpendCaps(effectiveSessionId, userId)
+    } catch (error) {
+      if (error instanceof SpendCapExceededError) {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 402, headers: { "Content-Type": "application/json", ...userCookieHeaders(user) } }
+        )
+      }
+      throw error
+    }
+    // Every LLM call this turn is recorded against the session, and the phase/document it's for
+    const usageCallbacks = (context: Omit<UsageContext, "sessionId" | "userId">) =>
+      createUsageCallbacks({ sessionId: effectiveSessionId, userId, ...context }, usageTracker)
+
+    // The agent renders the full project state into its prompt itself - this is just for the logs
     const contextSummary = memoryManager.getContextSummary(effectiveSessionId)
     
     console.log("Conversation context:", contextSummary)
     
-    // Send the message to our AI agent and get a response
     if (!agents.agent) throw new Error("Agent not initialized")
-    
-    let response = await agents.agent.chat(userMessage, {
-      sessionId: effectiveSessionId,
-      conversationHistory,
-    })
+    const agent = agents.agent
+    const planner = new InterviewPlanner(memoryManager)
+    // Documents can move the project on mid-turn, so remember where this turn started
+    const turnPhase = projectSession.currentPhase
+    const acceptedIssues = memoryManager.acceptReviewIssues(effectiveSessionId, acceptedIssueIds)
 
-    // Now the interesting part: check if we should auto-generate documents
-    // This happens when the AI has gathered enough info for a phase
-    let generatedDocument: { type: ProjectPhase; content: string } | null = null
-    
-    if (projectSession && agents.documentGenerator) {
-      const currentPhase = projectSession.currentPhase
-      
-      // PHASE 1: Requirements - generate Requirements.md when ready
-      if (currentPhase === "requirements" && memoryManager.isPhaseComplete(effectiveSessionId, "requirements")) {
-        console.log("Requirements phase complete, generating Requirements.md")
-        try {
-          const requirementsDoc = await agents.documentGenerator.generateRequirements(projectSession)
-          memoryManager.setRequirements(effectiveSessionId, projectSession.requirements!)
-          generatedDocument = { type: "requirements", content: requirementsDoc }
-          
-          // Automatically move to the next phase
-          memoryManager.updateProjectPhase(effectiveSessionId, "design")
-          response += "\n\n✅ **Requirements.md generated!** You can download it below.\n\nNow let's move to the design phase. I'll help you create a system architecture."
-        } catch (error) {
-          console.error("Failed to generate requirements:", error)
+    // Everything from here on goes out as an AI SDK UI message stream (SSE):
+    // the model's tokens as text deltas, then any generated document as a typed data part
+    const stream = createUIMessageStream<ChatUIMessage>({
+      execute: async ({ writer }) => {
+        const messageId = `msg-${Date.now()}`
+        const textId = `text-${Date.now()}`
+        let response = ""
+
+        // Helper for text we add ourselves (phase transition notes) - same stream as the model's tokens
+        const appendText = (text: string) => {
+          response += text
+          writer.write({ type: "text-delta", id: textId, delta: text })
         }
-      }
-      
-      // PHASE 2: Design - generate Design.md when system architecture is ready
-      else if (currentPhase === "design" && memoryManager.isPhaseComplete(effectiveSessionId, "design")) {
-        console.log("Design phase complete, generating Design.md")
-        try {
-          // Convert tech stack to string format (it might be an array)
-          const techStackStr = Array.isArray(projectSession.requirements?.techStack?.frontend)
-            ? projectSession.requirements.techStack.frontend.join(", ")
-            : projectSession.requirements?.techStack?.frontend || "Not specified"
-          
-          const designDoc = await agents.documentGenerator.generateDesign(
-            techStackStr,
-            projectSession
-          )
-          memoryManager.setDesign(effectiveSessionId, projectSession.design!)
-          generatedDocument = { type: "design", content: designDoc }
-          
-          // Move to the final phase
-          memoryManager.updateProjectPhase(effectiveSessionId, "tasks")
-          response += "\n\n✅ **Design.md generated!** You can download it below.\n\nNow let's break this down into tasks. I'll create a detailed task list."
-        } catch (error) {
-          console.error("Failed to generate design:", error)
+
+        // Document parts let the frontend show download buttons right in the message
+        const writeDocument = (document: GeneratedDocument) => {
+          writer.write({ type: "data-document", data: document })
         }
-      }
-      
-      // PHASE 3: Tasks - generate Tasks.md with the implementation roadmap
-      else if (currentPhase === "tasks" && memoryManager.isPhaseComplete(effectiveSessionId, "tasks")) {
-        console.log("Tasks phase complete, generating Tasks.md")
-        try {
-          const tasksDoc = await agents.documentGenerator.generateTasks(
-            "Design document",
-            "Requirements document"
+
+        writer.write({ type: "start", messageId })
+        writer.write({ type: "text-start", id: textId })
+
+        // Fold anything that fell out of last turn's history window into the running summary
+        if (agents.summarizer) {
+          await memoryManager.compactHistory(
+            effectiveSessionId,
+            agents.summarizer,
+            usageCallbacks({ phase: turnPhase, source: "summary" })
           )
-          memoryManager.setTasks(effectiveSessionId, projectSession.tasks!)
-          generatedDocument = { type: "tasks", content: tasksDoc }
-          
-          // We're done! Mark the project as complete
-          memoryManager.updateProjectPhase(effectiveSessionId, "complete")
-          response += "\n\n✅ **Tasks.md generated!** You can download it below.\n\n🎉 All three documents are ready! You can now hand these off to AI agents like Cursor, Windsurf, or Claude for implementation."
-        } catch (error) {
-          console.error("Failed to generate tasks:", error)
         }
-      }
-    }
 
-    console.log("About to send response:", response)
+        // Send the message to our AI agent and stream the response token by token
+        // The agent loads this session's history as its memory, so we only store
+        // the user's message afterwards - otherwise it would see it twice
+        const interview = planner.prepareTurn(effectiveSessionId)
+        const tokens = agent.streamChat(userMessage, {
+          sessionId: effectiveSessionId,
+          guidance: interview.guidance,
+          callbacks: usageCallbacks({ phase: turnPhase, source: "chat" }),
+        })
+        let step = await tokens.next()
+        while (!step.done) {
+          appendText(step.value)
+          step = await tokens.next()
+        }
+        // Some models don't stream - fall back to the final answer if no tokens came through
+        if (!response && step.value.output) {
+          appendText(step.value.output)
+        }
+        // Say which model answered - it's not always the primary one
+        if (step.value.model) {
+          writer.write({ type: "data-model", data: step.value.model })
+        }
+        // The agent has asked this turn's question now, so the planner can move past it
+        planner.completeTurn(effectiveSessionId, interview)
 
-    // Store the AI's response in memory for context in future messages
-    memoryManager.addMessage(effectiveSessionId, "assistant", response)
-    console.log(`Session now has ${session.conversationHistory.length} messages in memory`)
+        // Store this message in session history so we can reference it later
+        memoryManager.addMessage(effectiveSessionId, "user", userMessage)
 
-    // Build the response object
-    const responseData: any = {
-      id: `msg-${Date.now()}`,
-      role: "assistant",
-      content: response,
-      parts: [{ type: "text", text: response }],
-    }
+        // Now the interesting part: check if we should auto-generate documents
+        // This happens when the AI has gathered enough info for a phase (or proposed
+        // finishing it), or when it asked for a document through its tools
+        if (projectSession && agents.documentGenerator && agents.extractor) {
+          const currentPhase = projectSession.currentPhase
+          const { documentGenerator, extractor } = agents
+          const pipeline = getPhasePipeline()
+          const requestedDocument = memoryManager.takeDocumentRequest(effectiveSessionId)
 
-    // If we generated a document, include it in the response
-    // The frontend will use this to show download buttons
-    if (generatedDocument) {
-      responseData.document = generatedDocument
-      responseData.projectSession = projectSession
-    }
+          // Generated documents are kept as markdown and as structured data -
+          // extraction problems and spend caps are shown to the user instead of failing silently
+          const reportDocumentError = (error: unknown) => {
+            if (error instanceof DecisionRecordError) {
+              appendText(`\n\n⚠️ I couldn't record the architecture decisions:\n${error.issues.map(issue => `- ${issue}`).join("\n")}`)
+            } else if (error instanceof ReviewError) {
+              appendText(`\n\n⚠️ I couldn't review the documents for consistency:\n${error.issues.map(issue => `- ${issue}`).join("\n")}`)
+            } else if (error instanceof StructuredExtractionError) {
+              appendText(`\n\n⚠️ I couldn't turn the ${error.kind} document into structured data:\n${error.issues.map(issue => `- ${issue}`).join("\n")}`)
+            } else if (error instanceof SpendCapExceededError) {
+              appendText(`\n\n⚠️ ${error.message} No more documents will be generated.`)
+            }
+          }
 
-    return new Response(
-      JSON.stringify(responseData),
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "Cache-Control": "no-cache", // Prevent caching of AI responses
-        },
-      }
-    )
+          // Broken Mermaid diagrams are fixed (or flagged in the document) before it's stored
+          const diagramReports: Array<{ type: DocumentType; result: MermaidRepairResult }> = []
+          const checkDiagrams = async (type: DocumentType, generated: DocumentGeneration): Promise<DocumentGeneration> => {
+            if (!agents.mermaidRepairer) return generated
+            const result = await agents.mermaidRepairer.repairDocument(
+              generated.content,
+              usageCallbacks({ phase: type, document: type, source: "repair" })
+            )
+            if (result.repaired > 0 || result.flagged.length > 0) {
+              diagramReports.push({ type, result })
+            }
+            return { ...generated, content: result.content }
+          }
+          const reportDiagrams = () => {
+            for (const { type, result } of diagramReports) {
+              const fileName = pipeline.get(type)?.fileName ?? type
+              if (result.repaired > 0) {
+                appendText(`\n\n🛠️ Fixed the syntax of ${result.repaired} Mermaid diagram${result.repaired === 1 ? "" : "s"} in ${fileName}.`)
+              }
+              if (result.flagged.length > 0) {
+                const lines = result.flagged.map(block => `line ${block.line}`).join(", ")
+                appendText(`\n\n⚠️ ${result.flagged.length} Mermaid diagram${result.flagged.length === 1 ? "" : "s"} in ${fileName} may not render (${lines}) - they're marked in the document.`)
+              }
+            }
+          }
+
+          // Generate one document, store it (markdown + structured) and send it to the UI
+          // The phase does the writing and anything it wants done with the result;
+          // design and tasks can take review feedback - accepted issues the model should fix
+          const generatedThisTurn: DocumentType[] = []
+          const phaseNotices: string[] = []
+          const buildDocument = async (phase: PhaseDefinition, reviewFeedback?: string) => {
+            const type = phase.id
+            const inputs: Partial<Record<DocumentType, string>> = {}
+            for (const dependency of phase.dependsOn) {
+              const document = projectSession.documents[dependency]
+              if (document) inputs[dependency] = document
+            }
+            const context = {
+              sessionId: effectiveSessionId,
+              session: projectSession,
+              memoryManager,
+              documentGenerator,
+              extractor,
+              inputs,
+              reviewFeedback,
+              callbacks: {
+                generation: usageCallbacks({ phase: type, document: type, source: "document" }),
+                extraction: usageCallbacks({ phase: type, document: type, source: "extraction" }),
+              },
+            }
+            let generated = await checkDiagrams(type, await phase.generate(context))
+            memoryManager.setDocument(effectiveSessionId, type, generated.content)
+            const outcome = await phase.afterGenerate?.(context, generated)
+            if (outcome?.content) {
+              generated = { ...generated, content: outcome.content }
+              memoryManager.setDocument(effectiveSessionId, type, generated.content)
+            }
+            phaseNotices.push(...(outcome?.notices ?? []))
+            console.log(`Generated ${type} document with prompt ${generated.promptVersion}`)
+            writeDocument({ type, fileName: phase.fileName, content: generated.content, projectName: projectSession.projectName })
+            generatedThisTurn.push(type)
+          }
+
+          // Accepted review issues: regenerate the documents they point at, with the issues as feedback
+          // Tasks are built from the design, so a new Design.md always brings a new Tasks.md
+          if (acceptedIssues.length > 0) {
+            const feedbackFor = (document: ReviewIssue["document"]) => {
+              const issues = acceptedIssues.filter(issue => issue.document === document)
+              return issues.length > 0 ? formatReviewFeedback(issues) : undefined
+            }
+            const designFeedback = feedbackFor("design")
+            console.log(`Regeneration pass with ${acceptedIssues.length} accepted review issues`)
+            try {
+              const design = pipeline.get("design")
+              const tasks = pipeline.get("tasks")
+              if (designFeedback && design) {
+                await buildDocument(design, designFeedback)
+              }
+              if (tasks) {
+                await buildDocument(tasks, feedbackFor("tasks"))
+              }
+              const regenerated = generatedThisTurn.map(type => pipeline.get(type)?.fileName ?? type).join(" and ")
+              appendText(`\n\n🔄 **${regenerated} regenerated** with ${acceptedIssues.length} accepted fix${acceptedIssues.length === 1 ? "" : "es"}.`)
+            } catch (error) {
+              console.error("Failed to regenerate documents from review:", error)
+              reportDocumentError(error)
+            }
+          }
+
+          else {
+            // The current phase generates its document and hands over to the next one when the agent
+            // proposes it, or when the phase is complete before its document exists. A document the
+            // user asked for leaves the phase where it is until the agent proposes moving on
+            const phase = pipeline.get(currentPhase)
+            const proposed = projectSession.pendingPhaseAdvance?.phase === currentPhase
+            if (phase && (proposed || (!projectSession.documents[phase.id] && memoryManager.isPhaseComplete(effectiveSessionId, phase.id)))) {
+              console.log(`${phase.indicator.label} phase complete, generating ${phase.fileName}`)
+              try {
+                await buildDocument(phase)
+
+                // Automatically move to the next phase - or finish if this was the last one
+                const next = pipeline.next(phase.id)
+                memoryManager.updateProjectPhase(effectiveSessionId, next?.id ?? "complete")
+                appendText(`\n\n✅ **${phase.fileName} generated!** You can download it below.\n\n${next
+                  ? next.introduction
+                  : "🎉 All the documents are ready! You can now hand these off to AI agents like Cursor, Windsurf, or Claude for implementation."}`)
+              } catch (error) {
+                console.error(`Failed to generate ${phase.id}:`, error)
+                reportDocumentError(error)
+              }
+            }
+
+            // (Re)generating a document on request - e.g. after the user asked for changes - never moves the phase
+            const requested = requestedDocument && !generatedThisTurn.includes(requestedDocument)
+              ? pipeline.get(requestedDocument)
+              : undefined
+            if (requested) {
+              const existed = !!projectSession.documents[requested.id]
+              console.log(`Generating ${requested.id} document on request`)
+              try {
+                await buildDocument(requested)
+                appendText(existed
+                  ? `\n\n🔄 **${requested.fileName} regenerated!** You can download the new version below.`
+                  : `\n\n✅ **${requested.fileName} generated!** You can download it below.`)
+              } catch (error) {
+                console.error(`Failed to generate ${requested.id} on request:`, error)
+                reportDocumentError(error)
+              }
+            }
+          }
+
+          reportDiagrams()
+          for (const notice of phaseNotices) {
+            appendText(`\n\n${notice}`)
+          }
+
+          // A new design with endpoints comes with its API contract, checked against the OpenAPI 3.1 schema
+          const designData = projectSession.design
+          if (generatedThisTurn.includes("design") && designData && designData.apiDesign.endpoints.length > 0) {
+            const openApi = buildOpenApiSpec(designData, projectSession.projectName)
+            const validationIssues = await validateOpenApiSpec(openApi.spec)
+            if (validationIssues.length > 0) {
+              console.error("Generated OpenAPI spec failed validation:", validationIssues)
+            }
+            writer.write({ type: "data-openapi", data: { ...openApi, validationIssues } })
+          }
+
+          // ...and its data models as database schemas
+          if (generatedThisTurn.includes("design") && designData && designData.dataModels.length > 0) {
+            const dbSchema = buildDatabaseSchemaFiles(designData)
+            if (dbSchema.issues.length > 0) {
+              console.warn("Data models have schema issues:", dbSchema.issues)
+            }
+            writer.write({ type: "data-dbSchema", data: dbSchema })
+          }
+
+          // Every new Design.md adds ADRs for the decisions that aren't on record yet
+          if (agents.decisionRecorder && generatedThisTurn.includes("design")) {
+            try {
+              const added = await agents.decisionRecorder.record(
+                projectSession,
+                usageCallbacks({ phase: "design", document: "design", source: "decisions" })
+              )
+              memoryManager.addDecisions(effectiveSessionId, added)
+              if (added.length > 0) {
+                writer.write({ type: "data-decisions", data: projectSession.decisions ?? [] })
+                const numbers = added.map(adr => adr.number)
+                const range = numbers.length === 1 ? `ADR ${numbers[0]}` : `ADRs ${numbers[0]}-${numbers[numbers.length - 1]}`
+                appendText(`\n\n📝 Recorded ${added.length} architecture decision${added.length === 1 ? "" : "s"} (${range}) - download them below alongside Design.md.`)
+              }
+            } catch (error) {
+              console.error("Recording architecture decisions failed:", error)
+              reportDocumentError(error)
+            }
+          }
+
+          // Once all three documents exist, any new design or tasks gets cross-checked against the requirements
+          const documents = projectSession.documents
+          const needsReview = generatedThisTurn.some(type => type !== "requirements")
+
+          // Which components realize each feature and which tasks build each component
+          const { requirements, design, tasks } = projectSession
+          if (needsReview && requirements && design && tasks) {
+            writer.write({ type: "data-traceability", data: buildTraceabilityMatrix(requirements, design, tasks) })
+          }
+
+          if (agents.reviewer && needsReview && documents.requirements && documents.design && documents.tasks) {
+            try {
+              const review = await agents.reviewer.review(
+                projectSession,
+                usageCallbacks({ phase: projectSession.currentPhase, source: "review" })
+              )
+              memoryManager.setReview(effectiveSessionId, review)
+              writer.write({ type: "data-review", data: review })
+              appendText(
+                review.issues.length > 0
+                  ? `\n\n🔍 The consistency review found ${review.issues.length} issue${review.issues.length === 1 ? "" : "s"} - accept the ones you want fixed and I'll regenerate the documents.`
+                  : "\n\n🔍 The consistency review found no issues between the documents."
+              )
+            } catch (error) {
+              console.error("Consistency review failed:", error)
+              reportDocumentError(error)
+            }
+          }
+
+          // With Design.md and Tasks.md in place the project can be scaffolded - the zip itself is built on download
+          if (needsReview && canScaffold(projectSession)) {
+            const scaffold = buildScaffold(projectSession)
+            writer.write({
+              type: "data-scaffold",
+              data: {
+                url: `/api/scaffold?sessionId=${encodeURIComponent(effectiveSessionId)}`,
+                root: scaffold.root,
+                paths: scaffold.files.map(file => file.path),
+              },
+            })
+          }
+        }
+
+        // Let the UI show how much of the requirements interview is covered
+        const coverage = memoryManager.getRequirementsCoverage(effectiveSessionId)
+        if (coverage && turnPhase === "requirements") {
+          writer.write({ type: "data-coverage", data: coverage })
+        }
+
+        // Running token and cost totals for the chat header
+        writer.write({ type: "data-usage", data: usageTracker.getSessionUsage(effectiveSessionId) })
+
+        // Progress through whichever phases are registered, for the PhaseIndicator
+        writer.write({ type: "data-progress", data: getPhasePipeline().progress(projectSession) })
+
+        writer.write({ type: "text-end", id: textId })
+        writer.write({ type: "finish" })
+
+        // Store the AI's response in memory for context in future messages
+        memoryManager.addMessage(effectiveSessionId, "assistant", response)
+        console.log(`Session now has ${session.conversationHistory.length} messages in memory`)
+      },
+      onError: (error) => {
+        // Errors mid-stream can't become a 500 any more, so they travel as an error part
+        console.error("Chat stream error:", error)
+        return error instanceof Error ? error.message : "Unknown error"
+      },
+    })
+
+    return createUIMessageStreamResponse({
+      stream,
+      headers: {
+        "Cache-Control": "no-cache", // Prevent caching of AI responses
+        ...userCookieHeaders(user),
+      },
+    })
   } catch (error) {
     // Error handling - log everything for debugging
     console.error("Chat API error:", error)
@@ -195,6 +486,8 @@ export async function POST(req: Request) {
       message: errorMessage,
       stack: errorStack,
       env: {
+        provider: process.env.LLM_PROVIDER || "openrouter",
+        cassetteMode: process.env.LLM_CASSETTE_MODE || "off",
         hasOpenRouterKey: !!process.env.OPENROUTER_API_KEY,
         hasOpenAIKey: !!process.env.OPENAI_API_KEY,
         model: process.env.OPENROUTER_MODEL,
@@ -0,0 +1,52 @@
+import { buildDatabaseSchemaFiles, type SchemaFormat } from "@/lib/export/db-schema-formats"
+import { getMemoryManager } from "@/lib/memory/session-manager"
+import { resolveUser } from "@/lib/usage/user-identity"
+
+const FORMATS: SchemaFormat[] = ["postgres", "sqlite", "prisma", "drizzle"]
+
+function errorResponse(error: string, status: number) {
+  return new Response(JSON.stringify({ error }), { status, headers: { "Content-Type": "application/json" } })
+}
+
+// GET /api/db-schema?sessionId=...&format=postgres|sqlite|prisma|drizzle
+// One of the database schema files built from the session's design data models, as a download.
+// Without a format, returns all the files and any issues found in the data models as JSON.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const sessionId = searchParams.get("sessionId")
+  const format = searchParams.get("format")
+
+  if (!sessionId) {
+    return errorResponse("Provide a sessionId", 400)
+  }
+  if (format && !FORMATS.includes(format as SchemaFormat)) {
+    return errorResponse(`Unknown format "${format}". Use ${FORMATS.join(", ")}`, 400)
+  }
+
+  // Only the user who started the session can read from it
+  const memoryManager = getMemoryManager()
+  if (!memoryManager.isSessionOwner(sessionId, resolveUser(req).userId)) {
+    return errorResponse("This session belongs to another user", 403)
+  }
+
+  const session = memoryManager.getProjectSession(sessionId)
+  if (!session?.design) {
+    return errorResponse("The design must be generated first", 404)
+  }
+  if (session.design.dataModels.length === 0) {
+    return errorResponse("The design has no data models", 404)
+  }
+
+  const dbSchema = buildDatabaseSchemaFiles(session.design)
+  if (!format) {
+    return Response.json(dbSchema)
+  }
+
+  const file = dbSchema.files.find(candidate => candidate.format === format)!
+  return new Response(file.content, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${file.path.split("/").pop()}"`,
+    },
+  })
+}
@@ -0,0 +1,51 @@
+import { buildOpenApiSpec, formatOpenApiJson, formatOpenApiYaml } from "@/lib/export/openapi"
+import { validateOpenApiSpec } from "@/lib/export/openapi-validation"
+import { getMemoryManager } from "@/lib/memory/session-manager"
+import { resolveUser } from "@/lib/usage/user-identity"
+
+function errorResponse(error: string, status: number) {
+  return new Response(JSON.stringify({ error }), { status, headers: { "Content-Type": "application/json" } })
+}
+
+// GET /api/openapi?sessionId=...&format=json|yaml
+// OpenAPI 3.1 contract built from the session's design, as a download.
+// The spec is validated before it's served - a spec that fails is a bug on our side.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const sessionId = searchParams.get("sessionId")
+  const format = searchParams.get("format") || "json"
+
+  if (!sessionId) {
+    return errorResponse("Provide a sessionId", 400)
+  }
+  if (!["json", "yaml"].includes(format)) {
+    return errorResponse(`Unknown format "${format}". Use json or yaml`, 400)
+  }
+
+  // Only the user who started the session can read from it
+  const memoryManager = getMemoryManager()
+  if (!memoryManager.isSessionOwner(sessionId, resolveUser(req).userId)) {
+    return errorResponse("This session belongs to another user", 403)
+  }
+
+  const session = memoryManager.getProjectSession(sessionId)
+  if (!session?.design) {
+    return errorResponse("The design must be generated first", 404)
+  }
+  if (session.design.apiDesign.endpoints.length === 0) {
+    return errorResponse("The design has no API endpoints", 404)
+  }
+
+  const { spec } = buildOpenApiSpec(session.design, session.projectName)
+  const issues = await validateOpenApiSpec(spec)
+  if (issues.length > 0) {
+    return errorResponse(`The generated spec isn't valid OpenAPI 3.1: ${issues.join("; ")}`, 500)
+  }
+
+  return new Response(format === "json" ? formatOpenApiJson(spec) : formatOpenApiYaml(spec), {
+    headers: {
+      "Content-Type": format === "json" ? "application/json; charset=utf-8" : "application/yaml; charset=utf-8",
+      "Content-Disposition": `attachment; filename="openapi.${format}"`,
+    },
+  })
+}
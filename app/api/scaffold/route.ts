@@ -0,0 +1,42 @@
+import { buildScaffold, canScaffold } from "@/lib/export/scaffold"
+import { buildScaffoldArchive } from "@/lib/export/scaffold-archive"
+import { getMemoryManager } from "@/lib/memory/session-manager"
+import { resolveUser } from "@/lib/usage/user-identity"
+
+function errorResponse(error: string, status: number) {
+  return new Response(JSON.stringify({ error }), { status, headers: { "Content-Type": "application/json" } })
+}
+
+// GET /api/scaffold?sessionId=...
+// A starter repository for the session as a zip - component stubs, route handlers, models,
+// database schemas, a README and the planning documents. Built from the session's
+// structured documents, so it needs Design.md and Tasks.md.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const sessionId = searchParams.get("sessionId")
+
+  if (!sessionId) {
+    return errorResponse("Provide a sessionId", 400)
+  }
+
+  // Only the user who started the session can read from it
+  const memoryManager = getMemoryManager()
+  if (!memoryManager.isSessionOwner(sessionId, resolveUser(req).userId)) {
+    return errorResponse("This session belongs to another user", 403)
+  }
+
+  const session = memoryManager.getProjectSession(sessionId)
+  if (!session || !canScaffold(session)) {
+    return errorResponse("Design.md and Tasks.md must be generated first", 404)
+  }
+
+  const scaffold = buildScaffold(session)
+  const archive = await buildScaffoldArchive(scaffold)
+
+  return new Response(archive, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${scaffold.root}.zip"`,
+    },
+  })
+}
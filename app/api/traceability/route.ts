@@ -0,0 +1,47 @@
+import { buildTraceabilityMatrix, formatTraceabilityCsv, formatTraceabilityMarkdown } from "@/lib/analysis/traceability"
+import { getMemoryManager } from "@/lib/memory/session-manager"
+import { resolveUser } from "@/lib/usage/user-identity"
+
+function errorResponse(error: string, status: number) {
+  return new Response(JSON.stringify({ error }), { status, headers: { "Content-Type": "application/json" } })
+}
+
+// GET /api/traceability?sessionId=...&format=json|md|csv
+// Feature → design component → task links for a session, once all three
+// documents have been generated. Markdown and CSV come back as downloads.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const sessionId = searchParams.get("sessionId")
+  const format = searchParams.get("format") || "json"
+
+  if (!sessionId) {
+    return errorResponse("Provide a sessionId", 400)
+  }
+  if (!["json", "md", "csv"].includes(format)) {
+    return errorResponse(`Unknown format "${format}". Use json, md or csv`, 400)
+  }
+
+  // Only the user who started the session can read from it
+  const memoryManager = getMemoryManager()
+  if (!memoryManager.isSessionOwner(sessionId, resolveUser(req).userId)) {
+    return errorResponse("This session belongs to another user", 403)
+  }
+
+  const session = memoryManager.getProjectSession(sessionId)
+  if (!session?.requirements || !session.design || !session.tasks) {
+    return errorResponse("Requirements, design and tasks must all be generated first", 404)
+  }
+
+  const matrix = buildTraceabilityMatrix(session.requirements, session.design, session.tasks)
+  if (format === "json") {
+    return Response.json(matrix)
+  }
+
+  const content = format === "md" ? formatTraceabilityMarkdown(matrix) : formatTraceabilityCsv(matrix)
+  return new Response(content, {
+    headers: {
+      "Content-Type": format === "md" ? "text/markdown; charset=utf-8" : "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="traceability.${format}"`,
+    },
+  })
+}
@@ -0,0 +1,31 @@
+import { getMemoryManager } from "@/lib/memory/session-manager"
+import { getSpendCaps, getUsageTracker } from "@/lib/usage/usage-tracker"
+import { resolveUser, userCookieHeaders } from "@/lib/usage/user-identity"
+
+function errorResponse(error: string, status: number) {
+  return new Response(JSON.stringify({ error }), { status, headers: { "Content-Type": "application/json" } })
+}
+
+// GET /api/usage?sessionId=...
+// Token and cost totals for one of the caller's sessions (by phase, document and model),
+// the caller's total across sessions, and the configured spend caps.
+// The caller is whoever holds the signed user cookie - other users' spend isn't visible
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const sessionId = searchParams.get("sessionId")
+  const user = resolveUser(req)
+  const tracker = getUsageTracker()
+
+  if (sessionId && !getMemoryManager().isSessionOwner(sessionId, user.userId)) {
+    return errorResponse("This session belongs to another user", 403)
+  }
+
+  return Response.json(
+    {
+      session: sessionId ? tracker.getSessionUsage(sessionId) : null,
+      user: tracker.getUserUsage(user.userId),
+      caps: getSpendCaps(),
+    },
+    { headers: userCookieHeaders(user) }
+  )
+}
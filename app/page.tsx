@@ -3,19 +3,20 @@
 import type React from "react"
 
 import { useState, useEffect } from "react"
-import type { UIMessage } from "ai"
 import { ChatSidebar } from "@/components/chat-sidebar"
 import { ChatInterface } from "@/components/chat-interface"
 import { useLocalStorage } from "@/hooks/use-local-storage"
 import { type ChatSession, generateChatTitle } from "@/lib/chat-storage"
+import { readChatStream } from "@/lib/chat-stream"
+import type { ChatUIMessage } from "@/lib/types/chat"
+import type { ReviewIssue } from "@/lib/types/project"
 
 export default function Home() {
   const [chats, setChats, isLoaded] = useLocalStorage<ChatSession[]>("beebot-chats", [])
   const [currentChatId, setCurrentChatId] = useState<string | null>(null)
   const [input, setInput] = useState("")
-  const [messages, setMessages] = useState<UIMessage[]>([])
+  const [messages, setMessages] = useState<ChatUIMessage[]>([])
   const [isLoading, setIsLoading] = useState(false)
-
   // Load current chat messages when chat changes
   useEffect(() => {
     if (currentChatId && isLoaded) {
@@ -70,28 +71,27 @@ export default function Home() {
     setCurrentChatId(chatId)
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!input.trim() || isLoading) return
-
+  // Send a user message and stream the reply in
+  // Accepted review issues go along by id so the server can regenerate the documents they point at
+  const sendMessage = async (userMessage: string, acceptedIssues: string[] = []) => {
     // Create new chat if none exists
-    if (!currentChatId) {
+    // We keep the id locally too - state updates aren't visible until the next render
+    let chatId = currentChatId
+    if (!chatId) {
       const newChat: ChatSession = {
         id: Date.now().toString(),
-        title: generateChatTitle(input),
+        title: generateChatTitle(userMessage),
         messages: [],
         createdAt: Date.now(),
         updatedAt: Date.now(),
       }
       setChats((prevChats) => [newChat, ...prevChats])
       setCurrentChatId(newChat.id)
+      chatId = newChat.id
     }
 
-    const userMessage = input
-    setInput("")
-
     // Add user message to chat
-    const userMsg: UIMessage = {
+    const userMsg: ChatUIMessage = {
       id: `user-${Date.now()}`,
       role: "user",
       parts: [{ type: "text", text: userMessage }],
@@ -100,34 +100,68 @@ export default function Home() {
     setMessages((prev) => [...prev, userMsg])
     setIsLoading(true)
 
+    // Failed turns show up in the chat instead of silently disappearing
+    const showError = (text: string) => {
+      setMessages((prev) => [
+        ...prev,
+        { id: `error-${Date.now()}`, role: "assistant", parts: [{ type: "text", text: `⚠️ ${text}` }] },
+      ])
+    }
+
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ messages: [...messages, userMsg] }),
+        // The chat id doubles as the server-side session id, so each chat gets its own memory
+        body: JSON.stringify({ messages: [...messages, userMsg], sessionId: chatId, acceptedIssues }),
       })
       
-      if (response.ok) {
-        const data = await response.json()
-        console.log("Response data:", data)
-        
-        const aiMsg: UIMessage = {
-          id: data.id || `ai-${Date.now()}`,
-          role: "assistant",
-          parts: [{ type: "text", text: data.content || data.parts?.[0]?.text || "" }],
+      if (response.ok && response.body) {
+        // The route answers with an AI SDK UI message stream (SSE)
+        // Each snapshot is the whole message so far - swap it in as the tokens arrive
+        for await (const aiMsg of readChatStream(response.body)) {
+          setMessages((prev) => {
+            const index = prev.findIndex((m) => m.id === aiMsg.id)
+            if (index === -1) return [...prev, aiMsg]
+            const updated = [...prev]
+            updated[index] = aiMsg
+            return updated
+          })
         }
-        
-        setMessages((prev) => [...prev, aiMsg])
       } else {
+        // Errors come back as { error } JSON - spend caps (402), provider problems (500)
         console.error("Response not OK:", response.status, response.statusText)
+        const body = await response.json().catch(() => null)
+        showError(body?.error || `Something went wrong (${response.status}). Please try again.`)
       }
     } catch (error) {
       console.error("Fetch error:", error)
+      showError(error instanceof Error ? error.message : "Something went wrong. Please try again.")
     } finally {
       setIsLoading(false)
     }
   }
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!input.trim() || isLoading) return
+
+    const userMessage = input
+    setInput("")
+    await sendMessage(userMessage)
+  }
+
+  // Accepting review issues reads as a normal request in the chat, so the history makes sense later
+  const handleAcceptReviewIssues = async (issues: ReviewIssue[]) => {
+    if (issues.length === 0 || isLoading) return
+
+    const list = issues.map((issue) => `- ${issue.subject}: ${issue.suggestion || issue.description}`).join("\n")
+    await sendMessage(
+      `Please regenerate the documents and fix these review issues:\n${list}`,
+      issues.map((issue) => issue.id)
+    )
+  }
+
   if (!isLoaded) {
     return (
       <div className="flex h-screen items-center justify-center">
@@ -151,6 +185,7 @@ export default function Home() {
         onInputChange={setInput}
         onSubmit={handleSubmit}
         onNewChat={handleNewChat}
+        onAcceptReviewIssues={handleAcceptReviewIssues}
         isLoading={isLoading}
       />
      
@@ -9,18 +9,30 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Plus, User, ChevronDown, Paperclip, Lightbulb, ImageIcon, Search, Send, Sparkles } from "lucide-react"
-import type { UIMessage } from "ai"
+import type { ChatUIMessage } from "@/lib/types/chat"
+import type { ReviewIssue } from "@/lib/types/project"
 import { cn } from "@/lib/utils"
-import ReactMarkdown from "react-markdown"
-import remarkGfm from "remark-gfm"
+import { DocumentDownload } from "@/components/document-download"
+import { MarkdownContent } from "@/components/markdown-content"
+import { DecisionRecords } from "@/components/decision-records"
+import { OpenApiDownload } from "@/components/openapi-download"
+import { DbSchemaDownload } from "@/components/db-schema-download"
+import { ScaffoldDownload } from "@/components/scaffold-download"
+import { CoverageMeter } from "@/components/coverage-meter"
+import { UsageBadge } from "@/components/usage-badge"
+import { PhaseIndicator } from "@/components/phase-indicator"
+import { ReviewPanel } from "@/components/review-panel"
+import { TraceabilityMatrix } from "@/components/traceability-matrix"
 
 // Props interface for the chat component
 interface ChatInterfaceProps {
-  messages: UIMessage[]
+  messages: ChatUIMessage[]
   input: string
   onInputChange: (value: string) => void
   onSubmit: (e: React.FormEvent) => void
   onNewChat: () => void
+  // Sends accepted consistency review issues into a regeneration pass
+  onAcceptReviewIssues: (issues: ReviewIssue[]) => void
   isLoading: boolean
 }
 
@@ -30,11 +42,25 @@ interface ChatInterfaceProps {
  * Main chat UI where users interact with Understand.AI
  * Features:
  * - Auto-scrolling message list
- * - Markdown rendering for AI responses
- * - Loading animation (three dots)
+ * - Markdown rendering for AI responses, streamed in token by token
+ * - Download buttons for documents generated during a turn
+ * - Requirements coverage meter while the interview is running
+ * - Token and cost totals for the chat in the header
+ * - Progress through the registered phases under the header
+ * - Consistency review issues the user can accept into a regeneration pass
+ * - Feature → component → task traceability, with uncovered features highlighted
+ * - Loading animation (three dots) until the first token arrives
  * - Auto-expanding textarea
  */
-export function ChatInterface({ messages, input, onInputChange, onSubmit, onNewChat, isLoading }: ChatInterfaceProps) {
+export function ChatInterface({
+  messages,
+  input,
+  onInputChange,
+  onSubmit,
+  onNewChat,
+  onAcceptReviewIssues,
+  isLoading,
+}: ChatInterfaceProps) {
   const scrollRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -68,76 +94,97 @@ export function ChatInterface({ messages, input, onInputChange, onSubmit, onNewC
     adjustTextareaHeight()
   }, [input])
 
-  const renderMessageContent = (message: UIMessage) => {
+  // Show the three dots only while we're still waiting for the assistant's first token
+  const isWaitingForResponse = isLoading && messages[messages.length - 1]?.role !== "assistant"
+
+  // Latest requirements coverage - only sent while we're still in the requirements phase
+  const lastMessage = messages[messages.length - 1]
+  const coverage = lastMessage?.role === "assistant"
+    ? lastMessage.parts.find((part) => part.type === "data-coverage")?.data
+    : undefined
+
+  // Session usage totals - every turn sends the running total, so the latest one wins
+  const usage = messages
+    .findLast((message) => message.parts.some((part) => part.type === "data-usage"))
+    ?.parts.find((part) => part.type === "data-usage")?.data
+
+  // Progress through the phase pipeline - the latest turn's is current
+  const progress = messages
+    .findLast((message) => message.parts.some((part) => part.type === "data-progress"))
+    ?.parts.find((part) => part.type === "data-progress")?.data
+
+  // Only the newest review can be acted on - older ones describe documents that have since changed
+  const latestReviewMessageId = messages.findLast((message) => message.parts.some((part) => part.type === "data-review"))?.id
+
+  const renderMessageContent = (message: ChatUIMessage) => {
     return message.parts.map((part, index) => {
       if (part.type === "text") {
         return (
           <div key={index} className="prose prose-sm max-w-none">
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
-              components={{
-                code: ({ className, children, ...props }: any) => {
-                  const match = /language-(\w+)/.exec(className || "")
-                  const isInline = !match
-                  
-                  return isInline ? (
-                    <code className="rounded bg-muted px-1 py-0.5 font-mono text-sm" {...props}>
-                      {children}
-                    </code>
-                  ) : (
-                    <code className={className} {...props}>
-                      {children}
-                    </code>
-                  )
-                },
-                pre: ({ children }: any) => (
-                  <pre className="overflow-x-auto rounded-lg bg-muted p-4 my-2">
-                    {children}
-                  </pre>
-                ),
-                p: ({ children }: any) => (
-                  <p className="mb-2 last:mb-0">{children}</p>
-                ),
-                ul: ({ children }: any) => (
-                  <ul className="list-disc list-inside mb-2">{children}</ul>
-                ),
-                ol: ({ children }: any) => (
-                  <ol className="list-decimal list-inside mb-2">{children}</ol>
-                ),
-                li: ({ children }: any) => (
-                  <li className="mb-1">{children}</li>
-                ),
-                h1: ({ children }: any) => (
-                  <h1 className="text-xl font-bold mb-2 mt-4">{children}</h1>
-                ),
-                h2: ({ children }: any) => (
-                  <h2 className="text-lg font-bold mb-2 mt-3">{children}</h2>
-                ),
-                h3: ({ children }: any) => (
-                  <h3 className="text-base font-bold mb-2 mt-2">{children}</h3>
-                ),
-                blockquote: ({ children }: any) => (
-                  <blockquote className="border-l-4 border-primary pl-4 italic my-2">
-                    {children}
-                  </blockquote>
-                ),
-                a: ({ href, children }: any) => (
-                  <a 
-                    href={href} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="text-primary hover:underline"
-                  >
-                    {children}
-                  </a>
-                ),
-              }}
-            >
-              {part.text}
-            </ReactMarkdown>
+            <MarkdownContent>{part.text}</MarkdownContent>
+          </div>
+        )
+      }
+      if (part.type === "data-document") {
+        return (
+          <div key={index} className="mt-3">
+            <DocumentDownload documents={[part.data]} projectName={part.data.projectName} />
+          </div>
+        )
+      }
+      if (part.type === "data-review") {
+        return (
+          <div key={index} className="mt-3">
+            <ReviewPanel
+              review={part.data}
+              onAccept={message.id === latestReviewMessageId ? onAcceptReviewIssues : undefined}
+              disabled={isLoading}
+            />
+          </div>
+        )
+      }
+      if (part.type === "data-openapi") {
+        return (
+          <div key={index} className="mt-3">
+            <OpenApiDownload openApi={part.data} />
           </div>
         )
       }
+      if (part.type === "data-dbSchema") {
+        return (
+          <div key={index} className="mt-3">
+            <DbSchemaDownload dbSchema={part.data} />
+          </div>
+        )
+      }
+      if (part.type === "data-decisions") {
+        return (
+          <div key={index} className="mt-3">
+            <DecisionRecords decisions={part.data} />
+          </div>
+        )
+      }
+      if (part.type === "data-scaffold") {
+        return (
+          <div key={index} className="mt-3">
+            <ScaffoldDownload scaffold={part.data} />
+          </div>
+        )
+      }
+      if (part.type === "data-traceability") {
+        return (
+          <div key={index} className="mt-3">
+            <TraceabilityMatrix matrix={part.data} />
+          </div>
+        )
+      }
+      if (part.type === "data-model") {
+        return (
+          <p key={index} className="mt-2 text-[11px] text-muted-foreground">
+            {part.data.fallback ? `Answered by fallback model ${part.data.model}` : `Answered by ${part.data.model}`}
+          </p>
+        )
+      }
       return null
     })
   }
@@ -163,6 +210,7 @@ export function ChatInterface({ messages, input, onInputChange, onSubmit, onNewC
         </DropdownMenu>
 
         <div className="flex items-center gap-2">
+          {usage && <UsageBadge usage={usage} />}
           <Button onClick={onNewChat} className="gap-2 bg-primary text-primary-foreground hover:bg-primary/90">
             <Plus className="h-4 w-4" />
             New Chat
@@ -173,6 +221,17 @@ export function ChatInterface({ messages, input, onInputChange, onSubmit, onNewC
         </div>
       </div>
 
+      {/* Phase progress */}
+      {progress && (
+        <div className="border-b border-border bg-card/50">
+          <PhaseIndicator
+            phases={progress.phases}
+            currentPhase={progress.currentPhase}
+            completedPhases={progress.completedPhases}
+          />
+        </div>
+      )}
+
       {/* Messages */}
       <ScrollArea className="flex-1 px-6 overflow-auto" ref={scrollRef}>
         {messages.length === 0 ? (
@@ -222,7 +281,7 @@ export function ChatInterface({ messages, input, onInputChange, onSubmit, onNewC
               </div>
             ))}
             {/* loading animation */}
-            {isLoading && (
+            {isWaitingForResponse && (
               <div className="flex gap-4">
                 <Avatar className="h-8 w-8 shrink-0">
                   <AvatarFallback className="bg-primary text-primary-foreground">
@@ -245,6 +304,11 @@ export function ChatInterface({ messages, input, onInputChange, onSubmit, onNewC
       {/* Input Area */}
       <div className="border-t border-border bg-card px-6 py-4">
         <div className="mx-auto max-w-3xl">
+          {coverage && (
+            <div className="mb-3">
+              <CoverageMeter coverage={coverage} />
+            </div>
+          )}
           <form onSubmit={onSubmit} className="relative">
             <div className="relative rounded-2xl border border-border bg-background shadow-sm focus-within:border-primary focus-within:ring-1 focus-within:ring-primary">
               <Textarea
@@ -0,0 +1,58 @@
+"use client"
+
+import { CheckCircle2, Circle } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { cn } from "@/lib/utils"
+import type { RequirementsCoverage } from "@/lib/analysis/requirements-coverage"
+
+interface CoverageMeterProps {
+  coverage: RequirementsCoverage
+}
+
+/**
+ * CoverageMeter Component
+ *
+ * Shows how much of each requirements category the interview has covered,
+ * so users can see what's still missing before Requirements.md is generated
+ */
+export function CoverageMeter({ coverage }: CoverageMeterProps) {
+  const overallPercent = Math.round(coverage.overall * 100)
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-border bg-card p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-foreground">Requirements coverage</h3>
+        <span className={cn("text-xs font-medium", coverage.isComplete ? "text-green-600 dark:text-green-400" : "text-muted-foreground")}>
+          {coverage.isComplete ? "Ready to generate" : `${overallPercent}%`}
+        </span>
+      </div>
+
+      <Progress value={overallPercent} />
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2 sm:grid-cols-4">
+        {coverage.categories.map((category) => (
+          <div key={category.id} className="flex flex-col gap-1">
+            <div className="flex items-center gap-1 text-[11px]">
+              {category.covered ? (
+                <CheckCircle2 className="h-3 w-3 shrink-0 text-green-500" />
+              ) : (
+                <Circle className="h-3 w-3 shrink-0 text-muted-foreground" />
+              )}
+              <span className={cn(category.covered ? "text-foreground" : "text-muted-foreground")}>
+                {category.label}
+                {category.required && !category.covered && <span className="text-primary">*</span>}
+              </span>
+            </div>
+            <Progress value={Math.round(category.score * 100)} className="h-1" />
+          </div>
+        ))}
+      </div>
+
+      {!coverage.isComplete && (
+        <p className="text-xs text-muted-foreground">
+          <span className="text-primary">*</span> Required before Requirements.md can be generated
+        </p>
+      )}
+    </div>
+  )
+}
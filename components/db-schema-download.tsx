@@ -0,0 +1,81 @@
+"use client"
+
+import { AlertTriangle, Database, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { DatabaseSchemaExport, SchemaFormat } from "@/lib/export/db-schema-formats"
+
+interface DbSchemaDownloadProps {
+  dbSchema: DatabaseSchemaExport
+}
+
+const FORMAT_LABELS: Record<SchemaFormat, string> = {
+  postgres: "PostgreSQL",
+  sqlite: "SQLite",
+  prisma: "Prisma",
+  drizzle: "Drizzle",
+}
+
+const downloadFile = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: "text/plain;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * DbSchemaDownload Component
+ *
+ * The design's data models as database schema files, one per dialect. Lists
+ * anything that couldn't be turned into a table or foreign key, like a
+ * relationship to a model the design never defines.
+ */
+export function DbSchemaDownload({ dbSchema }: DbSchemaDownloadProps) {
+  const { files, issues } = dbSchema
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-border bg-card p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Database className="h-5 w-5 text-primary" />
+          <h3 className="font-semibold text-foreground">Database Schema</h3>
+        </div>
+        {issues.length > 0 && (
+          <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-3 w-3" />
+            {issues.length} issue{issues.length === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {files.map((file) => (
+          <Button
+            key={file.format}
+            variant="outline"
+            className="h-auto justify-between gap-2 py-2 hover:border-primary hover:bg-primary/5"
+            onClick={() => downloadFile(file.content, file.path.split("/").pop()!)}
+          >
+            <span className="flex min-w-0 flex-col items-start text-left">
+              <span className="text-sm">{FORMAT_LABELS[file.format]}</span>
+              <span className="truncate font-mono text-[10px] font-normal text-muted-foreground">{file.path}</span>
+            </span>
+            <Download className="h-4 w-4 shrink-0" />
+          </Button>
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="list-inside list-disc text-xs text-muted-foreground">
+          {issues.map((issue) => (
+            <li key={`${issue.model}:${issue.message}`}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
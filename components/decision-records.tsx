@@ -0,0 +1,75 @@
+"use client"
+
+import { Download, ScrollText } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { decisionRecordFileName, formatDecisionRecord } from "@/lib/export/decision-records"
+import type { ArchitectureDecision } from "@/lib/types/project"
+
+interface DecisionRecordsProps {
+  decisions: ArchitectureDecision[]
+}
+
+const downloadFile = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: "text/markdown;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * DecisionRecords Component
+ *
+ * The architecture decisions recorded from the design phase, one ADR file
+ * each. Superseded decisions stay in the list, marked with what replaced them.
+ */
+export function DecisionRecords({ decisions }: DecisionRecordsProps) {
+  if (decisions.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-border bg-card p-4">
+      <div className="flex items-center gap-2">
+        <ScrollText className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold text-foreground">Architecture Decisions</h3>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {decisions.map((adr) => {
+          const fileName = decisionRecordFileName(adr)
+          const superseded = adr.status === "superseded"
+          return (
+            <Button
+              key={adr.number}
+              variant="outline"
+              className="h-auto w-full justify-between gap-2 py-2 hover:border-primary hover:bg-primary/5"
+              onClick={() => downloadFile(formatDecisionRecord(adr), fileName)}
+            >
+              <span className="flex min-w-0 flex-col items-start text-left">
+                <span className={cn("truncate font-mono text-xs", superseded && "text-muted-foreground line-through")}>
+                  {fileName}
+                </span>
+                <span className="truncate text-xs font-normal text-muted-foreground">{adr.decision}</span>
+              </span>
+              <span className="flex shrink-0 items-center gap-2">
+                {superseded && (
+                  <Badge variant="secondary" className="text-[10px]">
+                    {adr.supersededBy ? `Superseded by ${adr.supersededBy}` : "Superseded"}
+                  </Badge>
+                )}
+                <Download className="h-4 w-4" />
+              </span>
+            </Button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
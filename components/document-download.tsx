@@ -1,22 +1,23 @@
 "use client"
 
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
-import { Download, FileText, CheckCircle2 } from "lucide-react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { MarkdownContent } from "@/components/markdown-content"
+import { Download, Eye, FileText, CheckCircle2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import type { GeneratedDocument } from "@/lib/types/chat"
 
 interface DocumentDownloadProps {
-  requirementsContent?: string
-  designContent?: string
-  tasksContent?: string
+  // One entry per document, from any phase in the pipeline
+  documents: GeneratedDocument[]
   projectName: string
 }
 
-export function DocumentDownload({
-  requirementsContent,
-  designContent,
-  tasksContent,
-  projectName,
-}: DocumentDownloadProps) {
+export function DocumentDownload({ documents, projectName }: DocumentDownloadProps) {
+  // Which document is open in the preview dialog
+  const [previewing, setPreviewing] = useState<GeneratedDocument | null>(null)
+
   const downloadFile = (content: string, filename: string) => {
     const blob = new Blob([content], { type: "text/markdown;charset=utf-8" })
     const url = URL.createObjectURL(blob)
@@ -29,31 +30,14 @@ export function DocumentDownload({
     URL.revokeObjectURL(url)
   }
 
-  const handleDownload = (type: "requirements" | "design" | "tasks") => {
+  const handleDownload = (generated: GeneratedDocument) => {
     const sanitizedName = projectName.replace(/[^a-z0-9]/gi, "-").toLowerCase()
-    
-    switch (type) {
-      case "requirements":
-        if (requirementsContent) {
-          downloadFile(requirementsContent, `${sanitizedName}-requirements.md`)
-        }
-        break
-      case "design":
-        if (designContent) {
-          downloadFile(designContent, `${sanitizedName}-design.md`)
-        }
-        break
-      case "tasks":
-        if (tasksContent) {
-          downloadFile(tasksContent, `${sanitizedName}-tasks.md`)
-        }
-        break
-    }
+    downloadFile(generated.content, `${sanitizedName}-${generated.type}.md`)
   }
 
-  const hasAnyDocument = requirementsContent || designContent || tasksContent
+  const available = documents.filter(generated => generated.content)
 
-  if (!hasAnyDocument) {
+  if (available.length === 0) {
     return null
   }
 
@@ -65,61 +49,43 @@ export function DocumentDownload({
       </div>
 
       <div className="flex flex-col gap-2">
-        {requirementsContent && (
-          <Button
-            variant="outline"
-            className={cn(
-              "w-full justify-between",
-              "hover:bg-primary/5 hover:border-primary"
-            )}
-            onClick={() => handleDownload("requirements")}
-          >
-            <span className="flex items-center gap-2">
-              <CheckCircle2 className="h-4 w-4 text-green-500" />
-              Requirements.md
-            </span>
-            <Download className="h-4 w-4" />
-          </Button>
-        )}
-
-        {designContent && (
-          <Button
-            variant="outline"
-            className={cn(
-              "w-full justify-between",
-              "hover:bg-primary/5 hover:border-primary"
-            )}
-            onClick={() => handleDownload("design")}
-          >
-            <span className="flex items-center gap-2">
-              <CheckCircle2 className="h-4 w-4 text-green-500" />
-              Design.md
-            </span>
-            <Download className="h-4 w-4" />
-          </Button>
-        )}
-
-        {tasksContent && (
-          <Button
-            variant="outline"
-            className={cn(
-              "w-full justify-between",
-              "hover:bg-primary/5 hover:border-primary"
-            )}
-            onClick={() => handleDownload("tasks")}
-          >
-            <span className="flex items-center gap-2">
-              <CheckCircle2 className="h-4 w-4 text-green-500" />
-              Tasks.md
-            </span>
-            <Download className="h-4 w-4" />
-          </Button>
-        )}
+        {available.map(generated => (
+          <div key={generated.type} className="flex gap-2">
+            <Button
+              variant="outline"
+              className={cn(
+                "flex-1 justify-between",
+                "hover:bg-primary/5 hover:border-primary"
+              )}
+              onClick={() => handleDownload(generated)}
+            >
+              <span className="flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-green-500" />
+                {generated.fileName}
+              </span>
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" aria-label={`Preview ${generated.fileName}`} onClick={() => setPreviewing(generated)}>
+              <Eye className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
       </div>
 
-      {tasksContent && (
+      <Dialog open={previewing !== null} onOpenChange={(open) => !open && setPreviewing(null)}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{previewing?.fileName}</DialogTitle>
+          </DialogHeader>
+          <div className="prose prose-sm max-w-none">
+            {previewing && <MarkdownContent>{previewing.content}</MarkdownContent>}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {available.some(generated => generated.type === "tasks") && (
         <p className="text-xs text-muted-foreground">
-          Download Task.md and provide it to your preferred AI agent to build your project.
+          Download Tasks.md and provide it to your preferred AI agent to build your project.
         </p>
       )}
     </div>
@@ -0,0 +1,103 @@
+"use client"
+
+import ReactMarkdown from "react-markdown"
+import remarkGfm from "remark-gfm"
+import type { Element, ElementContent } from "hast"
+import { MermaidDiagram } from "@/components/mermaid-diagram"
+
+interface MarkdownContentProps {
+  children: string
+}
+
+// Plain text of a hast node - the source inside a code block
+const nodeText = (node: ElementContent): string =>
+  node.type === "text" ? node.value : node.type === "element" ? node.children.map(nodeText).join("") : ""
+
+// A ```mermaid fence comes through as <pre><code class="language-mermaid">
+const mermaidSource = (pre?: Element): string | null => {
+  const code = pre?.children[0]
+  if (code?.type !== "element" || code.tagName !== "code") return null
+  const classes = code.properties.className
+  return Array.isArray(classes) && classes.includes("language-mermaid")
+    ? nodeText(code).replace(/\n$/, "")
+    : null
+}
+
+/**
+ * MarkdownContent Component
+ *
+ * Markdown as we render it in chat messages and document previews - GFM,
+ * our typography, and Mermaid code blocks drawn as diagrams.
+ */
+export function MarkdownContent({ children }: MarkdownContentProps) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        code: ({ className, children, ...props }: any) => {
+          const match = /language-(\w+)/.exec(className || "")
+          const isInline = !match
+
+          return isInline ? (
+            <code className="rounded bg-muted px-1 py-0.5 font-mono text-sm" {...props}>
+              {children}
+            </code>
+          ) : (
+            <code className={className} {...props}>
+              {children}
+            </code>
+          )
+        },
+        pre: ({ node, children }: any) => {
+          const diagram = mermaidSource(node)
+          if (diagram !== null) {
+            return <MermaidDiagram source={diagram} />
+          }
+          return (
+            <pre className="overflow-x-auto rounded-lg bg-muted p-4 my-2">
+              {children}
+            </pre>
+          )
+        },
+        p: ({ children }: any) => (
+          <p className="mb-2 last:mb-0">{children}</p>
+        ),
+        ul: ({ children }: any) => (
+          <ul className="list-disc list-inside mb-2">{children}</ul>
+        ),
+        ol: ({ children }: any) => (
+          <ol className="list-decimal list-inside mb-2">{children}</ol>
+        ),
+        li: ({ children }: any) => (
+          <li className="mb-1">{children}</li>
+        ),
+        h1: ({ children }: any) => (
+          <h1 className="text-xl font-bold mb-2 mt-4">{children}</h1>
+        ),
+        h2: ({ children }: any) => (
+          <h2 className="text-lg font-bold mb-2 mt-3">{children}</h2>
+        ),
+        h3: ({ children }: any) => (
+          <h3 className="text-base font-bold mb-2 mt-2">{children}</h3>
+        ),
+        blockquote: ({ children }: any) => (
+          <blockquote className="border-l-4 border-primary pl-4 italic my-2">
+            {children}
+          </blockquote>
+        ),
+        a: ({ href, children }: any) => (
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            {children}
+          </a>
+        ),
+      }}
+    >
+      {children}
+    </ReactMarkdown>
+  )
+}
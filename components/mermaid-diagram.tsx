@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useId, useState } from "react"
+import { useTheme } from "next-themes"
+import { AlertTriangle } from "lucide-react"
+
+interface MermaidDiagramProps {
+  source: string
+}
+
+// Mermaid is big and only needed once a diagram shows up, so it's loaded on first render
+let mermaidModule: Promise<typeof import("mermaid").default> | null = null
+const loadMermaid = () => (mermaidModule ??= import("mermaid").then((module) => module.default))
+
+/**
+ * MermaidDiagram Component
+ *
+ * Renders a Mermaid diagram as SVG. While Mermaid loads, and whenever the
+ * source doesn't parse (e.g. while it's still streaming in), the source is
+ * shown as a code block instead, with the parse error under it.
+ */
+export function MermaidDiagram({ source }: MermaidDiagramProps) {
+  const { resolvedTheme } = useTheme()
+  const [svg, setSvg] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Mermaid uses the id for the SVG element, and useId's colons aren't valid there
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, "")}`
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadMermaid()
+      .then(async (mermaid) => {
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: "strict",
+          theme: resolvedTheme === "dark" ? "dark" : "default",
+        })
+        const { svg } = await mermaid.render(id, source)
+        if (!cancelled) {
+          setSvg(svg)
+          setError(null)
+        }
+      })
+      .catch((err) => {
+        // A failed render can leave Mermaid's error graphic attached to the page
+        document.getElementById(`d${id}`)?.remove()
+        if (!cancelled) {
+          setSvg(null)
+          setError(err instanceof Error ? err.message : String(err))
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [id, source, resolvedTheme])
+
+  if (svg) {
+    return (
+      <div
+        className="my-2 flex justify-center overflow-x-auto rounded-lg border border-border bg-background p-4"
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+    )
+  }
+
+  return (
+    <div className="my-2">
+      <pre className="overflow-x-auto rounded-lg bg-muted p-4">
+        <code className="language-mermaid">{source}</code>
+      </pre>
+      {error && (
+        <p className="mt-1 flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          This diagram couldn&apos;t be rendered: {error.split("\n")[0]}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { AlertTriangle, CheckCircle2, Download, FileJson } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { formatOpenApiJson, formatOpenApiYaml, type OpenApiExport } from "@/lib/export/openapi"
+
+interface OpenApiDownloadProps {
+  openApi: OpenApiExport & { validationIssues: string[] }
+}
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * OpenApiDownload Component
+ *
+ * The API contract built from Design.md, as openapi.json or openapi.yaml.
+ * Shows whether the spec passed OpenAPI 3.1 validation and anything from the
+ * design that couldn't be mapped into it.
+ */
+export function OpenApiDownload({ openApi }: OpenApiDownloadProps) {
+  const { spec, warnings, validationIssues } = openApi
+  const operations = Object.values(spec.paths ?? {}).reduce((count, item) => count + Object.keys(item ?? {}).length, 0)
+  const schemas = Object.keys(spec.components?.schemas ?? {}).length
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-border bg-card p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FileJson className="h-5 w-5 text-primary" />
+          <h3 className="font-semibold text-foreground">API Contract</h3>
+          <span className="text-xs text-muted-foreground">
+            {operations} operation{operations === 1 ? "" : "s"}, {schemas} schema{schemas === 1 ? "" : "s"}
+          </span>
+        </div>
+        {validationIssues.length === 0 ? (
+          <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+            <CheckCircle2 className="h-3 w-3" />
+            Valid OpenAPI 3.1
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-3 w-3" />
+            Failed validation
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1 justify-between hover:border-primary hover:bg-primary/5"
+          onClick={() => downloadFile(formatOpenApiJson(spec), "openapi.json", "application/json;charset=utf-8")}
+        >
+          openapi.json
+          <Download className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          className="flex-1 justify-between hover:border-primary hover:bg-primary/5"
+          onClick={() => downloadFile(formatOpenApiYaml(spec), "openapi.yaml", "application/yaml;charset=utf-8")}
+        >
+          openapi.yaml
+          <Download className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {[...validationIssues, ...warnings].length > 0 && (
+        <ul className="list-inside list-disc text-xs text-muted-foreground">
+          {[...validationIssues, ...warnings].map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
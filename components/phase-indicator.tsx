@@ -3,21 +3,18 @@
 import { CheckCircle2, Circle, ArrowRight } from "lucide-react"
 import { cn } from "@/lib/utils"
 import type { ProjectPhase } from "@/lib/types/project"
+import type { PhaseIndicatorItem } from "@/lib/phases/pipeline"
 
 interface PhaseIndicatorProps {
+  // The registered phases in order - getPhasePipeline().indicators()
+  phases: PhaseIndicatorItem[]
   currentPhase: ProjectPhase
   completedPhases: ProjectPhase[]
 }
 
-const phases = [
-  { id: "requirements", label: "Requirements", description: "Understanding your project" },
-  { id: "design", label: "Design", description: "System architecture" },
-  { id: "tasks", label: "Tasks", description: "Implementation plan" },
-] as const
-
-export function PhaseIndicator({ currentPhase, completedPhases }: PhaseIndicatorProps) {
+export function PhaseIndicator({ phases, currentPhase, completedPhases }: PhaseIndicatorProps) {
   const getPhaseStatus = (phaseId: string): "completed" | "current" | "upcoming" => {
-    if (completedPhases.includes(phaseId as ProjectPhase)) return "completed"
+    if (completedPhases.includes(phaseId)) return "completed"
     if (currentPhase === phaseId) return "current"
     return "upcoming"
   }
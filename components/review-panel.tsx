@@ -0,0 +1,95 @@
+"use client"
+
+import { useState } from "react"
+import { RefreshCw, SearchCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { cn } from "@/lib/utils"
+import type { ConsistencyReview, ReviewIssue, ReviewIssueKind } from "@/lib/types/project"
+
+interface ReviewPanelProps {
+  review: ConsistencyReview
+  // Left out for older reviews - only the latest one can start a regeneration pass
+  onAccept?: (issues: ReviewIssue[]) => void
+  disabled?: boolean
+}
+
+const KIND_LABELS: Record<ReviewIssueKind, string> = {
+  "feature-without-component": "Feature without component",
+  "component-without-tasks": "Component without tasks",
+  "tech-mismatch": "Tech stack mismatch",
+  "ignored-constraint": "Ignored constraint",
+}
+
+const SEVERITY_STYLES: Record<ReviewIssue["severity"], string> = {
+  high: "bg-red-500/10 text-red-600 dark:text-red-400",
+  medium: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+  low: "bg-muted text-muted-foreground",
+}
+
+/**
+ * ReviewPanel Component
+ *
+ * Lists what the consistency reviewer found between Requirements.md, Design.md
+ * and Tasks.md. The user picks the issues they agree with and sends them into
+ * a regeneration pass.
+ */
+export function ReviewPanel({ review, onAccept, disabled }: ReviewPanelProps) {
+  const [selected, setSelected] = useState<string[]>([])
+
+  if (review.issues.length === 0) {
+    return null
+  }
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((other) => other !== id)))
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-border bg-background p-3">
+      <div className="flex items-center gap-2 text-sm font-semibold text-foreground">
+        <SearchCheck className="h-4 w-4 text-primary" />
+        Consistency review
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {review.issues.map((issue) => (
+          <li key={issue.id} className="flex gap-3 rounded-lg border border-border p-2">
+            {onAccept && (
+              <Checkbox
+                className="mt-0.5"
+                checked={selected.includes(issue.id)}
+                onCheckedChange={(checked) => toggle(issue.id, checked === true)}
+                disabled={disabled}
+                aria-label={`Accept: ${issue.subject}`}
+              />
+            )}
+            <div className="flex flex-col gap-1 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={cn("rounded-full px-2 py-0.5 text-[10px] font-medium uppercase", SEVERITY_STYLES[issue.severity])}>
+                  {issue.severity}
+                </span>
+                <span className="text-muted-foreground">{KIND_LABELS[issue.kind]}</span>
+                <span className="font-medium text-foreground">{issue.subject}</span>
+              </div>
+              <p className="text-foreground">{issue.description}</p>
+              {issue.suggestion && <p className="text-muted-foreground">Fix in {issue.document}: {issue.suggestion}</p>}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {onAccept && (
+        <Button
+          size="sm"
+          className="gap-2 self-end"
+          disabled={disabled || selected.length === 0}
+          onClick={() => onAccept(review.issues.filter((issue) => selected.includes(issue.id)))}
+        >
+          <RefreshCw className="h-3.5 w-3.5" />
+          {selected.length > 0 ? `Regenerate with ${selected.length} fix${selected.length === 1 ? "" : "es"}` : "Select issues to fix"}
+        </Button>
+      )}
+    </div>
+  )
+}
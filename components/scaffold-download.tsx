@@ -0,0 +1,53 @@
+"use client"
+
+import { Download, FolderTree } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { ScaffoldSummary } from "@/lib/export/scaffold"
+
+interface ScaffoldDownloadProps {
+  scaffold: ScaffoldSummary
+}
+
+/**
+ * ScaffoldDownload Component
+ *
+ * The starter repository built from the three documents. Lists what's in it
+ * folder by folder; the zip is built by /api/scaffold when it's downloaded.
+ */
+export function ScaffoldDownload({ scaffold }: ScaffoldDownloadProps) {
+  // "src/models/user.ts" counts towards src/models/, "README.md" towards the root
+  const folders = new Map<string, number>()
+  for (const path of scaffold.paths) {
+    const parts = path.split("/")
+    const folder = parts.length > 2 ? `${parts[0]}/${parts[1]}/` : parts.length === 2 ? `${parts[0]}/` : "/"
+    folders.set(folder, (folders.get(folder) ?? 0) + 1)
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-border bg-card p-4">
+      <div className="flex items-center gap-2">
+        <FolderTree className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold text-foreground">Starter Repository</h3>
+        <span className="text-xs text-muted-foreground">
+          {scaffold.paths.length} file{scaffold.paths.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <ul className="grid grid-cols-2 gap-x-4 gap-y-1 font-mono text-xs text-muted-foreground">
+        {Array.from(folders).map(([folder, count]) => (
+          <li key={folder} className="flex justify-between gap-2">
+            <span className="truncate">{folder === "/" ? `${scaffold.root}/` : folder}</span>
+            <span>{count}</span>
+          </li>
+        ))}
+      </ul>
+
+      <Button asChild variant="outline" className="justify-between hover:border-primary hover:bg-primary/5">
+        <a href={scaffold.url} download={`${scaffold.root}.zip`}>
+          {scaffold.root}.zip
+          <Download className="h-4 w-4" />
+        </a>
+      </Button>
+    </div>
+  )
+}
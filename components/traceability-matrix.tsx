@@ -0,0 +1,121 @@
+"use client"
+
+import { Download, Network } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import {
+  formatTraceabilityCsv,
+  formatTraceabilityMarkdown,
+  type TraceabilityMatrix as Matrix,
+  type TraceStatus,
+} from "@/lib/analysis/traceability"
+
+interface TraceabilityMatrixProps {
+  matrix: Matrix
+}
+
+const STATUS_STYLES: Record<TraceStatus, { label: string; row: string; text: string }> = {
+  covered: { label: "Covered", row: "", text: "text-green-600 dark:text-green-400" },
+  "no-tasks": { label: "No tasks", row: "bg-amber-500/10", text: "text-amber-600 dark:text-amber-400" },
+  "no-component": { label: "No component", row: "bg-red-500/10", text: "text-red-600 dark:text-red-400" },
+}
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * TraceabilityMatrix Component
+ *
+ * Which design components realize each feature and which tasks implement each
+ * component. Features without a component, or with a component nobody builds,
+ * are highlighted. The matrix can be downloaded as Markdown or CSV.
+ */
+export function TraceabilityMatrix({ matrix }: TraceabilityMatrixProps) {
+  if (matrix.rows.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-border bg-background p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold text-foreground">
+          <Network className="h-4 w-4 text-primary" />
+          Traceability
+          <span className="text-xs font-normal text-muted-foreground">
+            {matrix.coveredCount}/{matrix.rows.length} features covered
+          </span>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => downloadFile(formatTraceabilityMarkdown(matrix), "traceability.md", "text/markdown;charset=utf-8")}
+          >
+            <Download className="h-3 w-3" />
+            .md
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => downloadFile(formatTraceabilityCsv(matrix), "traceability.csv", "text/csv;charset=utf-8")}
+          >
+            <Download className="h-3 w-3" />
+            .csv
+          </Button>
+        </div>
+      </div>
+
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Feature</TableHead>
+            <TableHead>Components</TableHead>
+            <TableHead>Tasks</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {matrix.rows.map((row) => {
+            const style = STATUS_STYLES[row.status]
+            return (
+              <TableRow key={row.feature} className={style.row}>
+                <TableCell className="whitespace-normal font-medium">{row.feature}</TableCell>
+                <TableCell className="whitespace-normal">
+                  {row.components.length > 0 ? row.components.map((component) => component.name).join(", ") : "-"}
+                </TableCell>
+                <TableCell className="whitespace-normal">
+                  {row.components.length > 0
+                    ? row.components.map((component) => (
+                        <div key={component.name} className={cn(component.taskIds.length === 0 && "text-amber-600 dark:text-amber-400")}>
+                          {component.taskIds.length > 0 ? component.taskIds.join(", ") : `none for ${component.name}`}
+                        </div>
+                      ))
+                    : "-"}
+                </TableCell>
+                <TableCell className={cn("whitespace-nowrap", style.text)}>{style.label}</TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+
+      {matrix.unlinkedComponents.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not linked to a feature: {matrix.unlinkedComponents.map((component) => component.name).join(", ")}
+        </p>
+      )}
+    </div>
+  )
+}
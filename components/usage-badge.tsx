@@ -0,0 +1,44 @@
+"use client"
+
+import { Coins } from "lucide-react"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import type { SessionUsage, UsageTotals } from "@/lib/types/usage"
+
+interface UsageBadgeProps {
+  usage: SessionUsage
+}
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens))
+const formatCost = (cost: number) => `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`
+const formatTotals = (totals: UsageTotals) => `${formatTokens(totals.totalTokens)} tokens · ${formatCost(totals.cost)}`
+
+/**
+ * UsageBadge Component
+ *
+ * Token and cost totals for the current chat, with a per-phase breakdown on hover
+ */
+export function UsageBadge({ usage }: UsageBadgeProps) {
+  const phases = Object.entries(usage.byPhase) as Array<[string, UsageTotals]>
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-1.5 rounded-full border border-border px-3 py-1 text-xs text-muted-foreground">
+          <Coins className="h-3.5 w-3.5" />
+          <span>{formatTotals(usage.total)}</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="flex flex-col gap-1 text-xs">
+          {phases.map(([phase, totals]) => (
+            <div key={phase} className="flex justify-between gap-4">
+              <span className="capitalize">{phase}</span>
+              <span>{formatTotals(totals)}</span>
+            </div>
+          ))}
+          <div className="border-t pt-1">{usage.total.calls} model calls · estimated cost</div>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
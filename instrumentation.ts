@@ -0,0 +1,30 @@
+/**
+ * Runs once when the server starts (Next.js instrumentation hook).
+ * Checks the phase pipeline and every prompt file against its registered
+ * definition, so a broken phase or override stops the server instead of
+ * failing halfway through a chat.
+ * Set DEBUG_PROMPTS=1 to log which phases and prompt files were loaded.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  // Importing these registers the phases and the built-in prompts
+  const { getPhasePipeline } = await import("./lib/phases")
+  await import("./lib/prompts/phase-prompts")
+  await import("./lib/prompts/document-prompts")
+  const { getPromptRegistry } = await import("./lib/prompts/registry")
+
+  const pipeline = getPhasePipeline()
+  pipeline.assertValid()
+
+  const registry = getPromptRegistry()
+  registry.assertValid()
+
+  if (process.env.DEBUG_PROMPTS === "1") {
+    console.debug("Phases:", pipeline.ids().join(" → "))
+    console.debug(
+      "Prompts:",
+      registry.list().map(prompt => `${prompt.id} (${prompt.source})`).join(", ")
+    )
+  }
+}
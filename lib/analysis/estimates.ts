@@ -0,0 +1,138 @@
+/**
+ * Task Estimates
+ *
+ * `Task.estimatedTime` is whatever the model wrote - "2h", "1-2 days",
+ * "half a day", "about 3 hours". This turns it into a range of working hours,
+ * so estimates can be added up and scheduled.
+ *
+ * A working day is 8 hours and a working week is 5 days.
+ */
+
+export interface Duration {
+  minHours: number
+  maxHours: number
+}
+
+export const HOURS_PER_DAY = 8
+export const HOURS_PER_WEEK = 5 * HOURS_PER_DAY
+
+const UNIT_HOURS: Array<[RegExp, number]> = [
+  [/^(m|mins?|minutes?)$/, 1 / 60],
+  [/^(h|hrs?|hours?)$/, 1],
+  [/^(d|days?)$/, HOURS_PER_DAY],
+  [/^(w|wks?|weeks?)$/, HOURS_PER_WEEK],
+  [/^(mo|months?)$/, 4 * HOURS_PER_WEEK],
+]
+
+const NUMBER_WORDS: Record<string, string> = {
+  one: "1", two: "2", three: "3", four: "4", five: "5", six: "6",
+  seven: "7", eight: "8", nine: "9", ten: "10", eleven: "11", twelve: "12",
+}
+
+// One amount, optionally a range, with its unit: "2h", "1-2 days", "3 to 5 hours"
+const AMOUNT = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|—|to)\s*(\d+(?:\.\d+)?))?\s*(minutes?|mins?|hours?|hrs?|days?|weeks?|wks?|months?|mo|m|h|d|w)\b/g
+
+// What may sit between two amounts to make them one range: "2h - 1 day", "4 hours to 2 days"
+const RANGE_SEPARATOR = /^\s*(-|–|—|to)\s*$/
+
+function unitHours(unit: string): number {
+  return UNIT_HOURS.find(([pattern]) => pattern.test(unit))?.[1] ?? 1
+}
+
+// "1 1/2" → "1.5", "3/4" → "0.75"
+function fraction(_: string, whole: string | undefined, numerator: string, denominator: string): string {
+  return String(Number(whole ?? 0) + Number(numerator) / Number(denominator))
+}
+
+// Spell everything as digits: "half a day" → "0.5 day", "an hour" → "1 hour"
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\b(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b/g, word => NUMBER_WORDS[word])
+    .replace(/\b(\d+)\s+and\s+a\s+half\b/g, "$1.5")
+    .replace(/\bhalf[\s-]+(an?\s+)?/g, "0.5 ")
+    .replace(/\b(?:(\d+)\s+)?(\d+)\/([1-9]\d*)\b/g, fraction)
+    .replace(/\ba\s+couple\s+(of\s+)?/g, "2 ")
+    .replace(/\ba\s+few\s+/g, "3 ")
+    .replace(/\ban?\s+(?=(minute|hour|day|week|month)\b)/g, "1 ")
+    // A comma before three digits groups thousands ("1,000 hours"), otherwise it's a decimal comma ("1,5 days")
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/(\d),(\d)/g, "$1.$2")
+}
+
+/**
+ * Parse a free-form estimate - null if there's no amount with a unit in it.
+ * Several amounts are added up ("1 day 4 hours"); two joined by a dash or "to"
+ * form a range ("4h - 1 day").
+ */
+export function parseEstimate(text?: string): Duration | null {
+  if (!text) return null
+
+  const normalized = normalize(text)
+  const amounts = Array.from(normalized.matchAll(AMOUNT)).map(match => {
+    const hours = unitHours(match[3])
+    const min = Number(match[1]) * hours
+    const max = match[2] ? Number(match[2]) * hours : min
+    return { min: Math.min(min, max), max: Math.max(min, max), start: match.index!, end: match.index! + match[0].length }
+  })
+  if (amounts.length === 0) return null
+
+  let minHours = 0
+  let maxHours = 0
+  for (let i = 0; i < amounts.length; i++) {
+    const amount = amounts[i]
+    const next = amounts[i + 1]
+    if (next && RANGE_SEPARATOR.test(normalized.slice(amount.end, next.start))) {
+      minHours += amount.min
+      maxHours += next.max
+      i++
+    } else {
+      minHours += amount.min
+      maxHours += amount.max
+    }
+  }
+
+  return { minHours, maxHours }
+}
+
+// Midpoint of the range - what schedules are computed with
+export function expectedHours(duration: Duration): number {
+  return (duration.minHours + duration.maxHours) / 2
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// The unit a number of hours reads best in
+function unitFor(hours: number): { size: number; label: (value: number) => string } {
+  if (hours > 0 && hours < 1) return { size: 1 / 60, label: () => "m" }
+  if (hours < HOURS_PER_DAY) return { size: 1, label: () => "h" }
+  if (hours < HOURS_PER_WEEK) return { size: HOURS_PER_DAY, label: value => (value === 1 ? " day" : " days") }
+  return { size: HOURS_PER_WEEK, label: value => (value === 1 ? " week" : " weeks") }
+}
+
+/**
+ * Hours as a readable amount - "30m", "6h", "2.5 days", "3 weeks"
+ */
+export function formatHours(hours: number): string {
+  const unit = unitFor(hours)
+  const value = unit.size < 1 ? Math.round(hours * 60) : round(hours / unit.size)
+  return `${value}${unit.label(value)}`
+}
+
+/**
+ * A range as a readable amount - "2-4h", "1-2 days", "6h-1.5 days"
+ */
+export function formatDuration(duration: Duration): string {
+  const { minHours, maxHours } = duration
+  if (minHours === maxHours) {
+    return formatHours(minHours)
+  }
+
+  // Share the unit when the low end still reads well in it: "1-2 days" rather than "1 day-2 days"
+  const unit = unitFor(maxHours)
+  if (unit.size >= 1 && minHours >= unit.size) {
+    const max = round(maxHours / unit.size)
+    return `${round(minHours / unit.size)}-${max}${unit.label(max)}`
+  }
+  return `${formatHours(minHours)}-${formatHours(maxHours)}`
+}
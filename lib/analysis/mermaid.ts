@@ -0,0 +1,161 @@
+/**
+ * Mermaid Checks
+ *
+ * Pulls ```mermaid blocks out of a markdown document and checks them for the
+ * mistakes LLMs usually make: a missing or unknown diagram type, an empty
+ * diagram, an invalid flowchart direction, or unbalanced brackets and quotes.
+ *
+ * This is a deterministic lint, not the Mermaid parser - a block that passes
+ * can still fail to render, but one that fails here never will.
+ */
+
+export interface MermaidBlock {
+  source: string
+  // 1-based line of the opening fence in the document
+  line: number
+  // 1-based line of the closing fence - the last line of the document if it's never closed
+  endLine: number
+  // False if the document ended before the closing fence
+  closed: boolean
+}
+
+// The first word of a diagram - everything Mermaid can draw
+const DIAGRAM_TYPES = [
+  "graph",
+  "flowchart",
+  "sequenceDiagram",
+  "classDiagram",
+  "stateDiagram",
+  "stateDiagram-v2",
+  "erDiagram",
+  "journey",
+  "gantt",
+  "pie",
+  "quadrantChart",
+  "requirementDiagram",
+  "gitGraph",
+  "mindmap",
+  "timeline",
+  "sankey-beta",
+  "xychart-beta",
+  "block-beta",
+  "C4Context",
+  "C4Container",
+  "C4Component",
+  "C4Dynamic",
+  "C4Deployment",
+]
+
+const FLOWCHART_DIRECTIONS = ["TB", "TD", "BT", "RL", "LR"]
+
+const BRACKETS: Record<string, string> = { "(": ")", "[": "]", "{": "}" }
+
+/**
+ * Every ```mermaid block in a markdown document
+ */
+export function extractMermaidBlocks(markdown: string): MermaidBlock[] {
+  const blocks: MermaidBlock[] = []
+  const lines = markdown.split("\n")
+  let current: { line: number; lines: string[] } | null = null
+
+  for (const [index, line] of lines.entries()) {
+    const trimmed = line.trim()
+    if (!current) {
+      if (/^```\s*mermaid\s*$/i.test(trimmed)) {
+        current = { line: index + 1, lines: [] }
+      }
+    } else if (trimmed.startsWith("```")) {
+      blocks.push({ source: current.lines.join("\n"), line: current.line, endLine: index + 1, closed: true })
+      current = null
+    } else {
+      current.lines.push(line)
+    }
+  }
+
+  if (current) {
+    blocks.push({ source: current.lines.join("\n"), line: current.line, endLine: lines.length, closed: false })
+  }
+
+  return blocks
+}
+
+/**
+ * Problems with a block, including an unclosed fence
+ */
+export function validateMermaidBlock(block: MermaidBlock): string[] {
+  const issues = validateMermaid(block.source)
+  return block.closed ? issues : ["code fence is never closed", ...issues]
+}
+
+// Lines that carry the diagram - no blanks, comments or front matter directives
+function diagramLines(source: string): string[] {
+  return source
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("%%"))
+}
+
+/**
+ * Problems with one diagram - an empty list means it looks valid
+ */
+export function validateMermaid(source: string): string[] {
+  const lines = diagramLines(source)
+  if (lines.length === 0) {
+    return ["diagram is empty"]
+  }
+
+  const issues: string[] = []
+  const [type, direction] = lines[0].split(/\s+/)
+  if (!DIAGRAM_TYPES.includes(type)) {
+    issues.push(`unknown diagram type "${type}"`)
+  } else if ((type === "graph" || type === "flowchart") && direction && !FLOWCHART_DIRECTIONS.includes(direction)) {
+    issues.push(`invalid flowchart direction "${direction}"`)
+  }
+  if (lines.length === 1) {
+    issues.push("diagram has no content after its type")
+  }
+
+  issues.push(...checkBalance(lines))
+
+  return issues
+}
+
+// ER relationships like ||--o{ and }|..|{ and the asymmetric node shape A>text]
+// use brackets that never pair up, so they're removed before counting
+const UNPAIRED_SYNTAX = [/[|}o]{1,2}(?:--|\.\.)[|{o]{1,2}/g, /\b(\w+)>[^\]\n]*\]/g]
+
+// Quotes have to pair up on each line; brackets across the diagram, since
+// class, state and entity bodies span several lines
+function checkBalance(lines: string[]): string[] {
+  const issues: string[] = []
+  const stack: Array<{ close: string; line: number }> = []
+
+  lines.forEach((raw, index) => {
+    const line = UNPAIRED_SYNTAX.reduce((text, pattern) => text.replace(pattern, " "), raw)
+    let inQuote = false
+
+    for (const char of line) {
+      if (char === '"') {
+        inQuote = !inQuote
+        continue
+      }
+      if (inQuote) continue
+
+      if (BRACKETS[char]) {
+        stack.push({ close: BRACKETS[char], line: index + 1 })
+      } else if (Object.values(BRACKETS).includes(char) && stack.pop()?.close !== char) {
+        issues.push(`line ${index + 1}: unexpected "${char}"`)
+        return
+      }
+    }
+
+    if (inQuote) {
+      issues.push(`line ${index + 1}: unclosed quote`)
+    }
+  })
+
+  for (const open of stack) {
+    issues.push(`line ${open.line}: missing "${open.close}"`)
+  }
+  return issues
+}
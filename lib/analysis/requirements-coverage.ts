@@ -0,0 +1,235 @@
+import type { ProjectSession, RequirementsData } from "../types/project"
+
+/**
+ * Requirements Coverage
+ *
+ * Scores how much of each RequirementsData dimension the interview has covered,
+ * so we know when there's enough information to write Requirements.md - and the
+ * user can see what's still missing.
+ *
+ * Scoring is deterministic (no LLM call): each dimension has a set of signal
+ * patterns, and the score grows with the number of distinct signals found in
+ * what the user said. Structured requirements, once extracted, count in full.
+ */
+
+export type CoverageCategory =
+  | "techStack"
+  | "features"
+  | "targetAudience"
+  | "constraints"
+  | "theme"
+  | "usage"
+  | "timeline"
+  | "budget"
+
+export interface CoverageDimension {
+  id: CoverageCategory
+  label: string
+  // How much this dimension counts towards the overall score
+  weight: number
+  // Required dimensions must reach the threshold before the phase can complete
+  required: boolean
+  // Distinct signals needed for a full score
+  saturation: number
+  signals: RegExp[]
+  // True if the extracted requirements already cover this dimension
+  isCoveredBy: (requirements: RequirementsData) => boolean
+}
+
+export interface CategoryCoverage {
+  id: CoverageCategory
+  label: string
+  score: number // 0..1
+  required: boolean
+  covered: boolean
+}
+
+export interface RequirementsCoverage {
+  categories: CategoryCoverage[]
+  overall: number // 0..1, weighted
+  isComplete: boolean
+  missing: CoverageCategory[]
+}
+
+export interface CoverageOptions {
+  // Score a dimension needs to count as covered
+  categoryThreshold?: number
+  // Weighted overall score needed to complete the phase
+  overallThreshold?: number
+}
+
+const hasItems = (items?: string[]) => !!items && items.length > 0
+
+export const COVERAGE_DIMENSIONS: CoverageDimension[] = [
+  {
+    id: "techStack",
+    label: "Tech stack",
+    weight: 3,
+    required: true,
+    saturation: 2,
+    signals: [
+      /\b(react|next\.?js|vue|angular|svelte|remix|astro)\b/i,
+      /\b(node|express|nest|django|flask|fastapi|rails|laravel|spring|\.net)\b/i,
+      /\b(python|typescript|javascript|go|golang|rust|java|kotlin|swift|php|ruby)\b/i,
+      /\b(postgres(ql)?|mysql|mongo(db)?|sqlite|redis|supabase|firebase|dynamo(db)?)\b/i,
+      /\b(tailwind|graphql|prisma|drizzle|trpc)\b/i,
+      /\b(docker|kubernetes|aws|gcp|azure|vercel|netlify|heroku|fly\.io)\b/i,
+      /\b(tech stack|framework|frontend|backend|database)\b/i,
+    ],
+    isCoveredBy: r => Object.values(r.techStack).some(hasItems),
+  },
+  {
+    id: "features",
+    label: "Features",
+    weight: 3,
+    required: true,
+    saturation: 3,
+    signals: [
+      /\bfeatures?\b/i,
+      /\b(users? (can|should|will)|be able to|allow(s)? (users|people))\b/i,
+      /\b(login|sign ?up|auth(entication)?|accounts?)\b/i,
+      /\b(dashboard|admin|profile|settings)\b/i,
+      /\b(upload|search|filter|notifications?|payments?|checkout|chat|messag(e|ing)|comments?)\b/i,
+      /\b(create|edit|delete|share|export|import|track|schedule)\b/i,
+      /^\s*([-*]|\d+[.)])\s+\S/m, // a bulleted or numbered list
+    ],
+    isCoveredBy: r => hasItems(r.features),
+  },
+  {
+    id: "targetAudience",
+    label: "Target audience",
+    weight: 2,
+    required: true,
+    saturation: 1,
+    signals: [
+      /\b(audience|target(ed|ing)? (users|market)|persona)\b/i,
+      /\b(customers|clients|students|teachers|developers|teams|businesses|companies|beginners|professionals|freelancers|families)\b/i,
+      /\b(internal|b2b|b2c|consumers|enterprise)\b/i,
+      /\bfor (my|our) (team|company|users|customers|clients)\b/i,
+    ],
+    isCoveredBy: r => r.targetAudience.trim().length > 0,
+  },
+  {
+    id: "constraints",
+    label: "Constraints",
+    weight: 1,
+    required: false,
+    saturation: 1,
+    signals: [
+      /\b(constraints?|limitations?|must (not|be|have|run)|can('|no)t|has to)\b/i,
+      /\b(compliance|gdpr|hipaa|soc ?2|accessibility|wcag)\b/i,
+      /\b(offline|self[- ]hosted|on[- ]prem(ise)?|security|privacy)\b/i,
+    ],
+    isCoveredBy: r => hasItems(r.constraints),
+  },
+  {
+    id: "theme",
+    label: "Theme & design",
+    weight: 1,
+    required: false,
+    saturation: 1,
+    signals: [
+      /\b(theme|dark mode|light mode|colou?rs?|palette|fonts?|typography|brand(ing)?)\b/i,
+      /\b(minimal(ist)?|modern|clean|playful|retro|sleek)\b/i,
+      /\b(ui|ux|look and feel|style)\b/i,
+    ],
+    isCoveredBy: r => !!(r.theme.style || r.theme.preferences || hasItems(r.theme.colors)),
+  },
+  {
+    id: "usage",
+    label: "Usage & scale",
+    weight: 1,
+    required: false,
+    saturation: 1,
+    signals: [
+      /\b(scal(e|ing|ability)|concurrent|traffic|load|latency|performance|uptime)\b/i,
+      /\b\d[\d,.]*\s*(k|thousand|million)?\s*(users|requests|visitors)\b/i,
+      /\bper (second|minute|day|month)\b/i,
+    ],
+    isCoveredBy: r => !!(r.usage.expectedUsers || r.usage.scalability || r.usage.performance),
+  },
+  {
+    id: "timeline",
+    label: "Timeline",
+    weight: 0.5,
+    required: false,
+    saturation: 1,
+    signals: [
+      /\b(timeline|deadline|launch|release|ship|mvp by|sprint)\b/i,
+      /\b\d+\s*(days?|weeks?|months?)\b/i,
+      /\b(q[1-4]|next (week|month|quarter|year))\b/i,
+    ],
+    isCoveredBy: r => !!r.timeline,
+  },
+  {
+    id: "budget",
+    label: "Budget",
+    weight: 0.5,
+    required: false,
+    saturation: 1,
+    signals: [
+      /\b(budget|cost|pricing|free tier|cheap|afford)\b/i,
+      /[$€£]\s*\d/,
+      /\b\d+\s*(dollars|usd|eur|euros)\b/i,
+    ],
+    isCoveredBy: r => !!r.budget,
+  },
+]
+
+/**
+ * Everything the user has told us during the requirements phase
+ */
+function userText(session: ProjectSession): string {
+  const messages = session.conversationHistory
+    .filter(msg => msg.role === "user" && msg.phase === "requirements")
+    .map(msg => msg.content)
+  return [...messages, ...Object.values(session.userAnswers)].join("\n")
+}
+
+/**
+ * Score a single dimension against the user's text
+ */
+export function scoreDimension(dimension: CoverageDimension, text: string, requirements?: RequirementsData): number {
+  if (requirements && dimension.isCoveredBy(requirements)) {
+    return 1
+  }
+  const hits = dimension.signals.filter(signal => signal.test(text)).length
+  return Math.min(1, hits / dimension.saturation)
+}
+
+/**
+ * Score the whole interview and decide whether it has enough information
+ */
+export function scoreRequirementsCoverage(
+  session: ProjectSession,
+  options: CoverageOptions = {}
+): RequirementsCoverage {
+  const { categoryThreshold = 0.5, overallThreshold = 0.6 } = options
+  const text = userText(session)
+
+  const categories = COVERAGE_DIMENSIONS.map(dimension => {
+    const score = scoreDimension(dimension, text, session.requirements)
+    return {
+      id: dimension.id,
+      label: dimension.label,
+      score,
+      required: dimension.required,
+      covered: score >= categoryThreshold,
+    }
+  })
+
+  const totalWeight = COVERAGE_DIMENSIONS.reduce((sum, dimension) => sum + dimension.weight, 0)
+  const overall =
+    COVERAGE_DIMENSIONS.reduce((sum, dimension, index) => sum + dimension.weight * categories[index].score, 0) /
+    totalWeight
+
+  const missing = categories.filter(category => !category.covered).map(category => category.id)
+  const requiredCovered = categories.every(category => !category.required || category.covered)
+
+  return {
+    categories,
+    overall,
+    isComplete: requiredCovered && overall >= overallThreshold,
+    missing,
+  }
+}
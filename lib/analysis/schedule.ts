@@ -0,0 +1,186 @@
+import type { TasksData } from "../types/project"
+import { expectedHours, formatDuration, formatHours, parseEstimate, type Duration } from "./estimates"
+import type { TaskGraphReport } from "./task-graph"
+
+/**
+ * Task Schedule
+ *
+ * Works out how long the task list takes from the parsed estimates and the
+ * dependency graph, assuming anyone can pick up a task as soon as its
+ * prerequisites are done:
+ * - total effort: every estimate added up, as a range
+ * - earliest start/finish and slack for each task (critical path method,
+ *   using the midpoint of each estimate)
+ * - the critical path: the chain of tasks with no slack that sets the length
+ *
+ * Tasks without a usable estimate count as zero and are listed separately.
+ */
+
+export interface ScheduledTask {
+  id: string
+  title: string
+  estimate: Duration | null
+  // Hours from the start of the project
+  earliestStart: number
+  earliestFinish: number
+  latestStart: number
+  // How far the task can slip without delaying the project
+  slack: number
+  critical: boolean
+}
+
+export interface Schedule {
+  // In topological order
+  tasks: ScheduledTask[]
+  totalEffort: Duration
+  // Length of the critical path - midpoint, and the range from its estimates
+  length: number
+  criticalPathRange: Duration
+  criticalPath: string[]
+  unestimated: string[]
+}
+
+// Floating point slack below this counts as none
+const EPSILON = 1e-6
+
+/**
+ * Every estimate added up - works on any task list, cyclic or not
+ */
+export function totalEffort(data: TasksData): Duration {
+  return data.tasks.reduce(
+    (total, task) => {
+      const estimate = parseEstimate(task.estimatedTime)
+      return estimate
+        ? { minHours: total.minHours + estimate.minHours, maxHours: total.maxHours + estimate.maxHours }
+        : total
+    },
+    { minHours: 0, maxHours: 0 }
+  )
+}
+
+/**
+ * Compute the schedule - null when the graph has a cycle or duplicate ids,
+ * since there's no order to schedule in
+ */
+export function computeSchedule(data: TasksData, report: TaskGraphReport): Schedule | null {
+  if (!report.isAcyclic) {
+    return null
+  }
+
+  const byId = new Map(data.tasks.map(task => [task.id, task]))
+  const estimates = new Map(data.tasks.map(task => [task.id, parseEstimate(task.estimatedTime)]))
+  const hours = (id: string) => {
+    const estimate = estimates.get(id)
+    return estimate ? expectedHours(estimate) : 0
+  }
+  const prerequisites = (id: string) => byId.get(id)!.dependencies.filter(dependency => byId.has(dependency))
+
+  // Forward pass - a task starts when its last prerequisite finishes
+  const earliestStart = new Map<string, number>()
+  const earliestFinish = new Map<string, number>()
+  for (const id of report.order) {
+    const start = Math.max(0, ...prerequisites(id).map(dependency => earliestFinish.get(dependency)!))
+    earliestStart.set(id, start)
+    earliestFinish.set(id, start + hours(id))
+  }
+  const length = Math.max(0, ...earliestFinish.values())
+
+  // Backward pass - a task has to finish before its first dependent has to start
+  const dependents = new Map<string, string[]>(report.order.map(id => [id, []]))
+  report.order.forEach(id => prerequisites(id).forEach(dependency => dependents.get(dependency)!.push(id)))
+  const latestStart = new Map<string, number>()
+  for (const id of [...report.order].reverse()) {
+    const latestFinish = Math.min(length, ...dependents.get(id)!.map(dependent => latestStart.get(dependent)!))
+    latestStart.set(id, latestFinish - hours(id))
+  }
+
+  const tasks = report.order.map((id): ScheduledTask => {
+    const slack = Math.max(0, latestStart.get(id)! - earliestStart.get(id)!)
+    return {
+      id,
+      title: byId.get(id)!.title,
+      estimate: estimates.get(id) ?? null,
+      earliestStart: earliestStart.get(id)!,
+      earliestFinish: earliestFinish.get(id)!,
+      latestStart: latestStart.get(id)!,
+      slack,
+      critical: slack < EPSILON,
+    }
+  })
+
+  // Walk back from the task that finishes last, through the prerequisite that held it up
+  const criticalPath: string[] = []
+  let current = tasks.find(task => task.critical && Math.abs(task.earliestFinish - length) < EPSILON)
+  while (current) {
+    criticalPath.unshift(current.id)
+    const start = current.earliestStart
+    current = tasks.find(
+      task => task.critical && prerequisites(current!.id).includes(task.id) && Math.abs(task.earliestFinish - start) < EPSILON
+    )
+  }
+
+  const criticalPathRange = criticalPath.reduce(
+    (range, id) => {
+      const estimate = estimates.get(id)
+      return estimate
+        ? { minHours: range.minHours + estimate.minHours, maxHours: range.maxHours + estimate.maxHours }
+        : range
+    },
+    { minHours: 0, maxHours: 0 }
+  )
+
+  return {
+    tasks,
+    totalEffort: totalEffort(data),
+    length,
+    criticalPathRange,
+    criticalPath,
+    unestimated: report.order.filter(id => !estimates.get(id)),
+  }
+}
+
+/**
+ * The `TasksData.totalEstimate` line - "2-3 weeks of effort, 6-9 days along the critical path"
+ */
+export function formatTotalEstimate(effort: Duration, schedule: Schedule | null): string {
+  const total = `${formatDuration(effort)} of effort`
+  return schedule && schedule.criticalPath.length > 0
+    ? `${total}, ${formatDuration(schedule.criticalPathRange)} along the critical path`
+    : total
+}
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ")
+
+/**
+ * A "## Schedule" section for Tasks.md - totals, the critical path and each task's timing
+ */
+export function formatScheduleMarkdown(schedule: Schedule): string {
+  const lines = [
+    "## Schedule",
+    "",
+    `- **Total effort:** ${formatDuration(schedule.totalEffort)}`,
+    `- **Critical path:** ${formatDuration(schedule.criticalPathRange)} - ${schedule.criticalPath.join(" → ") || "-"}`,
+  ]
+  if (schedule.unestimated.length > 0) {
+    lines.push(`- **Not estimated (counted as zero):** ${schedule.unestimated.join(", ")}`)
+  }
+
+  lines.push(
+    "",
+    "Times are from the start of the project, using the middle of each estimate. Tasks marked 🔴 are on the critical path - any delay to them delays everything.",
+    "",
+    "| Task | Estimate | Earliest start | Earliest finish | Slack |",
+    "|---|---|---|---|---|",
+    ...schedule.tasks.map(task =>
+      [
+        `${task.critical ? "🔴 " : ""}${task.id}: ${escapeMarkdown(task.title)}`,
+        task.estimate ? formatDuration(task.estimate) : "-",
+        formatHours(task.earliestStart),
+        formatHours(task.earliestFinish),
+        task.critical ? "-" : formatHours(task.slack),
+      ].join(" | ")
+    ).map(row => `| ${row} |`)
+  )
+
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,208 @@
+import type { Task, TasksData } from "../types/project"
+
+/**
+ * Task Dependency Graph
+ *
+ * `Task.dependencies` and `Task.order` come out of extraction separately, and
+ * nothing forces them to agree. This checks the task list as a graph:
+ * - duplicate task ids
+ * - dependencies on ids that don't exist
+ * - dependency cycles (including a task depending on itself)
+ * - tasks ordered before one of their prerequisites
+ * - phases listing task ids that don't exist
+ *
+ * It also computes a canonical topological order: prerequisites first, ties
+ * broken by the original `order` and then by position in the list, so the
+ * same task list always gives the same order.
+ */
+
+export type TaskGraphIssueKind =
+  | "duplicate-id"
+  | "dangling-dependency"
+  | "cycle"
+  | "ordered-before-prerequisite"
+  | "phase-missing-task"
+
+export interface TaskGraphIssue {
+  kind: TaskGraphIssueKind
+  // The tasks involved - for a cycle, the tasks around it in order
+  taskIds: string[]
+  message: string
+}
+
+export interface TaskGraphReport {
+  issues: TaskGraphIssue[]
+  // Every task id, prerequisites first - tasks caught in a cycle go last, by their order
+  order: string[]
+  // False if there's a cycle or duplicate ids, so `order` can't be trusted as a build order
+  isAcyclic: boolean
+}
+
+/**
+ * Find the cycles in the dependency graph, one per strongly connected group.
+ * Depth-first search, reporting the path from where the cycle re-enters it.
+ */
+function findCycles(ids: string[], edges: Map<string, string[]>): string[][] {
+  const state = new Map<string, "visiting" | "done">()
+  const path: string[] = []
+  const cycles: string[][] = []
+  const inCycle = new Set<string>()
+
+  const visit = (id: string) => {
+    state.set(id, "visiting")
+    path.push(id)
+    for (const next of edges.get(id) ?? []) {
+      if (state.get(next) === "visiting") {
+        const cycle = path.slice(path.indexOf(next))
+        // Only report a cycle once, however many ways the search walks into it
+        if (!cycle.every(member => inCycle.has(member))) {
+          cycles.push(cycle)
+          cycle.forEach(member => inCycle.add(member))
+        }
+      } else if (!state.has(next)) {
+        visit(next)
+      }
+    }
+    path.pop()
+    state.set(id, "done")
+  }
+
+  ids.forEach(id => {
+    if (!state.has(id)) visit(id)
+  })
+  return cycles
+}
+
+/**
+ * Validate a task list and compute its topological order
+ */
+export function validateTaskGraph(data: TasksData): TaskGraphReport {
+  const issues: TaskGraphIssue[] = []
+
+  // Duplicate ids - the first task with an id wins, the rest can't be told apart
+  const tasks = new Map<string, Task>()
+  const position = new Map<string, number>()
+  data.tasks.forEach((task, index) => {
+    if (tasks.has(task.id)) {
+      issues.push({ kind: "duplicate-id", taskIds: [task.id], message: `Task id ${task.id} is used more than once` })
+      return
+    }
+    tasks.set(task.id, task)
+    position.set(task.id, index)
+  })
+  const ids = Array.from(tasks.keys())
+
+  // Dependencies that point at tasks that don't exist are reported and dropped from the graph
+  const prerequisites = new Map<string, string[]>()
+  for (const task of tasks.values()) {
+    const known: string[] = []
+    for (const dependency of new Set(task.dependencies)) {
+      if (tasks.has(dependency)) {
+        known.push(dependency)
+      } else {
+        issues.push({
+          kind: "dangling-dependency",
+          taskIds: [task.id, dependency],
+          message: `Task ${task.id} depends on task ${dependency}, which doesn't exist`,
+        })
+      }
+    }
+    prerequisites.set(task.id, known)
+  }
+
+  const cycles = findCycles(ids, prerequisites)
+  for (const cycle of cycles) {
+    issues.push({
+      kind: "cycle",
+      taskIds: cycle,
+      message: cycle.length === 1
+        ? `Task ${cycle[0]} depends on itself`
+        : `Tasks ${[...cycle, cycle[0]].join(" → ")} depend on each other in a cycle`,
+    })
+  }
+  const cyclic = new Set(cycles.flat())
+
+  // Order numbers have to put every prerequisite first
+  for (const task of tasks.values()) {
+    for (const dependency of prerequisites.get(task.id) ?? []) {
+      const prerequisite = tasks.get(dependency)!
+      if (!cyclic.has(task.id) && prerequisite.order >= task.order) {
+        issues.push({
+          kind: "ordered-before-prerequisite",
+          taskIds: [task.id, dependency],
+          message: `Task ${task.id} (order ${task.order}) comes before its prerequisite ${dependency} (order ${prerequisite.order})`,
+        })
+      }
+    }
+  }
+
+  for (const phase of data.phases) {
+    for (const taskId of phase.taskIds) {
+      if (!tasks.has(taskId)) {
+        issues.push({
+          kind: "phase-missing-task",
+          taskIds: [taskId],
+          message: `Phase "${phase.name}" lists task ${taskId}, which doesn't exist`,
+        })
+      }
+    }
+  }
+
+  return {
+    issues,
+    order: topologicalOrder(ids, tasks, position, prerequisites),
+    isAcyclic: cycles.length === 0 && !issues.some(issue => issue.kind === "duplicate-id"),
+  }
+}
+
+// Kahn's algorithm, always taking the ready task with the lowest (order, position)
+function topologicalOrder(
+  ids: string[],
+  tasks: Map<string, Task>,
+  position: Map<string, number>,
+  prerequisites: Map<string, string[]>
+): string[] {
+  const rank = (id: string) => [tasks.get(id)!.order, position.get(id)!] as const
+  const byRank = (a: string, b: string) => {
+    const [orderA, positionA] = rank(a)
+    const [orderB, positionB] = rank(b)
+    return orderA - orderB || positionA - positionB
+  }
+
+  const remaining = new Map(ids.map(id => [id, prerequisites.get(id)?.length ?? 0]))
+  const dependents = new Map<string, string[]>(ids.map(id => [id, []]))
+  prerequisites.forEach((deps, id) => deps.forEach(dependency => dependents.get(dependency)!.push(id)))
+
+  const ready = ids.filter(id => remaining.get(id) === 0)
+  const order: string[] = []
+  while (ready.length > 0) {
+    ready.sort(byRank)
+    const id = ready.shift()!
+    order.push(id)
+    for (const dependent of dependents.get(id)!) {
+      const left = remaining.get(dependent)! - 1
+      remaining.set(dependent, left)
+      if (left === 0) ready.push(dependent)
+    }
+  }
+
+  // Whatever is left is in (or behind) a cycle - keep them in their original order
+  const placed = new Set(order)
+  return [...order, ...ids.filter(id => !placed.has(id)).sort(byRank)]
+}
+
+/**
+ * Renumber `order` to follow the canonical topological order.
+ * Only safe for an acyclic graph - otherwise the tasks are returned unchanged.
+ */
+export function applyTopologicalOrder(data: TasksData, report: TaskGraphReport): TasksData {
+  if (!report.isAcyclic) {
+    return data
+  }
+
+  const rank = new Map(report.order.map((id, index) => [id, index + 1]))
+  const tasks = data.tasks
+    .map(task => ({ ...task, order: rank.get(task.id) ?? task.order }))
+    .sort((a, b) => a.order - b.order)
+  return { ...data, tasks }
+}
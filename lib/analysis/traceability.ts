@@ -0,0 +1,189 @@
+import type { DesignData, RequirementsData, TasksData } from "../types/project"
+
+/**
+ * Traceability Matrix
+ *
+ * Links every feature in RequirementsData to the design components that
+ * realize it, and every component to the tasks that implement it, so we can
+ * show that each requirement is covered all the way down to the task list.
+ *
+ * Linking is deterministic (no LLM call) and works on words:
+ * - a component realizes a feature when its name and responsibility mention
+ *   at least half of the feature's meaningful words
+ * - a task implements a component when its text mentions every meaningful
+ *   word of the component's name
+ */
+
+export interface ComponentTrace {
+  name: string
+  taskIds: string[]
+}
+
+export type TraceStatus = "covered" | "no-component" | "no-tasks"
+
+export interface TraceabilityRow {
+  feature: string
+  components: ComponentTrace[]
+  // covered: at least one component, and every component has a task
+  status: TraceStatus
+}
+
+export interface TraceabilityMatrix {
+  rows: TraceabilityRow[]
+  // Components no feature maps to - often infrastructure, but worth a look
+  unlinkedComponents: ComponentTrace[]
+  coveredCount: number
+  generatedAt: number
+}
+
+// Words that don't tell features, components or tasks apart
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "into", "that", "this", "their", "your", "can", "should", "will", "are",
+  "all", "any", "each", "via", "using", "use", "allow", "allows", "able", "support", "supports",
+])
+
+// Generic suffixes in component names - "Search Service" is about search
+const GENERIC_COMPONENT_WORDS = new Set(["service", "component", "module", "layer", "system", "manager", "handler"])
+
+// Minimum share of a feature's words a component has to mention
+const FEATURE_MATCH_RATIO = 0.5
+
+// Lowercase words, with simple plural and -ing endings dropped so "comments" matches "comment"
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3)
+  if (word.length > 3 && word.endsWith("ies")) return `${word.slice(0, -3)}y`
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1)
+  return word
+}
+
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      .map(stem)
+  )
+}
+
+function realizes(feature: Set<string>, componentText: Set<string>): boolean {
+  if (feature.size === 0) return false
+  const matched = Array.from(feature).filter(word => componentText.has(word)).length
+  return matched > 0 && matched / feature.size >= FEATURE_MATCH_RATIO
+}
+
+function implementsComponent(componentName: string, taskText: Set<string>): boolean {
+  const nameWords = Array.from(words(componentName))
+  const specific = nameWords.filter(word => !GENERIC_COMPONENT_WORDS.has(word))
+  const required = specific.length > 0 ? specific : nameWords
+  return required.length > 0 && required.every(word => taskText.has(word))
+}
+
+/**
+ * Build the matrix from the structured documents
+ */
+export function buildTraceabilityMatrix(
+  requirements: RequirementsData,
+  design: DesignData,
+  tasks: TasksData
+): TraceabilityMatrix {
+  const taskTexts = tasks.tasks.map(task => ({
+    id: task.id,
+    text: words([task.title, task.description, task.technicalDetails ?? "", ...task.acceptanceCriteria].join(" ")),
+  }))
+
+  const components = design.architecture.components.map(component => ({
+    name: component.name,
+    text: words(`${component.name} ${component.responsibility}`),
+    taskIds: taskTexts.filter(task => implementsComponent(component.name, task.text)).map(task => task.id),
+  }))
+
+  const linked = new Set<string>()
+  const rows = requirements.features.map((feature): TraceabilityRow => {
+    const featureWords = words(feature)
+    const realizing = components
+      .filter(component => realizes(featureWords, component.text))
+      .map(component => ({ name: component.name, taskIds: component.taskIds }))
+    realizing.forEach(component => linked.add(component.name))
+
+    const status: TraceStatus =
+      realizing.length === 0 ? "no-component" : realizing.some(component => component.taskIds.length === 0) ? "no-tasks" : "covered"
+    return { feature, components: realizing, status }
+  })
+
+  return {
+    rows,
+    unlinkedComponents: components
+      .filter(component => !linked.has(component.name))
+      .map(component => ({ name: component.name, taskIds: component.taskIds })),
+    coveredCount: rows.filter(row => row.status === "covered").length,
+    generatedAt: Date.now(),
+  }
+}
+
+const STATUS_LABELS: Record<TraceStatus, string> = {
+  covered: "Covered",
+  "no-component": "No design component",
+  "no-tasks": "Component without tasks",
+}
+
+// One line per feature/component pair - a feature with no component still gets its line
+function flatten(matrix: TraceabilityMatrix): Array<[string, string, string, string]> {
+  return matrix.rows.flatMap(row =>
+    row.components.length === 0
+      ? [[row.feature, "", "", STATUS_LABELS[row.status]] as [string, string, string, string]]
+      : row.components.map(component => [
+          row.feature,
+          component.name,
+          component.taskIds.join(", "),
+          STATUS_LABELS[component.taskIds.length > 0 ? "covered" : "no-tasks"],
+        ] as [string, string, string, string])
+  )
+}
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ")
+
+/**
+ * The matrix as a Markdown document - uncovered rows are marked with ⚠️
+ */
+export function formatTraceabilityMarkdown(matrix: TraceabilityMatrix): string {
+  const lines = [
+    "# Traceability Matrix",
+    "",
+    `${matrix.coveredCount} of ${matrix.rows.length} features are covered by a design component and tasks.`,
+    "",
+    "| Feature | Component | Tasks | Status |",
+    "|---|---|---|---|",
+    ...flatten(matrix).map(([feature, component, taskIds, status]) =>
+      `| ${escapeMarkdown(feature)} | ${escapeMarkdown(component) || "-"} | ${taskIds || "-"} | ${status === STATUS_LABELS.covered ? status : `⚠️ ${status}`} |`
+    ),
+  ]
+
+  if (matrix.unlinkedComponents.length > 0) {
+    lines.push(
+      "",
+      "## Components Not Linked to a Feature",
+      "",
+      "| Component | Tasks |",
+      "|---|---|",
+      ...matrix.unlinkedComponents.map(component => `| ${escapeMarkdown(component.name)} | ${component.taskIds.join(", ") || "-"} |`)
+    )
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+/**
+ * The matrix as CSV - one line per feature/component pair, task ids separated by spaces
+ */
+export function formatTraceabilityCsv(matrix: TraceabilityMatrix): string {
+  const lines = [
+    "Feature,Component,Tasks,Status",
+    ...flatten(matrix).map(([feature, component, taskIds, status]) =>
+      [feature, component, taskIds.replace(/, /g, " "), status].map(escapeCsv).join(",")
+    ),
+  ]
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,126 @@
+import { PromptTemplate } from "@langchain/core/prompts"
+import { RunnableSequence } from "@langchain/core/runnables"
+import { StringOutputParser } from "@langchain/core/output_parsers"
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import { createChatModel, forPrompt, type ProviderId } from "../llm/providers"
+import { consistencyReviewSchema } from "../schemas/project"
+import type { ConsistencyReview, ProjectSession, ReviewIssue } from "../types/project"
+import { parseStructuredOutput } from "./structured-extractor"
+
+/**
+ * Consistency Reviewer Chain
+ *
+ * Cross-checks Design.md and Tasks.md against Requirements.md once all three
+ * exist. It looks for four kinds of drift:
+ * 1. Features with no design component to handle them
+ * 2. Design components that no task builds
+ * 3. Technology choices that contradict the stated tech stack
+ * 4. Constraints the design or tasks ignore
+ *
+ * Every issue names the document to regenerate, so the user can accept it into
+ * a regeneration pass (see DocumentGeneratorChain's review feedback).
+ */
+
+const REVIEW_TEMPLATE = `Review the three project documents below for consistency with each other.
+
+Stated Requirements (extracted):
+{statedRequirements}
+
+Requirements Document:
+{requirements}
+
+Design Document:
+{design}
+
+Tasks Document:
+{tasks}
+
+Report only real problems of these kinds:
+- "feature-without-component": a feature from the requirements that no design component handles (fix in "design")
+- "component-without-tasks": a design component that no task builds (fix in "tasks")
+- "tech-mismatch": a technology in the design or tasks that contradicts the stated tech stack (fix where it appears)
+- "ignored-constraint": a constraint the design or tasks don't respect (fix where it's ignored)
+
+For each problem, name the feature, component, technology or constraint as the subject, explain it in one or two
+sentences, and say what the regenerated document should do instead. Use "high" severity for anything that would
+make the project fail its requirements. If the documents are consistent, return an empty list.
+
+Respond with ONLY a JSON object (no prose, no code fences) with exactly this shape:
+{{ "issues": [{{ "kind": "feature-without-component|component-without-tasks|tech-mismatch|ignored-constraint", "severity": "high|medium|low", "subject": "string", "description": "string", "suggestion": "string", "document": "design|tasks" }}] }}`
+
+export class ReviewError extends Error {
+  constructor(public issues: string[]) {
+    super(`Could not review documents: ${issues.join("; ")}`)
+    this.name = "ReviewError"
+  }
+}
+
+export class ConsistencyReviewerChain {
+  private model: BaseChatModel
+  private chain: RunnableSequence
+
+  constructor(apiKey?: string, modelName?: string, providerId?: ProviderId) {
+    // Temperature 0 - the same documents should get the same review
+    this.model = createChatModel({ apiKey, modelName, temperature: 0 }, providerId)
+
+    this.chain = RunnableSequence.from([
+      PromptTemplate.fromTemplate(REVIEW_TEMPLATE),
+      forPrompt(this.model, "consistency.review"),
+      new StringOutputParser(),
+    ])
+  }
+
+  /**
+   * Review the session's three documents - all of them have to exist
+   */
+  async review(session: ProjectSession, callbacks?: Callbacks): Promise<ConsistencyReview> {
+    const { requirements, design, tasks } = session.documents
+    if (!requirements || !design || !tasks) {
+      throw new ReviewError(["Requirements.md, Design.md and Tasks.md must all be generated first"])
+    }
+
+    // The structured requirements are what "stated" means - the markdown may already have drifted
+    const stated = session.requirements
+      ? JSON.stringify({
+          features: session.requirements.features,
+          techStack: session.requirements.techStack,
+          constraints: session.requirements.constraints,
+        }, null, 2)
+      : "(not extracted - use the requirements document)"
+
+    const raw: string = await this.chain.invoke({
+      statedRequirements: stated,
+      requirements,
+      design,
+      tasks,
+    }, { callbacks })
+
+    const outcome = parseStructuredOutput(raw, consistencyReviewSchema)
+    if (!outcome.success) {
+      throw new ReviewError(outcome.issues)
+    }
+
+    return {
+      issues: outcome.data.issues.map((issue, index) => ({
+        ...issue,
+        id: `review-${index + 1}`,
+        status: "open" as const,
+      })),
+      reviewedAt: Date.now(),
+    }
+  }
+}
+
+/**
+ * Accepted issues as review feedback for one document's regeneration prompt
+ */
+export function formatReviewFeedback(issues: ReviewIssue[]): string {
+  return issues
+    .map(issue => `- [${issue.severity}] ${issue.subject}: ${issue.description}${issue.suggestion ? ` Fix: ${issue.suggestion}` : ""}`)
+    .join("\n")
+}
+
+export function createConsistencyReviewer(apiKey?: string, providerId?: ProviderId): ConsistencyReviewerChain {
+  return new ConsistencyReviewerChain(apiKey, undefined, providerId)
+}
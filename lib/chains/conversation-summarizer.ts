@@ -0,0 +1,76 @@
+import { PromptTemplate } from "@langchain/core/prompts"
+import { RunnableSequence } from "@langchain/core/runnables"
+import { StringOutputParser } from "@langchain/core/output_parsers"
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import { createChatModel, forPrompt, type ProviderId } from "../llm/providers"
+import { conversationSummarySchema, type ConversationSummary } from "../schemas/project"
+import type { HistoryMessage, HistorySummarizer } from "../memory/session-manager"
+import { parseStructuredOutput } from "./structured-extractor"
+
+/**
+ * Conversation Summarizer Chain
+ *
+ * Folds messages that have dropped out of the agent's history window into a
+ * running summary, and pulls out key facts (tech stack, names, decisions) so
+ * they can be pinned for the rest of the session.
+ */
+
+const SUMMARY_TEMPLATE = `Summarize the conversation between a developer and Understand.AI, a project planning assistant.
+
+Summary So Far:
+{previousSummary}
+
+New Messages:
+{messages}
+
+Update the summary so it covers both the summary so far and the new messages. Keep every decision, preference
+and requirement the developer stated - tech stack, features, users, constraints, names, numbers. Drop small talk.
+
+Also list the key facts from the new messages that must never be forgotten, one short sentence each.
+
+Respond with ONLY a JSON object (no prose, no code fences) with exactly this shape:
+{{ "summary": "string", "facts": ["string"] }}`
+
+export class SummaryError extends Error {
+  constructor(public issues: string[]) {
+    super(`Could not summarize conversation: ${issues.join("; ")}`)
+    this.name = "SummaryError"
+  }
+}
+
+export class ConversationSummarizerChain implements HistorySummarizer {
+  private model: BaseChatModel
+  private chain: RunnableSequence
+
+  constructor(apiKey?: string, modelName?: string, providerId?: ProviderId) {
+    // Low temperature - a summary should restate, not embellish
+    this.model = createChatModel({ apiKey, modelName, temperature: 0.2 }, providerId)
+
+    this.chain = RunnableSequence.from([
+      PromptTemplate.fromTemplate(SUMMARY_TEMPLATE),
+      forPrompt(this.model, "conversation.summary"),
+      new StringOutputParser(),
+    ])
+  }
+
+  /**
+   * Merge messages into the previous summary
+   */
+  async summarize(previousSummary: string, messages: HistoryMessage[], callbacks?: Callbacks): Promise<ConversationSummary> {
+    const raw: string = await this.chain.invoke({
+      previousSummary: previousSummary || "(none yet)",
+      messages: messages.map(msg => `${msg.role}: ${msg.content}`).join("\n\n"),
+    }, { callbacks })
+
+    const outcome = parseStructuredOutput(raw, conversationSummarySchema)
+    if (!outcome.success) {
+      throw new SummaryError(outcome.issues)
+    }
+    return outcome.data
+  }
+}
+
+export function createConversationSummarizer(apiKey?: string, providerId?: ProviderId): ConversationSummarizerChain {
+  return new ConversationSummarizerChain(apiKey, undefined, providerId)
+}
@@ -0,0 +1,126 @@
+import { PromptTemplate } from "@langchain/core/prompts"
+import { RunnableSequence } from "@langchain/core/runnables"
+import { StringOutputParser } from "@langchain/core/output_parsers"
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import { createChatModel, forPrompt, type ProviderId } from "../llm/providers"
+import { decisionRecordsSchema } from "../schemas/project"
+import type { ArchitectureDecision, ProjectSession } from "../types/project"
+import { parseStructuredOutput } from "./structured-extractor"
+
+/**
+ * Decision Recorder Chain
+ *
+ * Pulls the significant architecture decisions out of the design-phase
+ * conversation and Design.md as Architecture Decision Records - context,
+ * options considered, the decision and its consequences.
+ *
+ * It runs every time Design.md is generated. Decisions already on record are
+ * passed in, so a revised design only adds ADRs for what's new, and a new
+ * decision that reverses an old one supersedes it instead of editing it.
+ */
+
+const DECISION_TEMPLATE = `Record the significant architecture decisions for this project as Architecture Decision Records.
+
+Design-phase Conversation:
+{designConversation}
+
+Design Document:
+{design}
+
+Decisions Already Recorded:
+{existingDecisions}
+
+A significant decision is one that shapes the system and would be costly to change: the architecture style,
+frameworks, data storage, hosting, authentication, integrations, and similar. Skip small implementation details.
+
+Only record decisions that aren't already recorded. If a decision changes or reverses one that is recorded, record
+it as new and set "supersedes" to the number of the decision it replaces. If nothing new was decided, return an
+empty list.
+
+For each decision give:
+- a short title in the imperative ("Use PostgreSQL for persistence")
+- the context: the problem and the forces that made a decision necessary
+- the options that were considered, each with one sentence on why it was chosen or passed over
+- the decision itself
+- its consequences, good and bad
+
+Respond with ONLY a JSON object (no prose, no code fences) with exactly this shape:
+{{ "decisions": [{{ "title": "string", "context": "string", "options": [{{ "name": "string", "summary": "string" }}], "decision": "string", "consequences": ["string"], "supersedes": "number or null" }}] }}`
+
+export class DecisionRecordError extends Error {
+  constructor(public issues: string[]) {
+    super(`Could not record architecture decisions: ${issues.join("; ")}`)
+    this.name = "DecisionRecordError"
+  }
+}
+
+export class DecisionRecorderChain {
+  private model: BaseChatModel
+  private chain: RunnableSequence
+
+  constructor(apiKey?: string, modelName?: string, providerId?: ProviderId) {
+    // Low temperature - the same conversation should give the same decisions
+    this.model = createChatModel({ apiKey, modelName, temperature: 0.2 }, providerId)
+
+    this.chain = RunnableSequence.from([
+      PromptTemplate.fromTemplate(DECISION_TEMPLATE),
+      forPrompt(this.model, "design.decisions"),
+      new StringOutputParser(),
+    ])
+  }
+
+  /**
+   * Record the decisions in the session's current design that aren't on record yet.
+   * Returns only the new records, numbered after the existing ones.
+   */
+  async record(session: ProjectSession, callbacks?: Callbacks): Promise<ArchitectureDecision[]> {
+    const design = session.documents.design
+    if (!design) {
+      throw new DecisionRecordError(["Design.md must be generated first"])
+    }
+
+    const existing = session.decisions ?? []
+    const designConversation = session.conversationHistory
+      .filter(msg => msg.phase === "design")
+      .map(msg => `${msg.role}: ${msg.content}`)
+      .join("\n\n")
+
+    const raw: string = await this.chain.invoke({
+      designConversation: designConversation || "(no design-phase messages)",
+      design,
+      existingDecisions: existing.length > 0
+        ? existing
+            .map(adr => `${adr.number}. ${adr.title} (${adr.status}) - ${adr.decision}`)
+            .join("\n")
+        : "(none)",
+    }, { callbacks })
+
+    const outcome = parseStructuredOutput(raw, decisionRecordsSchema)
+    if (!outcome.success) {
+      throw new DecisionRecordError(outcome.issues)
+    }
+
+    // Only accepted decisions can be superseded - anything else the model names is dropped
+    const supersedable = new Set(existing.filter(adr => adr.status === "accepted").map(adr => adr.number))
+    const next = existing.reduce((max, adr) => Math.max(max, adr.number), 0) + 1
+    const recordedAt = Date.now()
+
+    return outcome.data.decisions.map((decision, index) => ({
+      number: next + index,
+      title: decision.title,
+      status: "accepted" as const,
+      context: decision.context,
+      options: decision.options,
+      decision: decision.decision,
+      consequences: decision.consequences,
+      designVersion: session.design?.metadata.version ?? 1,
+      supersedes: decision.supersedes && supersedable.has(decision.supersedes) ? decision.supersedes : undefined,
+      recordedAt,
+    }))
+  }
+}
+
+export function createDecisionRecorder(apiKey?: string, providerId?: ProviderId): DecisionRecorderChain {
+  return new DecisionRecorderChain(apiKey, undefined, providerId)
+}
@@ -1,176 +1,90 @@
-import { ChatOpenAI } from "@langchain/openai"
 import { PromptTemplate } from "@langchain/core/prompts"
 import { RunnableSequence } from "@langchain/core/runnables"
 import { StringOutputParser } from "@langchain/core/output_parsers"
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import { createChatModel, forPrompt, type ProviderId } from "../llm/providers"
 import type { RequirementsData, DesignData, TasksData, ProjectSession } from "../types/project"
+import { formatConversationMemory, type ConversationMemory, type HistoryMessage } from "../memory/session-manager"
+import { getPromptRegistry, type PromptRegistry } from "../prompts/registry"
+import "../prompts/document-prompts"
 
 /**
  * Document Generator Chain
  * 
- * This file contains the LangChain prompts for generating our three core documents:
+ * Generates our three core documents:
  * 1. Requirements.md - What the user wants to build
  * 2. Design.md - How the system will be architected
  * 3. Tasks.md - Step-by-step implementation guide
+ * and, through generate(), the documents of any other phase in the pipeline.
  * 
- * Each template uses carefully crafted prompts to produce high-quality, detailed documents
+ * The templates come from the prompt registry (see lib/prompts/), so they can be
+ * tuned without a redeploy. Every document comes back with the id of the prompt
+ * version that produced it.
+ * Every generate method takes optional callbacks for the call, e.g. usage tracking.
  */
 
-// REQUIREMENTS TEMPLATE
-// Takes conversation history and generates a structured requirements document
-const REQUIREMENTS_TEMPLATE = `Based on the following conversation and gathered information, generate a comprehensive Requirements.md document.
-
-Project Information:
-{projectInfo}
-
-Conversation History:
-{conversationHistory}
-
-User Answers:
-{userAnswers}
-
-Generate a well-structured Requirements.md document with the following sections:
-1. Project Overview
-2. Target Audience
-3. Core Features
-4. Technical Stack
-5. Design & Theme Preferences
-6. Constraints & Requirements
-7. Success Criteria
-
-Format the output as valid Markdown. Be specific and detailed. Include all gathered information.`
-
-// DESIGN TEMPLATE
-// Takes requirements and creates a comprehensive system architecture
-const DESIGN_TEMPLATE = `Based on the requirements document, create a comprehensive system design.
-
-Requirements:
-{requirements}
-
-Create a detailed Design.md document with:
-1. Architecture Overview (high-level system design)
-2. Component Structure (frontend, backend, services)
-3. Data Models (entities, relationships, schemas)
-4. API Design (endpoints, methods, data flow)
-5. Technology Stack Rationale (why each technology was chosen)
-6. Security Considerations
-7. Scalability & Performance Strategy
-8. Deployment Architecture
-
-Format as valid Markdown with diagrams in Mermaid syntax where helpful.`
-
-// TASKS TEMPLATE
-// Takes design and requirements, outputs a chronological implementation plan
-const TASKS_TEMPLATE = `Based on the design document, create a chronological task list for building the project.
-
-Design Document:
-{design}
-
-Requirements:
-{requirements}
-
-Generate a Task.md document with numbered tasks in this format:
-
-## Phase 1: Setup & Foundation
-### Task 1: [Category] Task Title
-**Description:** What needs to be done
-**Dependencies:** Tasks that must be completed first (if any)
-**Estimated Time:** Time estimate
-**Acceptance Criteria:**
-- Specific criterion 1
-- Specific criterion 2
-**Technical Details:**
-- Implementation notes
-- Code snippets if relevant
-- Configuration details
-
-Include these phases:
-1. Project Setup & Configuration
-2. Core Infrastructure
-3. Database & Models
-4. API Development
-5. Frontend Components
-6. Integration
-7. Testing
-8. Deployment
-9. Documentation
-
-Each task should be:
-- Specific enough for an AI agent to execute
-- In logical chronological order
-- With clear acceptance criteria
-- Properly sequenced with dependencies
-
-Format as valid Markdown.`
+// A generated document and the prompt version that produced it
+export interface DocumentGeneration {
+  content: string
+  promptVersion: string
+}
 
 /**
  * DocumentGeneratorChain
  * 
- * This class manages three LangChain sequences for generating markdown documents.
+ * Runs one LangChain sequence per document: Prompt Template → Model → String Parser.
  * Each chain (requirements, design, tasks) uses the same model but different prompts.
+ * The model comes from the provider registry (see lib/llm/providers.ts).
  * 
  * We use temperature 0.3 for more consistent, structured output.
  */
 export class DocumentGeneratorChain {
-  private model: ChatOpenAI
-  private requirementsChain: RunnableSequence
-  private designChain: RunnableSequence
-  private tasksChain: RunnableSequence
-
-  constructor(apiKey?: string, modelName: string = "deepseek/deepseek-chat") {
-    const key = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY
-    const baseURL = process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1"
-    
+  private model: BaseChatModel
+  private promptRegistry: PromptRegistry
+
+  constructor(
+    apiKey?: string,
+    modelName?: string,
+    providerId?: ProviderId,
+    promptRegistry: PromptRegistry = getPromptRegistry()
+  ) {
     // Using lower temperature (0.3) for more consistent document generation
     // We want structured output, not creative writing
-    this.model = new ChatOpenAI({
-      modelName,
-      temperature: 0.3,
-      openAIApiKey: key,
-      configuration: {
-        baseURL,
-        defaultHeaders: {
-          "Authorization": `Bearer ${key}`,
-          "HTTP-Referer": "https://understand.ai",
-          "X-Title": "Understand.AI",
-        },
-      },
-    })
+    this.model = createChatModel({ apiKey, modelName, temperature: 0.3 }, providerId)
+    this.promptRegistry = promptRegistry
+  }
 
-    // Build the three LangChain sequences
-    // Each is: Prompt Template → Model → String Parser
-    const requirementsPrompt = PromptTemplate.fromTemplate(REQUIREMENTS_TEMPLATE)
-    const designPrompt = PromptTemplate.fromTemplate(DESIGN_TEMPLATE)
-    const tasksPrompt = PromptTemplate.fromTemplate(TASKS_TEMPLATE)
-    
-    // Requirements chain: conversation → structured document
-    this.requirementsChain = RunnableSequence.from([
-      requirementsPrompt,
-      this.model,
+  /**
+   * Run a document prompt from the registry - any registered "document.*" prompt,
+   * so phases added to the pipeline can generate their own documents.
+   * The chain is built per call so a prompt file changed on disk takes effect straight away.
+   */
+  async generate(promptName: string, input: Record<string, string>, callbacks?: Callbacks): Promise<DocumentGeneration> {
+    const prompt = this.promptRegistry.get(promptName)
+    const chain = RunnableSequence.from([
+      PromptTemplate.fromTemplate(prompt.template),
+      forPrompt(this.model, promptName),
       new StringOutputParser(), // Converts model output to plain string
     ])
 
-    // Design chain: requirements → system architecture
-    this.designChain = RunnableSequence.from([
-      designPrompt,
-      this.model,
-      new StringOutputParser(),
-    ])
-
-    // Tasks chain: design + requirements → implementation roadmap
-    this.tasksChain = RunnableSequence.from([
-      tasksPrompt,
-      this.model,
-      new StringOutputParser(),
-    ])
+    const content: string = await chain.invoke(input, { callbacks })
+    return { content, promptVersion: prompt.id }
   }
 
   /**
    * Generate Requirements.md
    * 
    * Takes all the Q&A from the requirements phase and turns it into
-   * a comprehensive requirements document
+   * a comprehensive requirements document.
+   * With the session's conversation memory, older messages come from its summary
+   * and pinned facts instead of the full transcript.
    */
-  async generateRequirements(session: ProjectSession): Promise<string> {
+  async generateRequirements(
+    session: ProjectSession,
+    memory?: ConversationMemory,
+    callbacks?: Callbacks
+  ): Promise<DocumentGeneration> {
     try {
       // Prepare project info as JSON for the AI
       const projectInfo = JSON.stringify({
@@ -178,8 +92,15 @@ export class DocumentGeneratorChain {
         phase: session.currentPhase,
       }, null, 2)
 
+      // Only the messages the summary doesn't cover yet, if there is one - taken from
+      // the memory's own list, since that's what the summary was built from
+      const earlierConversation = memory ? formatConversationMemory(memory) : ""
+      const messages: HistoryMessage[] = earlierConversation
+        ? memory!.unsummarized
+        : session.conversationHistory
+
       // Filter conversation to only requirements-phase messages
-      const conversationHistory = session.conversationHistory
+      const conversationHistory = messages
         .filter(msg => msg.phase === "requirements")
         .map(msg => `${msg.role}: ${msg.content}`)
         .join("\n\n")
@@ -187,13 +108,12 @@ export class DocumentGeneratorChain {
       const userAnswers = JSON.stringify(session.userAnswers, null, 2)
 
       // Run the chain and get the markdown document
-      const result = await this.requirementsChain.invoke({
+      return await this.generate("document.requirements", {
         projectInfo,
+        earlierConversation: earlierConversation || "(none)",
         conversationHistory,
         userAnswers,
-      })
-
-      return result
+      }, callbacks)
     } catch (error) {
       console.error("Requirements generation error:", error)
       throw error
@@ -205,14 +125,19 @@ export class DocumentGeneratorChain {
    * 
    * Takes the requirements document and creates a detailed system architecture.
    * Includes component diagrams, data models, API design, etc.
+   * Review feedback (accepted consistency issues) is passed on for the model to fix.
    */
-  async generateDesign(requirements: string, session: ProjectSession): Promise<string> {
+  async generateDesign(
+    requirements: string,
+    session: ProjectSession,
+    reviewFeedback?: string,
+    callbacks?: Callbacks
+  ): Promise<DocumentGeneration> {
     try {
-      const result = await this.designChain.invoke({
+      return await this.generate("document.design", {
         requirements,
-      })
-
-      return result
+        reviewFeedback: reviewFeedback || "(none)",
+      }, callbacks)
     } catch (error) {
       console.error("Design generation error:", error)
       throw error
@@ -225,14 +150,18 @@ export class DocumentGeneratorChain {
    * Takes both design and requirements, outputs a chronological list of tasks
    * that an AI coding agent can follow to build the project.
    */
-  async generateTasks(design: string, requirements: string): Promise<string> {
+  async generateTasks(
+    design: string,
+    requirements: string,
+    reviewFeedback?: string,
+    callbacks?: Callbacks
+  ): Promise<DocumentGeneration> {
     try {
-      const result = await this.tasksChain.invoke({
+      return await this.generate("document.tasks", {
         design,
         requirements,
-      })
-
-      return result
+        reviewFeedback: reviewFeedback || "(none)",
+      }, callbacks)
     } catch (error) {
       console.error("Tasks generation error:", error)
       throw error
@@ -240,6 +169,6 @@ export class DocumentGeneratorChain {
   }
 }
 
-export function createDocumentGenerator(apiKey?: string): DocumentGeneratorChain {
-  return new DocumentGeneratorChain(apiKey)
+export function createDocumentGenerator(apiKey?: string, providerId?: ProviderId): DocumentGeneratorChain {
+  return new DocumentGeneratorChain(apiKey, undefined, providerId)
 }
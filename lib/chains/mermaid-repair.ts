@@ -0,0 +1,178 @@
+import { PromptTemplate } from "@langchain/core/prompts"
+import { RunnableSequence } from "@langchain/core/runnables"
+import { StringOutputParser } from "@langchain/core/output_parsers"
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import { createChatModel, forPrompt, type ProviderId } from "../llm/providers"
+import { extractMermaidBlocks, validateMermaidBlock, type MermaidBlock } from "../analysis/mermaid"
+import { SpendCapExceededError } from "../usage/usage-tracker"
+
+/**
+ * Mermaid Repair Chain
+ *
+ * Checks every ```mermaid block in a generated document and fixes the broken
+ * ones before the document is stored:
+ * 1. The lint in lib/analysis/mermaid.ts catches the usual LLM mistakes cheaply
+ * 2. Blocks that pass the lint go through Mermaid's own parser
+ * 3. A broken block gets one focused fix-up call with the parse errors
+ * 4. If the fix is still broken, the original block stays and a warning is
+ *    added under it, so the document says which diagram won't render
+ */
+
+const REPAIR_TEMPLATE = `This Mermaid diagram from a software design document doesn't parse.
+
+Diagram:
+{diagram}
+
+Problems:
+{problems}
+
+Fix the syntax so the diagram parses. Keep the same diagram type, nodes, labels and relationships - change only
+what's needed to make it valid. Put labels containing spaces or punctuation in double quotes.
+
+Respond with ONLY the corrected Mermaid source (no prose, no code fences).`
+
+// Fix-up calls per document - past this, broken diagrams are just flagged
+const MAX_REPAIRS_PER_DOCUMENT = 4
+
+export interface MermaidRepairResult {
+  content: string
+  // How many blocks were broken and fixed
+  repaired: number
+  // Blocks that are still broken, by the line of their opening fence in the returned content
+  flagged: Array<{ line: number; issues: string[] }>
+}
+
+// Mermaid is an ES module that's only needed here, so it's loaded on first use
+let mermaidParser: Promise<typeof import("mermaid").default> | null = null
+
+// Without a DOM, Mermaid can't install its sanitizer hooks when it cleans up a label -
+// that fails after the diagram has parsed, and says nothing about the diagram
+function isMissingDomError(error: unknown): boolean {
+  return error instanceof TypeError &&
+    (/DOMPurify\.addHook is not a function/.test(error.message) || /\bsetupDompurifyHooks\b/.test(error.stack ?? ""))
+}
+
+async function parseMermaid(source: string): Promise<string[]> {
+  mermaidParser ??= import("mermaid").then(module => module.default)
+  const mermaid = await mermaidParser
+  try {
+    await mermaid.parse(source)
+    return []
+  } catch (error) {
+    if (isMissingDomError(error)) {
+      return []
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    return [message.split("\n").filter(line => !/^-*\^$/.test(line.trim())).join(" ").trim()]
+  }
+}
+
+/**
+ * Problems with a block - the lint first, then the real parser for blocks that pass it
+ */
+export async function checkMermaidBlock(block: MermaidBlock): Promise<string[]> {
+  const issues = validateMermaidBlock(block)
+  return issues.length > 0 ? issues : parseMermaid(block.source)
+}
+
+// The model sometimes wraps its answer in a fence anyway
+function stripFences(text: string): string {
+  return text
+    .trim()
+    .replace(/^```\s*(mermaid)?\s*\n/i, "")
+    .replace(/\n?```\s*$/, "")
+    .trim()
+}
+
+export class MermaidRepairChain {
+  private model: BaseChatModel
+  private chain: RunnableSequence
+
+  constructor(apiKey?: string, modelName?: string, providerId?: ProviderId) {
+    // Temperature 0 - a syntax fix, not a rewrite
+    this.model = createChatModel({ apiKey, modelName, temperature: 0 }, providerId)
+
+    this.chain = RunnableSequence.from([
+      PromptTemplate.fromTemplate(REPAIR_TEMPLATE),
+      forPrompt(this.model, "mermaid.repair"),
+      new StringOutputParser(),
+    ])
+  }
+
+  /**
+   * Check every diagram in a document, fixing or flagging the broken ones
+   */
+  async repairDocument(markdown: string, callbacks?: Callbacks): Promise<MermaidRepairResult> {
+    const lines = markdown.split("\n")
+    const blocks = extractMermaidBlocks(markdown)
+    const replacements: Array<{ block: MermaidBlock; lines: string[]; issues?: string[] }> = []
+    let repairs = 0
+    let repaired = 0
+
+    for (const block of blocks) {
+      const issues = await checkMermaidBlock(block)
+      if (issues.length === 0) continue
+
+      if (repairs < MAX_REPAIRS_PER_DOCUMENT) {
+        repairs++
+        const fixed = await this.repair(block.source, issues, callbacks)
+        if (fixed) {
+          replacements.push({ block, lines: ["```mermaid", ...fixed.split("\n"), "```"] })
+          repaired++
+          continue
+        }
+      }
+
+      const original = lines.slice(block.line - 1, block.endLine)
+      replacements.push({
+        block,
+        // Blank lines around the warning so it doesn't swallow the next paragraph
+        lines: [...original, ...(block.closed ? [] : ["```"]), "", `> ⚠️ **This diagram may not render:** ${issues.join("; ")}`, ""],
+        issues,
+      })
+    }
+
+    // Splice from the bottom up so earlier line numbers stay put
+    for (const { block, lines: replacement } of [...replacements].reverse()) {
+      lines.splice(block.line - 1, block.endLine - block.line + 1, ...replacement)
+    }
+
+    // Line numbers in the returned content, now that earlier blocks may have changed length
+    const flagged: MermaidRepairResult["flagged"] = []
+    let shift = 0
+    for (const { block, lines: replacement, issues } of replacements) {
+      if (issues) {
+        flagged.push({ line: block.line + shift, issues })
+      }
+      shift += replacement.length - (block.endLine - block.line + 1)
+    }
+
+    return { content: lines.join("\n"), repaired, flagged }
+  }
+
+  /**
+   * One fix-up call - null if the model's answer still doesn't parse
+   */
+  private async repair(diagram: string, issues: string[], callbacks?: Callbacks): Promise<string | null> {
+    try {
+      const raw: string = await this.chain.invoke({
+        diagram,
+        problems: issues.map(issue => `- ${issue}`).join("\n"),
+      }, { callbacks })
+
+      const fixed = stripFences(raw)
+      const block: MermaidBlock = { source: fixed, line: 1, endLine: 1, closed: true }
+      return fixed && (await checkMermaidBlock(block)).length === 0 ? fixed : null
+    } catch (error) {
+      // A spend cap stops document generation altogether - anything else just leaves the diagram flagged
+      if (error instanceof SpendCapExceededError) throw error
+      console.error("Mermaid repair call failed:", error)
+      return null
+    }
+  }
+}
+
+export function createMermaidRepairer(apiKey?: string, providerId?: ProviderId): MermaidRepairChain {
+  return new MermaidRepairChain(apiKey, undefined, providerId)
+}
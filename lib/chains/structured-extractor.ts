@@ -0,0 +1,267 @@
+import { PromptTemplate } from "@langchain/core/prompts"
+import { RunnableSequence } from "@langchain/core/runnables"
+import { StringOutputParser } from "@langchain/core/output_parsers"
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import type { z } from "zod"
+import { createChatModel, forPrompt, type ProviderId } from "../llm/providers"
+import { requirementsSchema, designSchema, tasksSchema } from "../schemas/project"
+import type { RequirementsData, DesignData, TasksData, ProjectSession, DocumentType } from "../types/project"
+
+/**
+ * Structured Extractor Chain
+ *
+ * Turns the conversation and the generated markdown documents into the typed
+ * RequirementsData, DesignData and TasksData objects everything downstream relies on.
+ *
+ * The model is asked for JSON only, the JSON is validated with zod, and if it
+ * doesn't validate the model is re-prompted with the exact validation errors.
+ */
+
+// Shared instructions - the {shape} and {feedback} variables are filled per call
+const JSON_INSTRUCTIONS = `Respond with ONLY a JSON object (no prose, no code fences) with exactly this shape:
+{shape}
+
+Use empty strings or empty arrays for anything that wasn't discussed. Do not invent information.
+{feedback}`
+
+const REQUIREMENTS_EXTRACTION_TEMPLATE = `Extract the project requirements from the conversation and requirements document below.
+
+Conversation History:
+{conversationHistory}
+
+User Answers:
+{userAnswers}
+
+Requirements Document:
+{document}
+
+${JSON_INSTRUCTIONS}`
+
+const DESIGN_EXTRACTION_TEMPLATE = `Extract the system design from the design document below.
+
+Design Document:
+{document}
+
+${JSON_INSTRUCTIONS}`
+
+const TASKS_EXTRACTION_TEMPLATE = `Extract every task from the task list below. Keep the task numbering as the id and the
+chronological position as the order. Dependencies are the ids of tasks that must be completed first.
+
+Task List:
+{document}
+
+${JSON_INSTRUCTIONS}`
+
+// Example shapes shown to the model - kept next to the prompts so they're easy to tune
+const REQUIREMENTS_SHAPE = `{
+  "projectName": "string",
+  "description": "string",
+  "techStack": { "frontend": ["string"], "backend": ["string"], "database": ["string"], "deployment": ["string"], "other": ["string"] },
+  "features": ["string"],
+  "targetAudience": "string",
+  "constraints": ["string"],
+  "theme": { "style": "string", "colors": ["string"], "preferences": "string" },
+  "usage": { "expectedUsers": "string", "scalability": "string", "performance": "string" },
+  "timeline": "string or null",
+  "budget": "string or null"
+}`
+
+const DESIGN_SHAPE = `{
+  "architecture": {
+    "overview": "string",
+    "components": [{ "name": "string", "responsibility": "string", "dependencies": ["component name"] }],
+    "dataFlow": "string"
+  },
+  "dataModels": [{ "name": "string", "fields": [{ "name": "string", "type": "string", "description": "string" }], "relationships": ["string"] }],
+  "apiDesign": {
+    "endpoints": [{ "method": "GET|POST|PUT|PATCH|DELETE", "path": "string", "description": "string", "requestBody": "string or null", "response": "string" }],
+    "authentication": "string or null",
+    "rateLimit": "string or null"
+  },
+  "technologyChoices": { "frontend": "string", "backend": "string", "database": "string", "deployment": "string", "rationale": "string" },
+  "deploymentStrategy": { "environment": "string", "cicd": "string", "monitoring": "string" }
+}`
+
+const TASKS_SHAPE = `{
+  "tasks": [{
+    "id": "string",
+    "title": "string",
+    "description": "string",
+    "category": "setup|feature|testing|deployment|documentation",
+    "dependencies": ["task id"],
+    "estimatedTime": "string or null",
+    "acceptanceCriteria": ["string"],
+    "technicalDetails": "string or null",
+    "order": 1
+  }],
+  "totalEstimate": "string or null",
+  "phases": [{ "name": "string", "taskIds": ["task id"], "description": "string" }]
+}`
+
+/**
+ * Thrown when the model still can't produce valid data after every retry.
+ * `issues` holds the last round of validation errors so they can be shown to the user.
+ */
+export class StructuredExtractionError extends Error {
+  constructor(public kind: DocumentType, public issues: string[]) {
+    super(`Could not extract structured ${kind} data: ${issues.join("; ")}`)
+    this.name = "StructuredExtractionError"
+  }
+}
+
+type ParseOutcome<T> = { success: true; data: T } | { success: false; issues: string[] }
+
+/**
+ * Pull the JSON object out of a model response and validate it.
+ * Models often wrap JSON in code fences or a sentence, so we look for the outermost braces.
+ */
+export function parseStructuredOutput<T extends z.ZodTypeAny>(raw: string, schema: T): ParseOutcome<z.infer<T>> {
+  const start = raw.indexOf("{")
+  const end = raw.lastIndexOf("}")
+  if (start === -1 || end < start) {
+    return { success: false, issues: ["Response did not contain a JSON object"] }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(raw.slice(start, end + 1))
+  } catch (error) {
+    return { success: false, issues: [`Response was not valid JSON: ${(error as Error).message}`] }
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    }
+  }
+  return { success: true, data: result.data }
+}
+
+export class StructuredExtractorChain {
+  private model: BaseChatModel
+  private maxRetries: number
+  private requirementsChain: RunnableSequence
+  private designChain: RunnableSequence
+  private tasksChain: RunnableSequence
+
+  constructor(apiKey?: string, modelName?: string, providerId?: ProviderId, maxRetries: number = 2) {
+    // Temperature 0 - we want the same JSON for the same document every time
+    this.model = createChatModel({ apiKey, modelName, temperature: 0 }, providerId)
+    this.maxRetries = maxRetries
+
+    // Same shape as the document chains: Prompt Template → Model → String Parser
+    const buildChain = (template: string, promptName: string) =>
+      RunnableSequence.from([PromptTemplate.fromTemplate(template), forPrompt(this.model, promptName), new StringOutputParser()])
+
+    this.requirementsChain = buildChain(REQUIREMENTS_EXTRACTION_TEMPLATE, "extraction.requirements")
+    this.designChain = buildChain(DESIGN_EXTRACTION_TEMPLATE, "extraction.design")
+    this.tasksChain = buildChain(TASKS_EXTRACTION_TEMPLATE, "extraction.tasks")
+  }
+
+  /**
+   * Run a chain until its output validates, feeding validation errors back on each retry
+   */
+  private async extract<T extends z.ZodTypeAny>(
+    kind: DocumentType,
+    chain: RunnableSequence,
+    schema: T,
+    input: Record<string, string>,
+    callbacks?: Callbacks
+  ): Promise<z.infer<T>> {
+    let feedback = ""
+    let issues: string[] = []
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      const raw: string = await chain.invoke({ ...input, feedback }, { callbacks })
+      const outcome = parseStructuredOutput(raw, schema)
+      if (outcome.success) {
+        return outcome.data
+      }
+
+      issues = outcome.issues
+      console.warn(`Structured ${kind} extraction attempt ${attempt + 1} failed:`, issues)
+
+      // Tell the model exactly what was wrong with its last answer
+      feedback = `\nYour previous response was invalid:\n${issues.map(issue => `- ${issue}`).join("\n")}\n\nPrevious response:\n${raw}\n\nReturn the corrected JSON object only.`
+    }
+
+    throw new StructuredExtractionError(kind, issues)
+  }
+
+  /**
+   * Extract RequirementsData from the requirements-phase conversation and Requirements.md
+   */
+  async extractRequirements(
+    session: ProjectSession,
+    requirementsDoc: string,
+    callbacks?: Callbacks
+  ): Promise<RequirementsData> {
+    const conversationHistory = session.conversationHistory
+      .filter(msg => msg.phase === "requirements")
+      .map(msg => `${msg.role}: ${msg.content}`)
+      .join("\n\n")
+
+    const data = await this.extract("requirements", this.requirementsChain, requirementsSchema, {
+      conversationHistory,
+      userAnswers: JSON.stringify(session.userAnswers, null, 2),
+      document: requirementsDoc,
+      shape: REQUIREMENTS_SHAPE,
+    }, callbacks)
+
+    return {
+      ...data,
+      metadata: {
+        createdAt: session.requirements?.metadata.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        version: (session.requirements?.metadata.version ?? 0) + 1,
+      },
+    }
+  }
+
+  /**
+   * Extract DesignData from Design.md
+   */
+  async extractDesign(designDoc: string, session: ProjectSession, callbacks?: Callbacks): Promise<DesignData> {
+    const data = await this.extract("design", this.designChain, designSchema, {
+      document: designDoc,
+      shape: DESIGN_SHAPE,
+    }, callbacks)
+
+    return {
+      ...data,
+      metadata: {
+        createdAt: session.design?.metadata.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        version: (session.design?.metadata.version ?? 0) + 1,
+        basedOnRequirements: String(session.requirements?.metadata.version ?? 0),
+      },
+    }
+  }
+
+  /**
+   * Extract TasksData from Tasks.md
+   */
+  async extractTasks(tasksDoc: string, session: ProjectSession, callbacks?: Callbacks): Promise<TasksData> {
+    const data = await this.extract("tasks", this.tasksChain, tasksSchema, {
+      document: tasksDoc,
+      shape: TASKS_SHAPE,
+    }, callbacks)
+
+    return {
+      ...data,
+      metadata: {
+        createdAt: session.tasks?.metadata.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        version: (session.tasks?.metadata.version ?? 0) + 1,
+        basedOnDesign: String(session.design?.metadata.version ?? 0),
+      },
+    }
+  }
+}
+
+export function createStructuredExtractor(apiKey?: string, providerId?: ProviderId): StructuredExtractorChain {
+  return new StructuredExtractorChain(apiKey, undefined, providerId)
+}
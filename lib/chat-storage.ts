@@ -1,9 +1,9 @@
-import type { UIMessage } from "ai"
+import type { ChatUIMessage } from "./types/chat"
 
 export interface ChatSession {
   id: string
   title: string
-  messages: UIMessage[]
+  messages: ChatUIMessage[]
   createdAt: number
   updatedAt: number
 }
@@ -0,0 +1,23 @@
+import { parseJsonEventStream, readUIMessageStream, uiMessageChunkSchema, type UIMessageChunk } from "ai"
+import type { ChatUIMessage } from "./types/chat"
+
+// One parsed SSE event from the UI message stream
+type ChunkParseResult = ReturnType<typeof parseJsonEventStream<UIMessageChunk>> extends ReadableStream<infer R> ? R : never
+
+/**
+ * Read the /api/chat response body (an AI SDK UI message stream over SSE)
+ * and yield the assistant message as it grows - one snapshot per chunk.
+ * An error part from the server ends the iteration with that error.
+ */
+export function readChatStream(body: ReadableStream<Uint8Array>): AsyncIterable<ChatUIMessage> {
+  const chunks = parseJsonEventStream({ stream: body, schema: uiMessageChunkSchema }).pipeThrough(
+    new TransformStream<ChunkParseResult, UIMessageChunk>({
+      transform(result, controller) {
+        if (!result.success) throw result.error
+        controller.enqueue(result.value)
+      },
+    })
+  )
+
+  return readUIMessageStream<ChatUIMessage>({ stream: chunks, terminateOnError: true })
+}
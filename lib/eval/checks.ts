@@ -0,0 +1,183 @@
+import { extractMermaidBlocks, validateMermaidBlock } from "../analysis/mermaid"
+import type { DocumentType } from "../types/project"
+import type { CheckResult, GoldenConversation } from "../types/eval"
+
+/**
+ * Document Checks
+ *
+ * Deterministic scoring for generated documents - no LLM judge, so the same
+ * document always gets the same score and two runs can be compared fairly.
+ *
+ * - sections:   every heading the prompt asks for is there
+ * - features:   every feature from the golden conversation is mentioned
+ * - mermaid:    every diagram passes the Mermaid lint (Design.md needs at least one)
+ * - taskFormat: every task follows the Tasks.md format
+ */
+
+// The headings each document prompt asks for (see lib/prompts/document-prompts.ts)
+export const DEFAULT_REQUIRED_SECTIONS: Record<DocumentType, string[]> = {
+  requirements: [
+    "Project Overview",
+    "Target Audience",
+    "Core Features",
+    "Technical Stack",
+    "Design & Theme",
+    "Constraints",
+    "Success Criteria",
+  ],
+  design: [
+    "Architecture Overview",
+    "Component Structure",
+    "Data Models",
+    "API Design",
+    "Technology Stack",
+    "Security",
+    "Scalability",
+    "Deployment",
+  ],
+  // Tasks.md is organised by phase, so these only need to appear in a heading
+  tasks: ["Setup", "Infrastructure", "Database", "API", "Frontend", "Integration", "Testing", "Deployment", "Documentation"],
+}
+
+// Fields every task needs, in the format the tasks prompt asks for
+const TASK_FIELDS = ["Description", "Dependencies", "Estimated Time", "Acceptance Criteria"]
+
+const TASK_HEADING = /^#{2,4}\s*Task\s+(\d+)\s*:\s*(.*)$/i
+
+// Words too common to tell features apart
+const STOP_WORDS = new Set(["the", "and", "for", "with", "from", "into", "that", "this", "their", "your", "can", "should"])
+
+// Lowercase words only, so "Design & Theme" matches "design and theme:"
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/&/g, " and ").replace(/[^a-z0-9]+/g, " ").trim()
+}
+
+function result(id: CheckResult["id"], found: number, total: number, details: string[]): CheckResult {
+  const score = total === 0 ? 1 : found / total
+  return { id, score, passed: details.length === 0, details }
+}
+
+/**
+ * Required headings - each has to appear in some markdown heading
+ */
+export function checkSections(content: string, required: string[]): CheckResult {
+  const headings = content
+    .split("\n")
+    .filter(line => /^#{1,6}\s/.test(line.trim()))
+    .map(normalize)
+
+  const missing = required.filter(section => !headings.some(heading => heading.includes(normalize(section))))
+  return result("sections", required.length - missing.length, required.length, missing.map(section => `missing section "${section}"`))
+}
+
+/**
+ * Expected features - mentioned verbatim, or with all their meaningful words
+ */
+export function checkFeatures(content: string, features: string[]): CheckResult {
+  const text = ` ${normalize(content)} `
+  const isReferenced = (feature: string) => {
+    const phrase = normalize(feature)
+    if (text.includes(` ${phrase} `)) return true
+    const words = phrase.split(" ").filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    return words.length > 0 && words.every(word => text.includes(word))
+  }
+
+  const missing = features.filter(feature => !isReferenced(feature))
+  return result("features", features.length - missing.length, features.length, missing.map(feature => `feature not mentioned: "${feature}"`))
+}
+
+/**
+ * Mermaid diagrams - the share of blocks that pass the lint
+ */
+export function checkMermaid(content: string, required: boolean): CheckResult {
+  const blocks = extractMermaidBlocks(content)
+  if (blocks.length === 0) {
+    return required
+      ? { id: "mermaid", score: 0, passed: false, details: ["no Mermaid diagrams"] }
+      : result("mermaid", 0, 0, [])
+  }
+
+  const details: string[] = []
+  let valid = 0
+  for (const block of blocks) {
+    const issues = validateMermaidBlock(block)
+    if (issues.length === 0) {
+      valid++
+    } else {
+      details.push(...issues.map(issue => `diagram at line ${block.line}: ${issue}`))
+    }
+  }
+  return result("mermaid", valid, blocks.length, details)
+}
+
+/**
+ * Task format - "### Task N: [Category] Title" headings, numbered in order,
+ * each with the fields from the tasks prompt and at least one acceptance criterion
+ */
+export function checkTaskFormat(content: string): CheckResult {
+  const lines = content.split("\n")
+  const tasks: Array<{ number: number; title: string; body: string[] }> = []
+
+  for (const line of lines) {
+    const heading = TASK_HEADING.exec(line.trim())
+    if (heading) {
+      tasks.push({ number: Number(heading[1]), title: heading[2].trim(), body: [] })
+    } else if (/^#{1,2}\s/.test(line.trim())) {
+      // A phase heading ends the task before it
+      tasks.push({ number: NaN, title: "", body: [] })
+    } else if (tasks.length > 0) {
+      tasks[tasks.length - 1].body.push(line)
+    }
+  }
+
+  const real = tasks.filter(task => !Number.isNaN(task.number))
+  if (real.length === 0) {
+    return { id: "taskFormat", score: 0, passed: false, details: ["no tasks in the \"### Task N: [Category] Title\" format"] }
+  }
+
+  const details: string[] = []
+  let compliant = 0
+  real.forEach((task, index) => {
+    const problems: string[] = []
+    if (!/^\[[^\]]+\]\s*\S/.test(task.title)) {
+      problems.push("title has no [Category]")
+    }
+    const body = task.body.join("\n")
+    const missingFields = TASK_FIELDS.filter(field => !new RegExp(`\\*\\*${field}:?\\*\\*`, "i").test(body))
+    if (missingFields.length > 0) {
+      problems.push(`missing ${missingFields.join(", ")}`)
+    } else if (!/\*\*Acceptance Criteria:?\*\*[^\n]*\n(\s*\n)*\s*[-*]\s+\S/i.test(body)) {
+      problems.push("no acceptance criteria listed")
+    }
+    if (task.number !== index + 1) {
+      problems.push(`numbered ${task.number}, expected ${index + 1}`)
+    }
+
+    if (problems.length === 0) {
+      compliant++
+    } else {
+      details.push(`Task ${task.number}: ${problems.join("; ")}`)
+    }
+  })
+
+  return result("taskFormat", compliant, real.length, details)
+}
+
+/**
+ * Run every check that applies to a document type
+ */
+export function checkDocument(type: DocumentType, content: string, golden: GoldenConversation): CheckResult[] {
+  const sections = [...DEFAULT_REQUIRED_SECTIONS[type], ...(golden.expect.sections?.[type] ?? [])]
+  const checks = [checkSections(content, sections)]
+
+  // Design.md describes architecture, not the feature list, so it's not held to every feature
+  if (type !== "design") {
+    checks.push(checkFeatures(content, golden.expect.features))
+  }
+  checks.push(checkMermaid(content, type === "design"))
+  if (type === "tasks") {
+    checks.push(checkTaskFormat(content))
+  }
+
+  return checks
+}
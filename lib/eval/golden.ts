@@ -0,0 +1,63 @@
+import { existsSync, readdirSync, readFileSync } from "fs"
+import path from "path"
+import { goldenConversationSchema } from "../schemas/eval"
+import type { GoldenConversation } from "../types/eval"
+
+/**
+ * Golden Conversations
+ *
+ * Scripted requirements interviews stored as JSON, one per file, in
+ * evals/golden/ by default. Each one holds the conversation, the answers the
+ * agent would have recorded and what the generated documents must contain.
+ */
+
+export const DEFAULT_GOLDEN_DIR = path.join(process.cwd(), "evals", "golden")
+
+/**
+ * Thrown when a golden file can't be read or doesn't match the schema
+ */
+export class GoldenConversationError extends Error {
+  constructor(public filePath: string, public issues: string[]) {
+    super(`Invalid golden conversation ${filePath}:\n${issues.map(issue => `- ${issue}`).join("\n")}`)
+    this.name = "GoldenConversationError"
+  }
+}
+
+/**
+ * Load one golden conversation file
+ */
+export function loadGoldenConversation(filePath: string): GoldenConversation {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf-8"))
+  } catch (error) {
+    throw new GoldenConversationError(filePath, [(error as Error).message])
+  }
+
+  const parsed = goldenConversationSchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new GoldenConversationError(
+      filePath,
+      parsed.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    )
+  }
+
+  return {
+    ...parsed.data,
+    name: parsed.data.name ?? path.basename(filePath, ".json"),
+  }
+}
+
+/**
+ * Load every *.json file in a directory, sorted by name so runs line up
+ */
+export function loadGoldenConversations(dir: string = DEFAULT_GOLDEN_DIR): GoldenConversation[] {
+  if (!existsSync(dir)) {
+    throw new Error(`Golden conversation directory not found: ${dir}`)
+  }
+
+  return readdirSync(dir)
+    .filter(fileName => fileName.endsWith(".json"))
+    .sort()
+    .map(fileName => loadGoldenConversation(path.join(dir, fileName)))
+}
@@ -0,0 +1,172 @@
+import type { DocumentType } from "../types/project"
+import type { EvalComparison, EvalRun, EvalVariant, ScoreChange } from "../types/eval"
+
+/**
+ * Evaluation Reports
+ *
+ * Lines two runs up check by check - same conversation, same document, same
+ * check - and reports what got better and what got worse, as Markdown.
+ */
+
+const DOCUMENT_TYPES: DocumentType[] = ["requirements", "design", "tasks"]
+
+// Score changes smaller than this are noise from rounding
+const EPSILON = 0.001
+
+const percent = (score: number) => `${(score * 100).toFixed(1)}%`
+
+const signed = (delta: number) => `${delta >= 0 ? "+" : ""}${(delta * 100).toFixed(1)}`
+
+/**
+ * Compare a candidate run against a baseline
+ */
+export function compareRuns(baseline: EvalRun, candidate: EvalRun): EvalComparison {
+  const changes: ScoreChange[] = []
+  const unmatched: string[] = []
+
+  const candidateByName = new Map(candidate.conversations.map(conversation => [conversation.name, conversation]))
+  for (const before of baseline.conversations) {
+    const after = candidateByName.get(before.name)
+    if (!after) {
+      unmatched.push(`${before.name}: only in ${baseline.variant.label}`)
+      continue
+    }
+    candidateByName.delete(before.name)
+
+    for (const type of DOCUMENT_TYPES) {
+      const beforeDocument = before.documents.find(document => document.type === type)
+      const afterDocument = after.documents.find(document => document.type === type)
+      if (!beforeDocument || !afterDocument) {
+        if (beforeDocument || afterDocument) {
+          unmatched.push(`${before.name} ${type}: only in ${(beforeDocument ? baseline : candidate).variant.label}`)
+        }
+        continue
+      }
+
+      for (const check of beforeDocument.checks) {
+        const afterCheck = afterDocument.checks.find(other => other.id === check.id)
+        if (!afterCheck) continue
+        changes.push({
+          conversation: before.name,
+          document: type,
+          check: check.id,
+          baseline: check.score,
+          candidate: afterCheck.score,
+          delta: afterCheck.score - check.score,
+        })
+      }
+    }
+  }
+  candidateByName.forEach(conversation => unmatched.push(`${conversation.name}: only in ${candidate.variant.label}`))
+
+  return {
+    baseline: baseline.variant,
+    candidate: candidate.variant,
+    baselineScore: baseline.score,
+    candidateScore: candidate.score,
+    byDocument: DOCUMENT_TYPES.map(type => ({
+      type,
+      baseline: documentScore(baseline, type),
+      candidate: documentScore(candidate, type),
+    })),
+    regressions: changes.filter(change => change.delta < -EPSILON).sort((a, b) => a.delta - b.delta),
+    improvements: changes.filter(change => change.delta > EPSILON).sort((a, b) => b.delta - a.delta),
+    unmatched,
+  }
+}
+
+// Mean score for one document type across a run - missing documents count as zero
+function documentScore(run: EvalRun, type: DocumentType): number {
+  if (run.conversations.length === 0) return 0
+  const total = run.conversations.reduce(
+    (sum, conversation) => sum + (conversation.documents.find(document => document.type === type)?.score ?? 0),
+    0
+  )
+  return total / run.conversations.length
+}
+
+function describeVariant(variant: EvalVariant): string {
+  const parts = [
+    variant.providerId && `provider ${variant.providerId}`,
+    variant.modelName && `model ${variant.modelName}`,
+    variant.promptsDir && `prompts ${variant.promptsDir}`,
+    variant.workspace && `workspace ${variant.workspace}`,
+  ].filter(Boolean)
+  return parts.length > 0 ? `${variant.label} (${parts.join(", ")})` : variant.label
+}
+
+function changeRows(changes: ScoreChange[]): string[] {
+  return [
+    "| Conversation | Document | Check | Before | After | Change |",
+    "|---|---|---|---|---|---|",
+    ...changes.map(change =>
+      `| ${change.conversation} | ${change.document} | ${change.check} | ${percent(change.baseline)} | ${percent(change.candidate)} | ${signed(change.delta)} |`
+    ),
+  ]
+}
+
+/**
+ * Summary of a single run - scores per conversation and document, and what failed
+ */
+export function formatRunReport(run: EvalRun): string {
+  const lines = [
+    `# Evaluation: ${describeVariant(run.variant)}`,
+    "",
+    `Overall score: **${percent(run.score)}** across ${run.conversations.length} conversations`,
+    "",
+    "| Conversation | Requirements | Design | Tasks | Score |",
+    "|---|---|---|---|---|",
+    ...run.conversations.map(conversation => {
+      const cells = DOCUMENT_TYPES.map(type => {
+        const document = conversation.documents.find(doc => doc.type === type)
+        return document ? percent(document.score) : "-"
+      })
+      return `| ${conversation.name} | ${cells.join(" | ")} | ${percent(conversation.score)} |`
+    }),
+  ]
+
+  const failures = run.conversations.flatMap(conversation => [
+    ...(conversation.error ? [`- ${conversation.name}: generation failed - ${conversation.error}`] : []),
+    ...conversation.documents.flatMap(document =>
+      document.checks.flatMap(check => check.details.map(detail => `- ${conversation.name} ${document.type} (${check.id}): ${detail}`))
+    ),
+  ])
+  if (failures.length > 0) {
+    lines.push("", "## Failed checks", "", ...failures)
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+/**
+ * The comparison as a Markdown report
+ */
+export function formatComparisonReport(comparison: EvalComparison): string {
+  const lines = [
+    "# Evaluation Comparison",
+    "",
+    `- Baseline: ${describeVariant(comparison.baseline)}`,
+    `- Candidate: ${describeVariant(comparison.candidate)}`,
+    "",
+    "| | Baseline | Candidate | Change |",
+    "|---|---|---|---|",
+    `| **Overall** | ${percent(comparison.baselineScore)} | ${percent(comparison.candidateScore)} | ${signed(comparison.candidateScore - comparison.baselineScore)} |`,
+    ...comparison.byDocument.map(row =>
+      `| ${row.type} | ${percent(row.baseline)} | ${percent(row.candidate)} | ${signed(row.candidate - row.baseline)} |`
+    ),
+    "",
+    `## Regressions (${comparison.regressions.length})`,
+    "",
+    ...(comparison.regressions.length > 0 ? changeRows(comparison.regressions) : ["None."]),
+    "",
+    `## Improvements (${comparison.improvements.length})`,
+    "",
+    ...(comparison.improvements.length > 0 ? changeRows(comparison.improvements) : ["None."]),
+  ]
+
+  if (comparison.unmatched.length > 0) {
+    lines.push("", "## Not compared", "", ...comparison.unmatched.map(entry => `- ${entry}`))
+  }
+
+  return lines.join("\n") + "\n"
+}
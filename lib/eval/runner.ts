@@ -0,0 +1,108 @@
+import { DocumentGeneratorChain, type DocumentGeneration } from "../chains/document-generator"
+import { TracerMemoryManager } from "../memory/session-manager"
+import { getPromptRegistry } from "../prompts/registry"
+import type { DocumentType, ProjectSession } from "../types/project"
+import type { ConversationEvaluation, DocumentEvaluation, EvalRun, EvalVariant, GoldenConversation } from "../types/eval"
+import { checkDocument } from "./checks"
+
+/**
+ * Evaluation Runner
+ *
+ * Drives golden conversations through DocumentGeneratorChain - Requirements,
+ * then Design, then Tasks, each built from the one before, just like the chat
+ * route - and scores every document with the deterministic checks.
+ *
+ * Works with any provider. With LLM_PROVIDER=fake or LLM_CASSETTE_MODE=replay
+ * a whole run is offline and repeatable.
+ */
+
+const mean = (scores: number[]) => (scores.length === 0 ? 0 : scores.reduce((total, score) => total + score, 0) / scores.length)
+
+export class EvaluationRunner {
+  private generator: DocumentGeneratorChain
+
+  constructor(private variant: EvalVariant) {
+    // Prompt files for this variant only - the global registry keeps its own directory
+    const promptRegistry = variant.promptsDir || variant.workspace
+      ? getPromptRegistry().withOverrides(variant.promptsDir, variant.workspace)
+      : getPromptRegistry()
+    this.generator = new DocumentGeneratorChain(undefined, variant.modelName, variant.providerId, promptRegistry)
+  }
+
+  /**
+   * Evaluate every conversation, one after another
+   */
+  async run(conversations: GoldenConversation[]): Promise<EvalRun> {
+    const startedAt = Date.now()
+    const results: ConversationEvaluation[] = []
+
+    for (const conversation of conversations) {
+      console.log(`[eval] ${this.variant.label}: ${conversation.name}`)
+      results.push(await this.evaluateConversation(conversation))
+    }
+
+    return {
+      variant: this.variant,
+      startedAt,
+      conversations: results,
+      score: mean(results.map(result => result.score)),
+    }
+  }
+
+  /**
+   * Generate and score the three documents for one conversation.
+   * A failure stops the chain there - later documents depend on earlier ones.
+   */
+  async evaluateConversation(conversation: GoldenConversation): Promise<ConversationEvaluation> {
+    const session = this.buildSession(conversation)
+    const documents: DocumentEvaluation[] = []
+
+    const evaluate = async (type: DocumentType, generate: () => Promise<DocumentGeneration>) => {
+      const started = Date.now()
+      const { content, promptVersion } = await generate()
+      const checks = checkDocument(type, content, conversation)
+      documents.push({
+        type,
+        promptVersion,
+        content,
+        checks,
+        score: mean(checks.map(check => check.score)),
+        durationMs: Date.now() - started,
+      })
+      return content
+    }
+
+    try {
+      const requirements = await evaluate("requirements", () => this.generator.generateRequirements(session))
+      const design = await evaluate("design", () => this.generator.generateDesign(requirements, session))
+      await evaluate("tasks", () => this.generator.generateTasks(design, requirements))
+    } catch (error) {
+      console.error(`[eval] ${conversation.name} failed:`, error)
+      return {
+        name: conversation.name,
+        documents,
+        // Missing documents count as zero, so a failing variant can't look better than it is
+        score: mean([...documents.map(document => document.score), ...Array(3 - documents.length).fill(0)]),
+        error: (error as Error).message,
+      }
+    }
+
+    return { name: conversation.name, documents, score: mean(documents.map(document => document.score)) }
+  }
+
+  // A project session as the chat route would have left it at the end of the interview
+  private buildSession(conversation: GoldenConversation): ProjectSession {
+    const memoryManager = new TracerMemoryManager()
+    const sessionId = `eval-${conversation.name}`
+    const session = memoryManager.initializeProjectSession(sessionId, conversation.projectName)
+
+    for (const message of conversation.messages) {
+      memoryManager.addMessage(sessionId, message.role, message.content)
+    }
+    for (const [question, answer] of Object.entries(conversation.answers)) {
+      memoryManager.addUserAnswer(sessionId, question, answer)
+    }
+
+    return session
+  }
+}
@@ -0,0 +1,443 @@
+import type { DesignData } from "../types/project"
+import {
+  buildDatabaseSchema,
+  camelCase,
+  pascalCase,
+  pluralize,
+  type ColumnType,
+  type DatabaseSchema,
+  type SchemaColumn,
+  type SchemaIssue,
+  type SchemaTable,
+} from "./db-schema"
+
+/**
+ * Database Schema Formats
+ *
+ * Writes a DatabaseSchema out as PostgreSQL DDL, SQLite DDL, a Prisma schema
+ * and Drizzle (pg-core) table definitions. The four files describe the same
+ * tables, so any of them can be dropped into a new project as-is.
+ */
+
+export type SchemaFormat = "postgres" | "sqlite" | "prisma" | "drizzle"
+
+export interface DatabaseSchemaFile {
+  format: SchemaFormat
+  // Where the file goes in a project, e.g. "prisma/schema.prisma"
+  path: string
+  content: string
+}
+
+export interface DatabaseSchemaExport {
+  files: DatabaseSchemaFile[]
+  issues: SchemaIssue[]
+}
+
+export const SCHEMA_FILE_PATHS: Record<SchemaFormat, string> = {
+  postgres: "db/schema.postgres.sql",
+  sqlite: "db/schema.sqlite.sql",
+  prisma: "prisma/schema.prisma",
+  drizzle: "db/schema.ts",
+}
+
+const HEADER = "Generated from the data models in Design.md"
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`
+
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`
+
+const primaryKeyColumn = (table: SchemaTable) =>
+  table.primaryKey.length === 1 ? table.columns.find(column => column.name === table.primaryKey[0]) : undefined
+
+// Only a table's own id gets a generated default - not a join table's, and not one that's also a foreign key
+const isGeneratedKey = (table: SchemaTable, column: SchemaColumn) =>
+  !table.joinTable && primaryKeyColumn(table) === column && !column.references
+
+const enumTypeName = (table: SchemaTable, column: SchemaColumn) => `${table.name}_${column.name}`
+
+// ---------------------------------------------------------------------------
+// PostgreSQL
+
+const POSTGRES_TYPES: Record<Exclude<ColumnType, "enum">, string> = {
+  uuid: "uuid",
+  string: "text",
+  text: "text",
+  integer: "integer",
+  bigint: "bigint",
+  decimal: "numeric",
+  float: "double precision",
+  boolean: "boolean",
+  date: "date",
+  datetime: "timestamptz",
+  time: "time",
+  json: "jsonb",
+}
+
+function postgresColumnType(table: SchemaTable, column: SchemaColumn): string {
+  if (column.type === "json") return "jsonb"
+  const base = column.type === "enum" ? quote(enumTypeName(table, column)) : POSTGRES_TYPES[column.type]
+  return column.array ? `${base}[]` : base
+}
+
+export function formatPostgres(schema: DatabaseSchema): string {
+  const lines = [`-- ${HEADER}`, ""]
+
+  for (const table of schema.tables) {
+    for (const column of table.columns) {
+      if (column.type === "enum") {
+        lines.push(`CREATE TYPE ${quote(enumTypeName(table, column))} AS ENUM (${(column.enumValues ?? []).map(literal).join(", ")});`)
+      }
+    }
+  }
+  if (lines.length > 2) lines.push("")
+
+  // Tables first, foreign keys after - then the order of the tables doesn't matter
+  const foreignKeys: string[] = []
+  const comments: string[] = []
+  for (const table of schema.tables) {
+    const pk = primaryKeyColumn(table)
+    const definitions = table.columns.map(column => {
+      const parts = [quote(column.name), postgresColumnType(table, column)]
+      if (column === pk) {
+        if (isGeneratedKey(table, column) && column.type === "uuid") parts.push("DEFAULT gen_random_uuid()")
+        if (isGeneratedKey(table, column) && (column.type === "integer" || column.type === "bigint")) parts.push("GENERATED BY DEFAULT AS IDENTITY")
+        parts.push("PRIMARY KEY")
+      } else {
+        if (!column.nullable) parts.push("NOT NULL")
+        if (column.unique) parts.push("UNIQUE")
+      }
+      return `  ${parts.join(" ")}`
+    })
+    if (!pk) {
+      definitions.push(`  PRIMARY KEY (${table.primaryKey.map(quote).join(", ")})`)
+    }
+    lines.push(`CREATE TABLE ${quote(table.name)} (`, definitions.join(",\n"), ");", "")
+
+    for (const column of table.columns) {
+      if (column.references) {
+        const onDelete = table.joinTable ? " ON DELETE CASCADE" : column.nullable ? " ON DELETE SET NULL" : ""
+        foreignKeys.push(
+          `ALTER TABLE ${quote(table.name)} ADD FOREIGN KEY (${quote(column.name)}) REFERENCES ${quote(column.references.table)} (${quote(column.references.column)})${onDelete};`
+        )
+      }
+      if (column.description) {
+        comments.push(`COMMENT ON COLUMN ${quote(table.name)}.${quote(column.name)} IS ${literal(column.description)};`)
+      }
+    }
+  }
+
+  if (foreignKeys.length > 0) lines.push(...foreignKeys, "")
+  if (comments.length > 0) lines.push(...comments, "")
+  return lines.join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// SQLite
+
+const SQLITE_TYPES: Record<ColumnType, string> = {
+  uuid: "TEXT",
+  string: "TEXT",
+  text: "TEXT",
+  integer: "INTEGER",
+  bigint: "INTEGER",
+  decimal: "NUMERIC",
+  float: "REAL",
+  boolean: "INTEGER",
+  date: "TEXT",
+  datetime: "TEXT",
+  time: "TEXT",
+  json: "TEXT",
+  enum: "TEXT",
+}
+
+export function formatSqlite(schema: DatabaseSchema): string {
+  const lines = [`-- ${HEADER}`, "", "PRAGMA foreign_keys = ON;", ""]
+
+  for (const table of schema.tables) {
+    const pk = primaryKeyColumn(table)
+    const definitions = table.columns.map(column => {
+      // SQLite has no arrays - lists are stored as JSON text
+      const type = column.array ? "TEXT" : SQLITE_TYPES[column.type]
+      const parts = [quote(column.name), type]
+      if (column === pk) {
+        // "INTEGER PRIMARY KEY" makes the column the rowid, so it fills itself in
+        parts.push("PRIMARY KEY")
+        if (type !== "INTEGER") parts.push("NOT NULL")
+      } else {
+        if (!column.nullable) parts.push("NOT NULL")
+        if (column.unique) parts.push("UNIQUE")
+      }
+      if (column.type === "enum" && !column.array) {
+        parts.push(`CHECK (${quote(column.name)} IN (${(column.enumValues ?? []).map(literal).join(", ")}))`)
+      }
+      if (column.references) {
+        const onDelete = table.joinTable ? " ON DELETE CASCADE" : column.nullable ? " ON DELETE SET NULL" : ""
+        parts.push(`REFERENCES ${quote(column.references.table)} (${quote(column.references.column)})${onDelete}`)
+      }
+      const comment = column.description ? `  -- ${column.description.replace(/\s+/g, " ")}\n` : ""
+      return `${comment}  ${parts.join(" ")}`
+    })
+    if (!pk) {
+      definitions.push(`  PRIMARY KEY (${table.primaryKey.map(quote).join(", ")})`)
+    }
+    lines.push(`CREATE TABLE ${quote(table.name)} (`, definitions.join(",\n"), ");", "")
+  }
+
+  return lines.join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// Prisma
+
+const PRISMA_TYPES: Record<Exclude<ColumnType, "enum">, string> = {
+  uuid: "String",
+  string: "String",
+  text: "String",
+  integer: "Int",
+  bigint: "BigInt",
+  decimal: "Decimal",
+  float: "Float",
+  boolean: "Boolean",
+  date: "DateTime",
+  datetime: "DateTime",
+  time: "DateTime",
+  json: "Json",
+}
+
+const PRISMA_NATIVE_TYPES: Partial<Record<ColumnType, string>> = {
+  uuid: "@db.Uuid",
+  date: "@db.Date",
+  time: "@db.Time",
+}
+
+// Enum values have to be identifiers in Prisma - anything else is mapped
+function prismaEnumValue(value: string): string {
+  const identifier = value.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "")
+  const safe = /^[A-Za-z]/.test(identifier) ? identifier : `value_${identifier}`
+  return safe === value ? value : `${safe} @map(${JSON.stringify(value)})`
+}
+
+interface PrismaField {
+  name: string
+  type: string
+  attributes: string[]
+  description?: string
+}
+
+const alignFields = (fields: PrismaField[]) => {
+  const nameWidth = Math.max(...fields.map(field => field.name.length))
+  const typeWidth = Math.max(...fields.map(field => field.type.length))
+  return fields.flatMap(field => [
+    ...(field.description ? [`  /// ${field.description.replace(/\s+/g, " ")}`] : []),
+    `  ${field.name.padEnd(nameWidth)} ${field.attributes.length > 0 ? `${field.type.padEnd(typeWidth)} ${field.attributes.join(" ")}` : field.type}`.trimEnd(),
+  ])
+}
+
+export function formatPrisma(schema: DatabaseSchema): string {
+  const lines = [
+    `// ${HEADER}`,
+    "",
+    "generator client {",
+    '  provider = "prisma-client-js"',
+    "}",
+    "",
+    "datasource db {",
+    '  provider = "postgresql"',
+    '  url      = env("DATABASE_URL")',
+    "}",
+    "",
+  ]
+
+  const byTable = new Map(schema.tables.map(table => [table.name, table]))
+  const fields = new Map<string, PrismaField[]>(schema.tables.map(table => [table.model, []]))
+  // Field names already taken in each model - relation fields can't collide with columns or each other
+  const taken = new Map(schema.tables.map(table => [table.model, new Set(table.columns.map(column => column.field))]))
+  const claim = (model: string, wanted: string, fallback: string) => {
+    const used = taken.get(model)!
+    let name = used.has(wanted) ? fallback : wanted
+    for (let n = 2; used.has(name); n++) name = `${fallback}${n}`
+    used.add(name)
+    return name
+  }
+
+  const enums: string[] = []
+  for (const table of schema.tables) {
+    const pk = primaryKeyColumn(table)
+    for (const column of table.columns) {
+      let type = column.type === "enum" ? pascalCase(`${table.model} ${column.field}`) : PRISMA_TYPES[column.type]
+      if (column.type === "enum") {
+        enums.push(
+          `enum ${type} {`,
+          ...(column.enumValues ?? []).map(value => `  ${prismaEnumValue(value)}`),
+          `  @@map(${JSON.stringify(enumTypeName(table, column))})`,
+          "}",
+          ""
+        )
+      }
+      // Json lists are just Json, and Prisma lists can't be optional
+      if (column.array && column.type !== "json") type = `${type}[]`
+      else if (column.nullable) type = `${type}?`
+
+      const attributes: string[] = []
+      if (column === pk) {
+        attributes.push("@id")
+        if (isGeneratedKey(table, column) && column.type === "uuid") attributes.push("@default(uuid())")
+        if (isGeneratedKey(table, column) && (column.type === "integer" || column.type === "bigint")) attributes.push("@default(autoincrement())")
+      } else if (column.unique) {
+        attributes.push("@unique")
+      }
+      if (column.name !== column.field) attributes.push(`@map(${JSON.stringify(column.name)})`)
+      const native = PRISMA_NATIVE_TYPES[column.type]
+      if (native) attributes.push(native)
+
+      fields.get(table.model)!.push({ name: column.field, type, attributes, description: column.description })
+    }
+
+    // Each foreign key gets a relation field here and a back-relation on the model it points at
+    for (const column of table.columns) {
+      const target = column.references && byTable.get(column.references.table)
+      if (!target) continue
+      const targetColumn = target.columns.find(candidate => candidate.name === column.references!.column)!
+      const base = column.field.replace(/Id$/, "") || camelCase(target.model)
+      const relationField = claim(table.model, base, `${base}Ref`)
+      const relation = `${table.model}${pascalCase(relationField)}`
+      const onDelete = table.joinTable ? ", onDelete: Cascade" : ""
+      fields.get(table.model)!.push({
+        name: relationField,
+        type: column.nullable ? `${target.model}?` : target.model,
+        attributes: [`@relation(${JSON.stringify(relation)}, fields: [${column.field}], references: [${targetColumn.field}]${onDelete})`],
+      })
+
+      const backBase = column.unique ? camelCase(table.model) : camelCase(pluralize(table.model))
+      const backField = claim(target.model, backBase, `${backBase}As${pascalCase(relationField)}`)
+      fields.get(target.model)!.push({
+        name: backField,
+        type: column.unique ? `${table.model}?` : `${table.model}[]`,
+        attributes: [`@relation(${JSON.stringify(relation)})`],
+      })
+    }
+  }
+
+  lines.push(...enums)
+  for (const table of schema.tables) {
+    lines.push(`model ${table.model} {`, ...alignFields(fields.get(table.model)!), "")
+    if (!primaryKeyColumn(table)) {
+      const keys = table.primaryKey.map(name => table.columns.find(column => column.name === name)!.field)
+      lines.push(`  @@id([${keys.join(", ")}])`)
+    }
+    lines.push(`  @@map(${JSON.stringify(table.name)})`, "}", "")
+  }
+  return lines.join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// Drizzle
+
+const DRIZZLE_BUILDERS: Record<Exclude<ColumnType, "enum">, [string, string]> = {
+  uuid: ["uuid", ""],
+  string: ["text", ""],
+  text: ["text", ""],
+  integer: ["integer", ""],
+  bigint: ["bigint", ', { mode: "number" }'],
+  decimal: ["numeric", ""],
+  float: ["doublePrecision", ""],
+  boolean: ["boolean", ""],
+  date: ["date", ""],
+  datetime: ["timestamp", ", { withTimezone: true }"],
+  time: ["time", ""],
+  json: ["jsonb", ""],
+}
+
+export function formatDrizzle(schema: DatabaseSchema): string {
+  const imports = new Set(["pgTable"])
+  const body: string[] = []
+  const variable = (table: SchemaTable) => camelCase(table.name)
+  const byTable = new Map(schema.tables.map(table => [table.name, table]))
+
+  for (const table of schema.tables) {
+    for (const column of table.columns) {
+      if (column.type === "enum") {
+        imports.add("pgEnum")
+        const values = (column.enumValues ?? []).map(value => JSON.stringify(value)).join(", ")
+        body.push(`export const ${camelCase(enumTypeName(table, column))} = pgEnum(${JSON.stringify(enumTypeName(table, column))}, [${values}])`, "")
+      }
+    }
+  }
+
+  for (const table of schema.tables) {
+    const pk = primaryKeyColumn(table)
+    const columns = table.columns.flatMap(column => {
+      let builder: string
+      if (column.type === "enum") {
+        builder = `${camelCase(enumTypeName(table, column))}(${JSON.stringify(column.name)})`
+      } else {
+        const [name, options] = DRIZZLE_BUILDERS[column.array && column.type === "json" ? "json" : column.type]
+        imports.add(name)
+        builder = `${name}(${JSON.stringify(column.name)}${options})`
+      }
+      if (column.array && column.type !== "json") builder += ".array()"
+
+      if (column === pk) {
+        builder += ".primaryKey()"
+        if (isGeneratedKey(table, column) && column.type === "uuid") builder += ".defaultRandom()"
+        if (isGeneratedKey(table, column) && (column.type === "integer" || column.type === "bigint")) builder += ".generatedByDefaultAsIdentity()"
+      } else {
+        if (!column.nullable) builder += ".notNull()"
+        if (column.unique) builder += ".unique()"
+      }
+
+      const target = column.references && byTable.get(column.references.table)
+      if (target) {
+        const targetColumn = target.columns.find(candidate => candidate.name === column.references!.column)!
+        const onDelete = table.joinTable ? ', { onDelete: "cascade" }' : column.nullable ? ', { onDelete: "set null" }' : ""
+        // A table referencing itself needs the column type spelled out
+        if (target === table) {
+          imports.add("type AnyPgColumn")
+          builder += `.references((): AnyPgColumn => ${variable(target)}.${targetColumn.field}${onDelete})`
+        } else {
+          builder += `.references(() => ${variable(target)}.${targetColumn.field}${onDelete})`
+        }
+      }
+
+      return [...(column.description ? [`  // ${column.description.replace(/\s+/g, " ")}`] : []), `  ${column.field}: ${builder},`]
+    })
+
+    if (pk) {
+      body.push(`export const ${variable(table)} = pgTable(${JSON.stringify(table.name)}, {`, ...columns, "})", "")
+    } else {
+      imports.add("primaryKey")
+      const keys = table.primaryKey.map(name => `table.${table.columns.find(column => column.name === name)!.field}`)
+      body.push(
+        `export const ${variable(table)} = pgTable(${JSON.stringify(table.name)}, {`,
+        ...columns,
+        `}, (table) => [primaryKey({ columns: [${keys.join(", ")}] })])`,
+        ""
+      )
+    }
+  }
+
+  // Type-only imports last, the way most formatters sort them
+  const sorted = Array.from(imports).sort((a, b) => Number(a.startsWith("type ")) - Number(b.startsWith("type ")) || a.localeCompare(b))
+  return [`// ${HEADER}`, "", `import { ${sorted.join(", ")} } from "drizzle-orm/pg-core"`, "", ...body].join("\n")
+}
+
+/**
+ * Build the schema files for a design, ready to download or add to a project
+ */
+export function buildDatabaseSchemaFiles(design: DesignData): DatabaseSchemaExport {
+  const schema = buildDatabaseSchema(design)
+  const formatters: Record<SchemaFormat, (schema: DatabaseSchema) => string> = {
+    postgres: formatPostgres,
+    sqlite: formatSqlite,
+    prisma: formatPrisma,
+    drizzle: formatDrizzle,
+  }
+  return {
+    files: (Object.keys(formatters) as SchemaFormat[]).map(format => ({
+      format,
+      path: SCHEMA_FILE_PATHS[format],
+      content: formatters[format](schema),
+    })),
+    issues: schema.issues,
+  }
+}
@@ -0,0 +1,417 @@
+import type { DesignData } from "../types/project"
+
+/**
+ * Database Schema
+ *
+ * Turns `DesignData.dataModels` into one dialect-neutral description of the
+ * database - tables, columns, foreign keys and join tables - which
+ * db-schema-formats.ts writes out as PostgreSQL, SQLite, Prisma and Drizzle.
+ *
+ * Everything is deterministic:
+ * - free-text field types are mapped by keyword ("uuid", "varchar(255)",
+ *   "timestamp", "string[]", "enum(a, b)"); the JS `Date` is a timestamp and
+ *   a `number` id is an integer
+ * - a field whose type is another model, or an `xxxId` field named after one,
+ *   becomes a foreign key
+ * - relationship sentences ("User has many Posts", "Post belongs to User",
+ *   "Post many-to-many with Tag through PostTags", "Order 1:N OrderItem")
+ *   add foreign keys and join tables
+ *
+ * Anything pointing at a model that isn't in `dataModels` is reported as an issue.
+ */
+
+export type ColumnType =
+  | "uuid"
+  | "string"
+  | "text"
+  | "integer"
+  | "bigint"
+  | "decimal"
+  | "float"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "time"
+  | "json"
+  | "enum"
+
+export interface SchemaColumn {
+  // snake_case, as in the database
+  name: string
+  // camelCase, as in Prisma and Drizzle
+  field: string
+  type: ColumnType
+  enumValues?: string[]
+  // A list of a primitive - a native array in PostgreSQL, JSON text in SQLite
+  array: boolean
+  nullable: boolean
+  unique: boolean
+  // Foreign key to another table's primary key
+  references?: { table: string; column: string }
+  description?: string
+}
+
+export interface SchemaTable {
+  // snake_case plural, as in the database
+  name: string
+  // PascalCase singular, as in Prisma and Drizzle
+  model: string
+  columns: SchemaColumn[]
+  primaryKey: string[]
+  // Created for a many-to-many relationship rather than from a data model
+  joinTable: boolean
+}
+
+export interface SchemaIssue {
+  model: string
+  message: string
+}
+
+export interface DatabaseSchema {
+  tables: SchemaTable[]
+  issues: SchemaIssue[]
+}
+
+type DataModel = DesignData["dataModels"][number]
+
+const words = (text: string) =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase())
+
+export const snakeCase = (text: string) => words(text).join("_")
+
+export const camelCase = (text: string) =>
+  words(text).map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1))).join("")
+
+export const pascalCase = (text: string) => words(text).map(word => word[0].toUpperCase() + word.slice(1)).join("")
+
+// Good enough for table names - "category" → "categories", "address" → "addresses"
+export function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`
+  if (/(s|x|z|ch|sh)$/.test(word)) return `${word}es`
+  return `${word}s`
+}
+
+function singularize(word: string): string {
+  if (/ies$/.test(word)) return `${word.slice(0, -3)}y`
+  if (/(ss|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2)
+  if (/s$/.test(word) && !/ss$/.test(word)) return word.slice(0, -1)
+  return word
+}
+
+// Types that are plainly not references to other models
+const PRIMITIVE_TYPES: Array<[RegExp, ColumnType]> = [
+  [/^(uuid|guid)\b/, "uuid"],
+  [/^(text|longtext|mediumtext|markdown|html|richtext)\b/, "text"],
+  [/^(string|varchar|char|character|citext|email|url|uri|slug|password|hash|phone|ip)\b/, "string"],
+  [/^(bigint|int64|long|bigserial)\b/, "bigint"],
+  [/^(int|integer|int32|smallint|serial|number\(int\))\b/, "integer"],
+  [/^(decimal|numeric|money|currency)\b/, "decimal"],
+  [/^(float|double|real|number)\b/, "float"],
+  [/^(bool|boolean)\b/, "boolean"],
+  [/^(datetime|timestamp|timestamptz|instant)\b/, "datetime"],
+  [/^date\b/, "date"], // the JS Date is handled before this - it has a time of day
+  [/^time\b/, "time"],
+  [/^(json|jsonb|object|map|record|dict|hash map|any)\b/, "json"],
+]
+
+interface ParsedType {
+  type: ColumnType
+  enumValues?: string[]
+  array: boolean
+  nullable: boolean
+  // The model the field points at, if it's a reference
+  model?: string
+  // A capitalised type that looks like a model but isn't one
+  unknownModel?: string
+}
+
+// "id", "userId", "user_id" - but not "paid"
+const isIdField = (name: string) => /^(id|Id|ID)$|_(id|ID)$|[a-z0-9](Id|ID)$/.test(name.trim())
+
+function parseFieldType(raw: string, models: Map<string, DataModel>, fieldName = ""): ParsedType {
+  let type = raw.trim()
+  const nullable = /\?$|\boptional\b|\bnullable\b|\|\s*null\b/i.test(type)
+  type = type.replace(/\?$/, "").replace(/\b(optional|nullable|required|unique|primary key|pk)\b/gi, "").replace(/\|\s*null\b/gi, "").trim()
+
+  const array = /^(.+)\[\]$/.exec(type) ?? /^(?:array|list)\s*<(.+)>$/i.exec(type) ?? /^(?:array|list)\s+of\s+(.+)$/i.exec(type)
+  if (array) {
+    return { ...parseFieldType(array[1], models, fieldName), array: true, nullable }
+  }
+
+  const enumValues = /^enum\s*[(<[](.+)[)>\]]$/i.exec(type)
+  if (enumValues) {
+    const values = enumValues[1].split(/[,|]/).map(value => value.trim().replace(/^['"]|['"]$/g, "")).filter(Boolean)
+    return { type: "enum", enumValues: values, array: false, nullable }
+  }
+
+  const model = findModel(type, models)
+  if (model) {
+    return { type: "uuid", array: false, nullable, model }
+  }
+
+  // The JS Date type carries a time - only a lowercase "date" means the day alone
+  if (type === "Date") {
+    return { type: "datetime", array: false, nullable }
+  }
+
+  const lower = type.toLowerCase()
+  // A plain JS number used as an id is a whole number, not a float
+  if (/^number$/.test(lower) && isIdField(fieldName)) {
+    return { type: "integer", array: false, nullable }
+  }
+  const primitive = PRIMITIVE_TYPES.find(([pattern]) => pattern.test(lower))
+  if (primitive) {
+    return { type: primitive[1], array: false, nullable }
+  }
+
+  // "Address", "GeoPoint" - reads like a model name nobody defined
+  return { type: "json", array: false, nullable, ...(/^[A-Z][A-Za-z0-9]*$/.test(type) ? { unknownModel: type } : {}) }
+}
+
+// A model by its name, singular or plural, in any casing - "blog posts" finds "BlogPost"
+function findModel(text: string, models: Map<string, DataModel>): string | undefined {
+  const key = words(text).map(singularize).join("")
+  return key ? Array.from(models.keys()).find(name => words(name).map(singularize).join("") === key) : undefined
+}
+
+// A field that points at another model is stored as its id - "author" becomes "authorId"
+const columnFieldName = (field: string, isReference: boolean) =>
+  isReference && !/id$/i.test(field) ? `${camelCase(field)}Id` : camelCase(field)
+
+type RelationKind = "one-to-many" | "many-to-one" | "one-to-one" | "many-to-many"
+
+// "A has many B", "A belongs to B", "A many-to-many with B through AB", ...
+const RELATION_VERBS: Array<[RegExp, RelationKind]> = [
+  [/(?:^|\s)(?:has and belongs to many|many[\s-]to[\s-]many(?: with)?|n:m|m:n|\*:\*)\s+/i, "many-to-many"],
+  [/(?:^|\s)(?:has many|has multiple|one[\s-]to[\s-]many(?: with)?|1:n|1:\*|contains many)\s+/i, "one-to-many"],
+  [/(?:^|\s)(?:belongs to|many[\s-]to[\s-]one(?: with)?|n:1|\*:1|references|is owned by)\s+(?:an?\s+|one\s+|the\s+)?/i, "many-to-one"],
+  [/(?:^|\s)(?:has one|has an?|one[\s-]to[\s-]one(?: with)?|1:1)\s+/i, "one-to-one"],
+]
+
+interface Relation {
+  kind: RelationKind
+  from: string
+  to: string
+  through?: string
+  // The foreign key column, when the sentence names it - "Post belongs to User via author_id"
+  field?: string
+}
+
+/**
+ * Parse one relationship sentence. The left side defaults to the model that
+ * lists it; the right side has to name a model.
+ */
+function parseRelationship(
+  sentence: string,
+  owner: string,
+  models: Map<string, DataModel>
+): Relation | { unknown: string } | null {
+  for (const [verb, kind] of RELATION_VERBS) {
+    const match = verb.exec(sentence)
+    if (!match) continue
+
+    const left = sentence.slice(0, match.index).replace(/^\s*(an?|one|each|every|the)\s+/i, "").trim()
+    const right = sentence.slice(match.index + match[0].length)
+    const [target, through] = right.split(/\s+(?:through|via|using)\s+/i)
+    // The model name is the first few words, before any note like "(via author_id)"
+    const targetName = target.split(/[(,;:.]|\s+-\s+/)[0].trim()
+
+    // "many Posts and Comments" - the longest run of leading words that names a model
+    const targetWords = targetName.split(/\s+/)
+    let to: string | undefined
+    for (let count = targetWords.length; count > 0 && !to; count--) {
+      to = findModel(targetWords.slice(0, count).join(" "), models)
+    }
+    const from = (left && findModel(left, models)) || owner
+    if (!to) {
+      return { unknown: targetName }
+    }
+    const join = through?.split(/[\s(,;:.]/)[0]
+    const field = /\b([a-z]\w*?_?id)\b/i.exec(right.slice(targetName.length))?.[1]
+    if (kind !== "many-to-many" && field) {
+      return { kind, from, to, field: camelCase(field) }
+    }
+    return { kind, from, to, ...(join ? { through: join } : {}) }
+  }
+  return null
+}
+
+/**
+ * Build the schema from the design's data models
+ */
+export function buildDatabaseSchema(design: DesignData): DatabaseSchema {
+  const issues: SchemaIssue[] = []
+  const models = new Map<string, DataModel>()
+  for (const model of design.dataModels) {
+    const name = pascalCase(model.name)
+    if (!name) continue
+    if (models.has(name)) {
+      issues.push({ model: model.name, message: `Data model ${model.name} is defined more than once - only the first is used` })
+      continue
+    }
+    models.set(name, model)
+  }
+
+  const tableName = (model: string) => pluralize(snakeCase(model))
+  const tables = new Map<string, SchemaTable>()
+
+  // Columns first - primary keys have to be known before anything can reference them
+  for (const [name, model] of models) {
+    const columns: SchemaColumn[] = []
+    for (const field of model.fields) {
+      const parsed = parseFieldType(field.type, models, field.name)
+      if (parsed.unknownModel) {
+        issues.push({
+          model: name,
+          message: `Field ${field.name} has type ${parsed.unknownModel}, which isn't a data model - it's stored as JSON`,
+        })
+      }
+      // A list of another model is the other side of a one-to-many - the foreign key lives there
+      if (parsed.model && parsed.array) continue
+
+      const columnField = columnFieldName(field.name, Boolean(parsed.model))
+      columns.push({
+        name: snakeCase(columnField),
+        field: columnField,
+        type: parsed.type,
+        ...(parsed.enumValues ? { enumValues: parsed.enumValues } : {}),
+        array: parsed.array,
+        nullable: parsed.nullable,
+        unique: /\bunique\b/i.test(`${field.type} ${field.description}`),
+        ...(field.description ? { description: field.description } : {}),
+      })
+    }
+
+    // Every table gets a primary key - the design's "id" field if it has one
+    const described = model.fields.find(field => /\b(primary key|pk)\b/i.test(`${field.type} ${field.description}`))
+    let primaryKey = columns.find(column => column.name === snakeCase(described?.name ?? "id"))
+    if (!primaryKey) {
+      primaryKey = { name: "id", field: "id", type: "uuid", array: false, nullable: false, unique: false }
+      columns.unshift(primaryKey)
+    }
+    primaryKey.nullable = false
+
+    tables.set(name, { name: tableName(name), model: name, columns, primaryKey: [primaryKey.name], joinTable: false })
+  }
+
+  const primaryKeyOf = (model: string) => {
+    const table = tables.get(model)!
+    return table.columns.find(column => column.name === table.primaryKey[0])!
+  }
+
+  // Add a foreign key column from one model to another, unless there already is one
+  const addForeignKey = (from: string, to: string, options: { field?: string; unique?: boolean; nullable?: boolean } = {}) => {
+    const table = tables.get(from)!
+    const target = tables.get(to)!
+    if (table.columns.some(column => column.references?.table === target.name && !options.field)) return
+
+    const field = options.field ?? `${camelCase(to)}Id`
+    const pk = primaryKeyOf(to)
+    const existing = table.columns.find(column => column.name === snakeCase(field))
+    if (existing) {
+      // "userId: uuid" - a plain column that turns out to be the foreign key
+      existing.references = { table: target.name, column: pk.name }
+      existing.type = pk.type
+      if (options.unique) existing.unique = true
+      return
+    }
+    table.columns.push({
+      name: snakeCase(field),
+      field,
+      type: pk.type,
+      array: false,
+      nullable: options.nullable ?? false,
+      unique: options.unique ?? false,
+      references: { table: target.name, column: pk.name },
+    })
+  }
+
+  // Fields typed as another model, and "somethingId" fields named after one
+  for (const [name, model] of models) {
+    for (const field of model.fields) {
+      const parsed = parseFieldType(field.type, models, field.name)
+      if (parsed.array) continue
+      const target = parsed.model ?? (/^(.+?)_?id$/i.test(field.name) ? findModel(field.name.replace(/_?id$/i, ""), models) : undefined)
+      if (!target || (target === name && !parsed.model && /^id$/i.test(field.name))) continue
+      addForeignKey(name, target, { field: columnFieldName(field.name, Boolean(parsed.model)), nullable: parsed.nullable })
+    }
+  }
+
+  // Relationship sentences
+  const relations: Relation[] = []
+  for (const [name, model] of models) {
+    for (const sentence of model.relationships) {
+      const relation = parseRelationship(sentence, name, models)
+      if (!relation) {
+        issues.push({ model: name, message: `Couldn't tell what kind of relationship "${sentence}" is - no foreign key was added` })
+      } else if ("unknown" in relation) {
+        issues.push({ model: name, message: `Relationship "${sentence}" refers to ${relation.unknown || "a model"}, which isn't a data model` })
+      } else {
+        relations.push(relation)
+      }
+    }
+  }
+
+  // Both sides often describe the same relationship - the one that names its column or join table wins
+  const joinedPairs = new Set<string>()
+  const joinTables = new Set<string>()
+  const named = (relation: Relation) => Boolean(relation.through || relation.field)
+  const ordered = [...relations].sort((x, y) => Number(named(y)) - Number(named(x)))
+  for (const relation of ordered) {
+    switch (relation.kind) {
+      case "one-to-many":
+        addForeignKey(relation.to, relation.from, { field: relation.field })
+        break
+      case "many-to-one":
+        addForeignKey(relation.from, relation.to, { field: relation.field })
+        break
+      case "one-to-one":
+        addForeignKey(relation.to, relation.from, { field: relation.field, unique: true })
+        break
+      case "many-to-many": {
+        const [a, b] = [relation.from, relation.to].sort()
+        if (joinedPairs.has(`${a}:${b}`)) break
+        joinedPairs.add(`${a}:${b}`)
+        const joinModel = relation.through ? (findModel(relation.through, models) ?? pascalCase(singularize(snakeCase(relation.through)))) : `${a}${b}`
+        // The join model may be a data model already - then it just needs its two foreign keys
+        if (tables.has(joinModel)) {
+          addForeignKey(joinModel, a)
+          addForeignKey(joinModel, b)
+          break
+        }
+        const joinName = relation.through ? snakeCase(relation.through) : `${tables.get(a)!.name}_${tables.get(b)!.name}`
+        if (joinTables.has(joinName)) break
+        joinTables.add(joinName)
+
+        const columns = [a, b].map((side): SchemaColumn => {
+          // Self-relations ("User many-to-many with User") need two different column names
+          const field = a === b && side === b ? `related${side}Id` : `${camelCase(side)}Id`
+          const pk = primaryKeyOf(side)
+          return {
+            name: snakeCase(field),
+            field,
+            type: pk.type,
+            array: false,
+            nullable: false,
+            unique: false,
+            references: { table: tables.get(side)!.name, column: pk.name },
+          }
+        })
+        tables.set(joinModel, {
+          name: joinName,
+          model: joinModel,
+          columns,
+          primaryKey: columns.map(column => column.name),
+          joinTable: true,
+        })
+        break
+      }
+    }
+  }
+
+  return { tables: Array.from(tables.values()), issues }
+}
@@ -0,0 +1,63 @@
+import type { ArchitectureDecision } from "../types/project"
+
+/**
+ * Architecture Decision Records
+ *
+ * Turns the decisions recorded from the design phase (see
+ * DecisionRecorderChain) into the usual ADR files - one numbered markdown
+ * file per decision, kept next to Design.md.
+ */
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "")
+
+/**
+ * File name in the usual ADR layout - "0003-use-postgresql-for-persistence.md"
+ */
+export function decisionRecordFileName(adr: ArchitectureDecision): string {
+  return `${String(adr.number).padStart(4, "0")}-${slugify(adr.title) || "decision"}.md`
+}
+
+/**
+ * One ADR as a markdown file
+ */
+export function formatDecisionRecord(adr: ArchitectureDecision): string {
+  const status = adr.status === "superseded" && adr.supersededBy
+    ? `Superseded by ADR ${adr.supersededBy}`
+    : adr.supersedes
+      ? `Accepted - supersedes ADR ${adr.supersedes}`
+      : adr.status === "superseded" ? "Superseded" : "Accepted"
+
+  const lines = [
+    `# ${adr.number}. ${adr.title}`,
+    "",
+    `- **Status:** ${status}`,
+    `- **Date:** ${new Date(adr.recordedAt).toISOString().slice(0, 10)}`,
+    `- **Design version:** ${adr.designVersion}`,
+    "",
+    "## Context",
+    "",
+    adr.context,
+    "",
+    "## Options Considered",
+    "",
+    ...(adr.options.length > 0
+      ? adr.options.map(option => `- **${option.name}**${option.summary ? ` - ${option.summary}` : ""}`)
+      : ["- (not recorded)"]),
+    "",
+    "## Decision",
+    "",
+    adr.decision,
+    "",
+    "## Consequences",
+    "",
+    ...(adr.consequences.length > 0 ? adr.consequences.map(consequence => `- ${consequence}`) : ["- (not recorded)"]),
+  ]
+
+  return lines.join("\n") + "\n"
+}
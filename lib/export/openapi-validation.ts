@@ -0,0 +1,18 @@
+import { Validator } from "@seriousme/openapi-schema-validator"
+import type { OpenAPIV3_1 } from "openapi-types"
+
+/**
+ * Check a spec against the official OpenAPI 3.1 JSON Schema, locally.
+ * Returns the problems found - an empty list means the spec is valid.
+ */
+export async function validateOpenApiSpec(spec: OpenAPIV3_1.Document): Promise<string[]> {
+  // The validator resolves $refs in place, so it gets its own copy
+  const result = await new Validator().validate(structuredClone(spec) as unknown as Record<string, unknown>)
+  if (result.valid) {
+    return []
+  }
+  if (typeof result.errors === "string") {
+    return [result.errors]
+  }
+  return (result.errors ?? []).map(error => `${error.instancePath || "/"}: ${error.message ?? error.keyword}`)
+}
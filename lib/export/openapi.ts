@@ -0,0 +1,337 @@
+import type { OpenAPIV3_1 } from "openapi-types"
+import { stringify } from "yaml"
+import type { DesignData } from "../types/project"
+import { pascalCase } from "./db-schema"
+
+/**
+ * OpenAPI Export
+ *
+ * Turns `DesignData.apiDesign` into an OpenAPI 3.1 document, with no model call:
+ * - every endpoint becomes an operation, with path parameters from `:id`,
+ *   `<id>` or `{id}` segments; paths that only differ in parameter names
+ *   ("/users/:id", "/users/{userId}") share one path item
+ * - every data model becomes a schema in `components.schemas`, and request
+ *   and response descriptions that name a model point at it
+ * - `authentication` is mapped to security schemes by keyword (JWT/bearer,
+ *   API key, OAuth, basic, session cookie)
+ *
+ * Field types are free text from the design, so they're mapped by keyword -
+ * anything unrecognised becomes a string with the original type in its description.
+ */
+
+export interface OpenApiExport {
+  spec: OpenAPIV3_1.Document
+  // Endpoints or fields that couldn't be mapped cleanly
+  warnings: string[]
+}
+
+export const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"] as const
+type HttpMethod = (typeof HTTP_METHODS)[number]
+
+// Bearer tokens go first - "JWT via OAuth" is a bearer token to the API
+const SECURITY_SCHEMES: Array<[RegExp, string, OpenAPIV3_1.SecuritySchemeObject]> = [
+  [/\b(jwt|bearer|access token)\b/i, "bearerAuth", { type: "http", scheme: "bearer", bearerFormat: "JWT" }],
+  [/\bapi[\s-]?keys?\b/i, "apiKeyAuth", { type: "apiKey", in: "header", name: "X-API-Key" }],
+  [/\bbasic\b/i, "basicAuth", { type: "http", scheme: "basic" }],
+  [/\b(session|cookie)s?\b/i, "cookieAuth", { type: "apiKey", in: "cookie", name: "session" }],
+  [
+    /\b(oauth\s*2?|openid|sso)\b/i,
+    "oauth2",
+    {
+      type: "oauth2",
+      description: "Replace the placeholder URLs with your identity provider's",
+      flows: {
+        authorizationCode: {
+          authorizationUrl: "https://auth.example.com/oauth/authorize",
+          tokenUrl: "https://auth.example.com/oauth/token",
+          scopes: {},
+        },
+      },
+    },
+  ],
+]
+
+// Paths that are public even when the API has authentication
+const PUBLIC_PATH = /\/(login|signin|sign-in|register|signup|sign-up|health|status|forgot-password|reset-password)\b/i
+
+// Component names must match ^[a-zA-Z0-9._-]+$
+const schemaName = (name: string) => name.replace(/[^a-zA-Z0-9._-]+/g, "") || "Model"
+
+const schemaRef = (name: string): OpenAPIV3_1.ReferenceObject => ({ $ref: `#/components/schemas/${schemaName(name)}` })
+
+// Models named in a piece of text, longest name first so "OrderItem" wins over "Order"
+// Both sides go through pascalCase, so "Blog Post", "blog_posts" and "BlogPost" all match
+function findModel(text: string, modelNames: string[]): string | undefined {
+  const words = pascalCase(text)
+  return [...modelNames]
+    .sort((a, b) => pascalCase(b).length - pascalCase(a).length)
+    .find(name => {
+      const model = pascalCase(name)
+      return model !== "" && new RegExp(`${model}(e?s)?(?![a-z0-9])`).test(words)
+    })
+}
+
+// Whether a response describes a collection rather than one item
+const describesList = (text: string) => /\b(list|array|collection|all|paginated|page of)\b|\[\]/i.test(text)
+
+/**
+ * Schema for a free-text field type - "uuid", "string?", "Decimal(10,2)", "Order[]", "enum(draft, sent)"
+ */
+function fieldSchema(rawType: string, modelNames: string[]): { schema: OpenAPIV3_1.SchemaObject | OpenAPIV3_1.ReferenceObject; optional: boolean } {
+  let type = rawType.trim()
+  const optional = /\?$|\boptional\b|\bnullable\b|\|\s*null\b/i.test(type)
+  type = type.replace(/\?$/, "").replace(/\b(optional|nullable)\b/gi, "").replace(/\|\s*null\b/gi, "").trim()
+
+  // Arrays: "X[]", "Array<X>", "list of X"
+  const array = /^(.+)\[\]$/.exec(type) ?? /^(?:array|list)\s*<(.+)>$/i.exec(type) ?? /^(?:array|list)\s+of\s+(.+)$/i.exec(type)
+  if (array) {
+    return { schema: { type: "array", items: fieldSchema(array[1], modelNames).schema }, optional }
+  }
+
+  const enumValues = /^enum\s*[(<[](.+)[)>\]]$/i.exec(type)
+  if (enumValues) {
+    const values = enumValues[1].split(/[,|]/).map(value => value.trim().replace(/^['"]|['"]$/g, "")).filter(Boolean)
+    return { schema: { type: "string", enum: values }, optional }
+  }
+
+  const model = modelNames.find(name => pascalCase(name) === pascalCase(type))
+  if (model) {
+    return { schema: schemaRef(model), optional }
+  }
+
+  const lower = type.toLowerCase()
+  const schema: OpenAPIV3_1.SchemaObject =
+    /^(uuid|guid)\b/.test(lower) ? { type: "string", format: "uuid" }
+    : /\bemail\b/.test(lower) ? { type: "string", format: "email" }
+    : /\b(url|uri)\b/.test(lower) ? { type: "string", format: "uri" }
+    : /\b(datetime|timestamp|timestamptz|instant)\b/.test(lower) ? { type: "string", format: "date-time" }
+    : /^date\b/.test(lower) ? { type: "string", format: "date" }
+    : /^time\b/.test(lower) ? { type: "string", format: "time" }
+    : /^(bigint|int64|long)\b/.test(lower) ? { type: "integer", format: "int64" }
+    : /^(int|integer|int32|smallint|serial|bigserial)\b/.test(lower) ? { type: "integer" }
+    : /^(float|double|decimal|number|numeric|real|money)\b/.test(lower) ? { type: "number" }
+    : /^(bool|boolean)\b/.test(lower) ? { type: "boolean" }
+    : /^(json|jsonb|object|map|record)\b/.test(lower) ? { type: "object" }
+    : /^(string|text|varchar|char|citext)\b/.test(lower) ? { type: "string" }
+    : { type: "string", description: `Design type: ${rawType}` }
+  return { schema, optional }
+}
+
+function modelSchemas(design: DesignData, warnings: string[]): Record<string, OpenAPIV3_1.SchemaObject> {
+  const modelNames = design.dataModels.map(model => model.name)
+  const schemas: Record<string, OpenAPIV3_1.SchemaObject> = {}
+
+  for (const model of design.dataModels) {
+    const name = schemaName(model.name)
+    if (schemas[name]) {
+      warnings.push(`Data model ${model.name} is defined more than once - only the first is in the spec`)
+      continue
+    }
+
+    const properties: Record<string, OpenAPIV3_1.SchemaObject | OpenAPIV3_1.ReferenceObject> = {}
+    const required: string[] = []
+    for (const field of model.fields) {
+      const { schema, optional } = fieldSchema(field.type, modelNames)
+      // A $ref can't carry a description in a way every tool shows, so wrap it
+      properties[field.name] = field.description
+        ? "$ref" in schema ? { allOf: [schema], description: field.description } : { ...schema, description: field.description }
+        : schema
+      if (!optional) required.push(field.name)
+    }
+
+    schemas[name] = {
+      type: "object",
+      ...(model.relationships.length > 0 ? { description: `Relationships: ${model.relationships.join("; ")}` } : {}),
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    }
+  }
+
+  return schemas
+}
+
+/**
+ * A path in OpenAPI form, plus its query parameter names.
+ * "/api/users/:id?include=posts" → "/api/users/{id}", ["include"]
+ */
+function normalizePath(raw: string): { path: string; queryParams: string[] } {
+  const [pathPart, query = ""] = raw.trim().split("?")
+  const segments = pathPart
+    .split("/")
+    .filter(Boolean)
+    .map(segment => segment.replace(/^:(\w+)$/, "{$1}").replace(/^<(?:\w+:)?(\w+)>$/, "{$1}").replace(/^\[(\w+)\]$/, "{$1}"))
+  const path = `/${segments.join("/")}`
+  const queryParams = query
+    .split("&")
+    .map(param => param.split("=")[0].trim())
+    .filter(param => /^\w+$/.test(param))
+  return { path, queryParams }
+}
+
+// getUsers, getUsersById, postOrdersItems...
+function operationId(method: HttpMethod, path: string, used: Set<string>): string {
+  const words = path
+    .split("/")
+    .filter(segment => segment && segment !== "api" && !/^v\d+$/.test(segment))
+    .map(segment => {
+      const param = /^\{(\w+)\}$/.exec(segment)
+      return param ? `By ${param[1]}` : segment
+    })
+    .join(" ")
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+  const base = method + words.map(word => word[0].toUpperCase() + word.slice(1)).join("")
+  let id = base
+  for (let n = 2; used.has(id); n++) id = `${base}${n}`
+  used.add(id)
+  return id
+}
+
+// The resource a path is about - "/api/v1/orders/{id}/items" → "orders"
+const pathTag = (path: string) =>
+  path.split("/").find(segment => segment && segment !== "api" && !/^v\d+$/.test(segment) && !segment.startsWith("{"))
+
+const firstSentence = (text: string) => {
+  const sentence = text.trim().split(/(?<=[.!?])\s/)[0]
+  return sentence.length > 120 ? `${sentence.slice(0, 117)}...` : sentence
+}
+
+function bodySchema(
+  text: string,
+  modelNames: string[]
+): OpenAPIV3_1.SchemaObject | OpenAPIV3_1.ReferenceObject {
+  const model = findModel(text, modelNames)
+  if (!model) {
+    return { type: "object", description: text }
+  }
+  return describesList(text) ? { type: "array", items: schemaRef(model) } : schemaRef(model)
+}
+
+/**
+ * Build the OpenAPI document for a design
+ */
+export function buildOpenApiSpec(design: DesignData, projectName: string): OpenApiExport {
+  const warnings: string[] = []
+  const modelNames = design.dataModels.map(model => model.name)
+  const schemas = modelSchemas(design, warnings)
+
+  // Security schemes named in the authentication description - any one of them will do
+  const authentication = design.apiDesign.authentication?.trim() ?? ""
+  const securitySchemes: Record<string, OpenAPIV3_1.SecuritySchemeObject> = {}
+  if (authentication && !/^(none|no|n\/a)\b/i.test(authentication)) {
+    for (const [pattern, name, scheme] of SECURITY_SCHEMES) {
+      if (pattern.test(authentication)) securitySchemes[name] = scheme
+    }
+    if (Object.keys(securitySchemes).length === 0) {
+      warnings.push(`Authentication "${authentication}" doesn't map to a known security scheme - it's only described in the spec`)
+    }
+  }
+  const security = Object.keys(securitySchemes).map(name => ({ [name]: [] as string[] }))
+
+  const paths: OpenAPIV3_1.PathsObject = {}
+  const usedIds = new Set<string>()
+  // Parameter names for each path template - the first endpoint on a path names them
+  const templateParams = new Map<string, string[]>()
+  for (const endpoint of design.apiDesign.endpoints) {
+    const method = endpoint.method.trim().toLowerCase() as HttpMethod
+    if (!HTTP_METHODS.includes(method)) {
+      warnings.push(`Skipped ${endpoint.method} ${endpoint.path}: "${endpoint.method}" isn't an HTTP method`)
+      continue
+    }
+
+    const normalized = normalizePath(endpoint.path)
+    const { queryParams } = normalized
+    // "/users/{id}" and "/users/{userId}" are the same path to OpenAPI
+    const template = normalized.path.replace(/\{\w+\}/g, "{}")
+    const names = Array.from(normalized.path.matchAll(/\{(\w+)\}/g), match => match[1])
+    const canonical = templateParams.get(template) ?? names
+    templateParams.set(template, canonical)
+    let position = 0
+    const path = normalized.path.replace(/\{\w+\}/g, () => `{${canonical[position++]}}`)
+    const pathParams = Array.from(new Set(canonical))
+    if (path !== normalized.path) {
+      warnings.push(`Renamed the path parameters of ${endpoint.method.toUpperCase()} ${endpoint.path} to match ${path}`)
+    }
+    // Typed by method - openapi-types can't take a write through a union of method keys
+    const item = (paths[path] ??= {}) as Partial<Record<HttpMethod, OpenAPIV3_1.OperationObject>>
+    if (item[method]) {
+      warnings.push(`Skipped a second ${method.toUpperCase()} ${path} - only the first is in the spec`)
+      continue
+    }
+
+    const parameters: OpenAPIV3_1.ParameterObject[] = [
+      ...pathParams.map(name => ({ name, in: "path", required: true, schema: { type: "string" as const } })),
+      ...queryParams.map(name => ({ name, in: "query", required: false, schema: { type: "string" as const } })),
+    ]
+
+    const status = method === "post" ? "201" : "200"
+    const responses: OpenAPIV3_1.ResponsesObject = {
+      [status]: {
+        description: endpoint.response || "Success",
+        ...(endpoint.response && findModel(endpoint.response, modelNames)
+          ? { content: { "application/json": { schema: bodySchema(endpoint.response, modelNames) } } }
+          : {}),
+      },
+    }
+
+    const isPublic = PUBLIC_PATH.test(path)
+    if (security.length > 0 && !isPublic) {
+      responses["401"] = { description: "Missing or invalid credentials" }
+    }
+
+    const tag = pathTag(path)
+    const operation: OpenAPIV3_1.OperationObject = {
+      operationId: operationId(method, path, usedIds),
+      summary: firstSentence(endpoint.description),
+      description: endpoint.description,
+      ...(tag ? { tags: [tag] } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(endpoint.requestBody
+        ? {
+            requestBody: {
+              required: true,
+              content: { "application/json": { schema: bodySchema(endpoint.requestBody, modelNames) } },
+            },
+          }
+        : {}),
+      responses,
+      // Login, sign-up and health checks have to work without credentials
+      ...(security.length > 0 && isPublic ? { security: [] } : {}),
+    }
+    item[method] = operation
+  }
+
+  const description = [
+    design.architecture.overview,
+    authentication ? `Authentication: ${authentication}` : "",
+    design.apiDesign.rateLimit ? `Rate limits: ${design.apiDesign.rateLimit}` : "",
+  ].filter(Boolean).join("\n\n")
+
+  const spec: OpenAPIV3_1.Document = {
+    openapi: "3.1.0",
+    info: {
+      title: `${projectName} API`,
+      version: `${design.metadata.version}.0.0`,
+      ...(description ? { description } : {}),
+    },
+    paths,
+    components: {
+      schemas,
+      ...(Object.keys(securitySchemes).length > 0 ? { securitySchemes } : {}),
+    },
+    ...(security.length > 0 ? { security } : {}),
+  }
+
+  const tags = Array.from(new Set(Object.values(paths).flatMap(item =>
+    HTTP_METHODS.flatMap(method => item?.[method]?.tags ?? [])
+  )))
+  if (tags.length > 0) {
+    spec.tags = tags.map(name => ({ name }))
+  }
+
+  return { spec, warnings }
+}
+
+export const formatOpenApiJson = (spec: OpenAPIV3_1.Document) => JSON.stringify(spec, null, 2) + "\n"
+
+export const formatOpenApiYaml = (spec: OpenAPIV3_1.Document) => stringify(spec, { aliasDuplicateObjects: false })
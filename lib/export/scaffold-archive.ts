@@ -0,0 +1,14 @@
+import JSZip from "jszip"
+import type { Scaffold } from "./scaffold"
+
+/**
+ * Zip a scaffold up, with every file under the repository's root folder
+ */
+export async function buildScaffoldArchive(scaffold: Scaffold): Promise<ArrayBuffer> {
+  const zip = new JSZip()
+  const root = zip.folder(scaffold.root)!
+  for (const file of scaffold.files) {
+    root.file(file.path, file.content)
+  }
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" })
+}
@@ -0,0 +1,349 @@
+import type { OpenAPIV3_1 } from "openapi-types"
+import { buildTraceabilityMatrix } from "../analysis/traceability"
+import type { DesignData, ProjectSession, TasksData } from "../types/project"
+import { buildDatabaseSchema, camelCase, pascalCase, snakeCase, type SchemaColumn } from "./db-schema"
+import { buildDatabaseSchemaFiles } from "./db-schema-formats"
+import { decisionRecordFileName, formatDecisionRecord } from "./decision-records"
+import { buildOpenApiSpec, formatOpenApiYaml, HTTP_METHODS } from "./openapi"
+
+/**
+ * Project Scaffold
+ *
+ * Lays out a starter repository from the session's structured documents, with
+ * no model call:
+ * - src/components/ - a stub module per `architecture.components` entry,
+ *   noting its responsibility, dependencies and the tasks that build it
+ * - src/routes/ - a handler per API endpoint, grouped by resource, plus a
+ *   route table
+ * - src/models/ - a type per `dataModels` entry
+ * - db/ and prisma/ - the database schemas from db-schema-formats.ts
+ * - docs/ - Requirements.md, Design.md, Tasks.md, the ADRs and openapi.yaml
+ * - README.md built from the requirements
+ *
+ * scaffold-archive.ts zips the files up for download.
+ */
+
+export interface ScaffoldFile {
+  // Relative to the repository root, e.g. "src/models/user.ts"
+  path: string
+  content: string
+}
+
+export interface Scaffold {
+  // Folder name for the repository - the project name in kebab-case
+  root: string
+  files: ScaffoldFile[]
+}
+
+// What the chat shows for a scaffold - the archive itself comes from /api/scaffold
+export interface ScaffoldSummary {
+  url: string
+  root: string
+  paths: string[]
+}
+
+export const kebabCase = (text: string) => snakeCase(text).replace(/_/g, "-")
+
+// Names that can't be used as-is for a file or export get a suffix - "order-service-2"
+function uniqueNames<T>(items: T[], name: (item: T) => string): string[] {
+  const used = new Set<string>()
+  return items.map(item => {
+    const base = name(item) || "module"
+    let unique = base
+    for (let n = 2; used.has(unique); n++) unique = `${base}-${n}`
+    used.add(unique)
+    return unique
+  })
+}
+
+// Block comment lines, safe to put inside /** */
+const commentLines = (text: string) => text.replace(/\*\//g, "* /").split("\n").map(line => ` *${line ? ` ${line}` : ""}`)
+
+/**
+ * Whether the session has everything the scaffold is built from
+ */
+export function canScaffold(session: ProjectSession): session is ProjectSession & { design: DesignData; tasks: TasksData } {
+  return Boolean(session.design && session.tasks && session.documents.design && session.documents.tasks)
+}
+
+function readme(session: ProjectSession & { design: DesignData; tasks: TasksData }, componentDirs: string[]): string {
+  const { requirements, design, tasks } = session
+  const lines = [`# ${session.projectName}`, ""]
+
+  lines.push(requirements?.description || design.architecture.overview, "")
+
+  if (requirements && requirements.features.length > 0) {
+    lines.push("## Features", "", ...requirements.features.map(feature => `- ${feature}`), "")
+  }
+  if (requirements?.targetAudience) {
+    lines.push("## Who It's For", "", requirements.targetAudience, "")
+  }
+
+  const stack = requirements
+    ? Object.entries(requirements.techStack).filter(([, choices]) => choices && choices.length > 0).map(([layer, choices]) => [layer, choices!.join(", ")])
+    : []
+  const technology = stack.length > 0
+    ? stack
+    : Object.entries(design.technologyChoices).filter(([layer, choice]) => layer !== "rationale" && choice)
+  if (technology.length > 0) {
+    lines.push("## Tech Stack", "", ...technology.map(([layer, choice]) => `- **${layer[0].toUpperCase()}${layer.slice(1)}:** ${choice}`), "")
+  }
+
+  if (requirements && requirements.constraints.length > 0) {
+    lines.push("## Constraints", "", ...requirements.constraints.map(constraint => `- ${constraint}`), "")
+  }
+
+  lines.push("## Project Layout", "")
+  if (design.architecture.components.length > 0) {
+    lines.push("- `src/components/` - one module per architecture component")
+    design.architecture.components.forEach((component, index) => {
+      lines.push(`  - \`${componentDirs[index]}/\` - ${component.name}: ${component.responsibility}`)
+    })
+  }
+  if (design.apiDesign.endpoints.length > 0) {
+    lines.push("- `src/routes/` - a handler per API endpoint, listed in `src/routes/index.ts` (contract in `docs/openapi.yaml`)")
+  }
+  if (design.dataModels.length > 0) {
+    lines.push("- `src/models/` - a type per data model")
+    lines.push("- `db/` and `prisma/` - the database schema as PostgreSQL, SQLite, Prisma and Drizzle")
+  }
+  lines.push("- `docs/` - the requirements, design and task list this repository was planned from, and the architecture decisions", "")
+
+  lines.push("## Getting Started", "", "Work through `docs/Tasks.md` in order - each task lists what it depends on and how to tell it's done.")
+  const first = [...tasks.tasks].sort((a, b) => a.order - b.order).slice(0, 5)
+  if (first.length > 0) {
+    lines.push("", "First up:", "", ...first.map(task => `1. **${task.id}** ${task.title}`))
+  }
+  if (tasks.totalEstimate) {
+    lines.push("", `Estimated total: ${tasks.totalEstimate}`)
+  }
+  lines.push("")
+  return lines.join("\n")
+}
+
+function componentModule(component: DesignData["architecture"]["components"][number], tasks: TasksData, taskIds: string[]): string {
+  const name = pascalCase(component.name) || "Component"
+  const lines = ["/**", ...commentLines(component.name), " *", ...commentLines(component.responsibility)]
+  if (component.dependencies.length > 0) {
+    lines.push(" *", ` * Depends on: ${component.dependencies.join(", ")}`)
+  }
+  const building = tasks.tasks.filter(task => taskIds.includes(task.id))
+  if (building.length > 0) {
+    lines.push(" *", " * Built by:", ...building.map(task => ` * - ${task.id}: ${task.title}`))
+  }
+  lines.push(
+    " */",
+    "",
+    `export function create${name}() {`,
+    `  throw new Error(${JSON.stringify(`${component.name} is not implemented yet`)})`,
+    "}",
+    ""
+  )
+  return lines.join("\n")
+}
+
+const TS_TYPES: Record<SchemaColumn["type"], string> = {
+  uuid: "string",
+  string: "string",
+  text: "string",
+  integer: "number",
+  bigint: "number",
+  // Kept as a string so no precision is lost on the way in or out
+  decimal: "string",
+  float: "number",
+  boolean: "boolean",
+  date: "string",
+  datetime: "Date",
+  time: "string",
+  json: "unknown",
+  enum: "string",
+}
+
+function columnType(column: SchemaColumn): string {
+  const base = column.type === "enum" && column.enumValues?.length
+    ? column.enumValues.map(value => JSON.stringify(value)).join(" | ")
+    : TS_TYPES[column.type]
+  const type = column.array ? (base.includes("|") ? `Array<${base}>` : `${base}[]`) : base
+  return column.nullable ? `${type} | null` : type
+}
+
+function modelFiles(design: DesignData): ScaffoldFile[] {
+  const tables = buildDatabaseSchema(design).tables.filter(table => !table.joinTable)
+  const models = new Map(design.dataModels.map(model => [pascalCase(model.name), model]))
+  const fileNames = uniqueNames(tables, table => kebabCase(table.model))
+
+  const files = tables.map((table, index): ScaffoldFile => {
+    const relationships = models.get(table.model)?.relationships ?? []
+    const lines = ["/**", ` * ${table.model} - stored in the \`${table.name}\` table`]
+    if (relationships.length > 0) {
+      lines.push(" *", " * Relationships:", ...relationships.map(relationship => ` * - ${relationship.replace(/\*\//g, "* /")}`))
+    }
+    lines.push(" */", `export interface ${table.model} {`)
+    for (const column of table.columns) {
+      if (column.description) lines.push(`  /** ${column.description.replace(/\*\//g, "* /").replace(/\s+/g, " ")} */`)
+      lines.push(`  ${column.field}: ${columnType(column)}`)
+    }
+    lines.push("}", "")
+    return { path: `src/models/${fileNames[index]}.ts`, content: lines.join("\n") }
+  })
+
+  if (files.length > 0) {
+    files.push({
+      path: "src/models/index.ts",
+      content: tables.map((table, index) => `export type { ${table.model} } from "./${fileNames[index]}"`).join("\n") + "\n",
+    })
+  }
+  return files
+}
+
+function routeFiles(spec: OpenAPIV3_1.Document): ScaffoldFile[] {
+  const operations = Object.entries(spec.paths ?? {}).flatMap(([path, item]) =>
+    HTTP_METHODS.flatMap(method => {
+      const operation = item?.[method]
+      return operation ? [{ path, method, operation }] : []
+    })
+  )
+  if (operations.length === 0) return []
+
+  // One file per resource - "/api/orders/{id}/items" goes in orders.ts
+  const byResource = new Map<string, typeof operations>()
+  for (const entry of operations) {
+    // index.ts is the route table
+    const resource = (kebabCase(entry.operation.tags?.[0] ?? "") || "root").replace(/^index$/, "index-routes")
+    byResource.set(resource, [...(byResource.get(resource) ?? []), entry])
+  }
+
+  const files: ScaffoldFile[] = []
+  const table: string[] = []
+  const imports: string[] = []
+  for (const [resource, entries] of byResource) {
+    const module = camelCase(resource)
+    imports.push(`import * as ${module} from "./${resource}"`)
+
+    const handlers = entries.map(({ path, method, operation }) => {
+      // "DELETE /" would be a function called delete
+      const handler = (operation.operationId ?? `${method}${pascalCase(path)}`).replace(/^delete$/, "deleteRoot")
+      table.push(`  { method: "${method.toUpperCase()}", path: ${JSON.stringify(path)}, handler: ${module}.${handler} },`)
+
+      const params = Array.from(path.matchAll(/\{(\w+)\}/g), match => match[1])
+      const signature = params.length > 0
+        ? `request: Request, params: { ${params.map(param => `${param}: string`).join("; ")} }`
+        : "request: Request"
+      const response = Object.values(operation.responses ?? {})[0]
+      const lines = ["/**", ` * ${method.toUpperCase()} ${path}`]
+      if (operation.description) lines.push(" *", ...commentLines(operation.description))
+      if (response && "description" in response && response.description) {
+        lines.push(" *", ...commentLines(`Responds with: ${response.description}`))
+      }
+      lines.push(
+        " */",
+        `export async function ${handler}(${signature}): Promise<Response> {`,
+        `  return Response.json({ error: "Not implemented" }, { status: 501 })`,
+        "}"
+      )
+      return lines.join("\n")
+    })
+    files.push({ path: `src/routes/${resource}.ts`, content: handlers.join("\n\n") + "\n" })
+  }
+
+  files.push({
+    path: "src/routes/index.ts",
+    content: [
+      ...imports,
+      "",
+      "// Every endpoint in docs/openapi.yaml - wire these into the framework's router",
+      "export const routes = [",
+      ...table,
+      "]",
+      "",
+    ].join("\n"),
+  })
+  return files
+}
+
+/**
+ * Lay out the starter repository for a session that has Design.md and Tasks.md
+ */
+export function buildScaffold(session: ProjectSession): Scaffold {
+  if (!canScaffold(session)) {
+    throw new Error("Design.md and Tasks.md must be generated before the project can be scaffolded")
+  }
+  const { design, tasks, documents } = session
+  const root = kebabCase(session.projectName) || "project"
+  const files: ScaffoldFile[] = []
+
+  const componentDirs = uniqueNames(design.architecture.components, component => kebabCase(component.name))
+  files.push({ path: "README.md", content: readme(session, componentDirs) })
+
+  files.push(
+    {
+      path: "package.json",
+      content: JSON.stringify(
+        {
+          name: root,
+          version: "0.1.0",
+          private: true,
+          type: "module",
+          scripts: { typecheck: "tsc --noEmit" },
+          devDependencies: { typescript: "^5" },
+        },
+        null,
+        2
+      ) + "\n",
+    },
+    {
+      path: "tsconfig.json",
+      content: JSON.stringify(
+        {
+          compilerOptions: {
+            target: "ES2022",
+            module: "ESNext",
+            moduleResolution: "Bundler",
+            lib: ["ES2022", "DOM"],
+            strict: true,
+            skipLibCheck: true,
+            noEmit: true,
+          },
+          include: ["src"],
+        },
+        null,
+        2
+      ) + "\n",
+    },
+    { path: ".gitignore", content: "node_modules\ndist\n.env\n" }
+  )
+
+  // The components each task builds, by the same word matching as the traceability matrix
+  const taskIds = new Map<string, string[]>()
+  if (session.requirements) {
+    const matrix = buildTraceabilityMatrix(session.requirements, design, tasks)
+    for (const component of [...matrix.rows.flatMap(row => row.components), ...matrix.unlinkedComponents]) {
+      taskIds.set(component.name, component.taskIds)
+    }
+  }
+  design.architecture.components.forEach((component, index) => {
+    files.push({
+      path: `src/components/${componentDirs[index]}/index.ts`,
+      content: componentModule(component, tasks, taskIds.get(component.name) ?? []),
+    })
+  })
+
+  if (design.apiDesign.endpoints.length > 0) {
+    const { spec } = buildOpenApiSpec(design, session.projectName)
+    files.push(...routeFiles(spec))
+    files.push({ path: "docs/openapi.yaml", content: formatOpenApiYaml(spec) })
+  }
+
+  if (design.dataModels.length > 0) {
+    files.push(...modelFiles(design))
+    files.push(...buildDatabaseSchemaFiles(design).files.map(({ path, content }) => ({ path, content })))
+  }
+
+  if (documents.requirements) files.push({ path: "docs/Requirements.md", content: documents.requirements })
+  files.push({ path: "docs/Design.md", content: documents.design! }, { path: "docs/Tasks.md", content: documents.tasks! })
+  for (const adr of session.decisions ?? []) {
+    files.push({ path: `docs/adr/${decisionRecordFileName(adr)}`, content: formatDecisionRecord(adr) })
+  }
+
+  return { root, files }
+}
@@ -0,0 +1,119 @@
+import { scoreRequirementsCoverage } from "../analysis/requirements-coverage"
+import type { TracerMemoryManager } from "../memory/session-manager"
+import type { ProjectSession } from "../types/project"
+import { QUESTION_BANK, type InterviewQuestion } from "./question-bank"
+
+/**
+ * Interview Planner
+ *
+ * Decides what the agent should ask next, so every interview covers the same
+ * ground and never repeats itself. Each turn:
+ * 1. The next applicable, unasked question is picked from the bank - follow-ups
+ *    to the last question first, in order
+ * 2. The agent gets it as guidance, along with the question still waiting for an
+ *    answer - the agent saves answers itself with the record_answer tool
+ * 3. Once the turn is over the question is recorded as asked
+ */
+
+// What the planner hands the agent for one turn
+export interface PlannedQuestion {
+  question: string
+  template: InterviewQuestion
+  isFollowUp: boolean
+}
+
+// One turn's plan - call completeTurn with it once the agent has replied
+export interface InterviewTurn {
+  guidance: string
+  planned: PlannedQuestion | null
+}
+
+// The template a question comes from, whether it's the main question or one of its follow-ups
+function findTemplate(bank: InterviewQuestion[], question: string): InterviewQuestion | undefined {
+  return bank.find(template => template.question === question || template.followUpQuestions?.includes(question))
+}
+
+/**
+ * The question we asked most recently that still has no answer.
+ * Questions from an earlier phase don't count - that interview is over.
+ */
+export function getPendingQuestion(session: ProjectSession, bank: InterviewQuestion[] = QUESTION_BANK): string | null {
+  const last = session.questionsAsked[session.questionsAsked.length - 1]
+  if (!last || last in session.userAnswers) return null
+  const template = findTemplate(bank, last)
+  return !template || template.phase === session.currentPhase ? last : null
+}
+
+/**
+ * Pick the next question for the session's current phase, or null if we've run out
+ */
+export function getNextQuestion(
+  session: ProjectSession,
+  bank: InterviewQuestion[] = QUESTION_BANK
+): PlannedQuestion | null {
+  const asked = new Set(session.questionsAsked)
+
+  // Follow-ups come first - they only make sense right after their parent question or another follow-up
+  const lastAsked = session.questionsAsked[session.questionsAsked.length - 1]
+  const parent = lastAsked ? findTemplate(bank, lastAsked) : undefined
+  const followUp = parent?.phase === session.currentPhase
+    ? parent.followUpQuestions?.find(question => !asked.has(question))
+    : undefined
+  if (parent && followUp) {
+    return { question: followUp, template: parent, isFollowUp: true }
+  }
+
+  // Skip anything the user has already told us about without being asked
+  const coverage = session.currentPhase === "requirements" ? scoreRequirementsCoverage(session) : null
+  const covered = new Set(coverage?.categories.filter(category => category.covered).map(category => category.id))
+
+  const template = bank.find(template =>
+    template.phase === session.currentPhase &&
+    !asked.has(template.question) &&
+    (template.condition?.(session) ?? true) &&
+    !(template.covers.length > 0 && template.covers.every(category => covered.has(category)))
+  )
+
+  return template ? { question: template.question, template, isFollowUp: false } : null
+}
+
+/**
+ * Turn a planned question (and the one still waiting for an answer) into instructions for the agent
+ */
+export function formatQuestionGuidance(planned: PlannedQuestion | null, pending: string | null = null): string {
+  if (!planned && !pending) return ""
+  return [
+    "Interview guidance for this turn:",
+    pending ? `- If the user's message answers "${pending}", save it with record_answer, passing that question exactly.` : "",
+    planned ? `- After responding to the user, ask about: "${planned.question}"` : "",
+    planned?.isFollowUp ? "- This is a follow-up to their last answer, so keep it short." : "",
+    planned ? "- Rephrase it naturally in your own words and ask only this one question." : "",
+  ].filter(Boolean).join("\n")
+}
+
+export class InterviewPlanner {
+  constructor(
+    private memoryManager: TracerMemoryManager,
+    private bank: InterviewQuestion[] = QUESTION_BANK
+  ) {}
+
+  /**
+   * Plan this turn's question. The guidance is empty if there's nothing to ask or record.
+   */
+  prepareTurn(sessionId: string): InterviewTurn {
+    const session = this.memoryManager.getProjectSession(sessionId)
+    if (!session) return { guidance: "", planned: null }
+
+    const planned = getNextQuestion(session, this.bank)
+    return { guidance: formatQuestionGuidance(planned, getPendingQuestion(session, this.bank)), planned }
+  }
+
+  /**
+   * Record the turn's question as asked - only once the agent has actually replied
+   */
+  completeTurn(sessionId: string, turn: InterviewTurn): void {
+    if (turn.planned) {
+      this.memoryManager.addAskedQuestion(sessionId, turn.planned.question)
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import type { QuestionTemplate, ProjectSession } from "../types/project"
+import type { CoverageCategory } from "../analysis/requirements-coverage"
+
+/**
+ * Question Bank
+ *
+ * The questions Understand.AI works through during an interview, in the order
+ * we'd like to ask them. The planner picks the first one that applies and hasn't
+ * been asked yet - the agent phrases it naturally, but the topic comes from here.
+ */
+
+export interface InterviewQuestion extends QuestionTemplate {
+  // Requirements coverage categories this question fills in - once they're
+  // covered (even without asking) the question is skipped
+  covers: CoverageCategory[]
+}
+
+// True if anything the user said mentions one of the words
+const userMentioned = (session: ProjectSession, pattern: RegExp) =>
+  session.conversationHistory.some(msg => msg.role === "user" && pattern.test(msg.content)) ||
+  Object.values(session.userAnswers).some(answer => pattern.test(answer))
+
+export const QUESTION_BANK: InterviewQuestion[] = [
+  // PHASE 1: Requirements
+  {
+    id: "req-problem",
+    question: "What problem does the project solve, and what does success look like for it?",
+    category: "other",
+    phase: "requirements",
+    covers: [],
+    condition: session => session.conversationHistory.filter(msg => msg.role === "user").length <= 1,
+  },
+  {
+    id: "req-audience",
+    question: "Who are the main users, and how technical are they?",
+    category: "usage",
+    phase: "requirements",
+    covers: ["targetAudience"],
+  },
+  {
+    id: "req-features",
+    question: "What are the core features the first version must have?",
+    category: "features",
+    phase: "requirements",
+    covers: ["features"],
+    followUpQuestions: ["Which of those features is the most important to get right?"],
+  },
+  {
+    id: "req-techstack",
+    question: "Do you have a preferred tech stack for the frontend, backend and database?",
+    category: "techstack",
+    phase: "requirements",
+    covers: ["techStack"],
+    followUpQuestions: ["Where do you plan to deploy it?"],
+  },
+  {
+    id: "req-auth",
+    question: "Do users need accounts? If so, how should they sign in?",
+    category: "features",
+    phase: "requirements",
+    covers: [],
+    condition: session => !userMentioned(session, /\b(login|sign ?in|sign ?up|auth|accounts?)\b/i),
+  },
+  {
+    id: "req-usage",
+    question: "Roughly how many users do you expect, and are there any performance needs?",
+    category: "usage",
+    phase: "requirements",
+    covers: ["usage"],
+  },
+  {
+    id: "req-constraints",
+    question: "Are there any constraints - compliance, hosting, integrations or things it must not do?",
+    category: "constraints",
+    phase: "requirements",
+    covers: ["constraints"],
+  },
+  {
+    id: "req-theme",
+    question: "What look and feel are you going for - any theme, colours or design references?",
+    category: "theme",
+    phase: "requirements",
+    covers: ["theme"],
+  },
+  {
+    id: "req-timeline",
+    question: "Is there a timeline or deadline you're working towards?",
+    category: "constraints",
+    phase: "requirements",
+    covers: ["timeline"],
+  },
+  {
+    id: "req-budget",
+    question: "Is there a budget for hosting and third-party services?",
+    category: "constraints",
+    phase: "requirements",
+    covers: ["budget"],
+  },
+
+  // PHASE 2: Design
+  {
+    id: "design-architecture",
+    question: "Do you prefer a single deployable app, or separate services (e.g. API + frontend, serverless functions)?",
+    category: "techstack",
+    phase: "design",
+    covers: [],
+  },
+  {
+    id: "design-integrations",
+    question: "Are there third-party APIs or services the system needs to integrate with?",
+    category: "other",
+    phase: "design",
+    covers: [],
+  },
+  {
+    id: "design-realtime",
+    question: "Does anything need to update in real time (live updates, notifications, collaboration)?",
+    category: "features",
+    phase: "design",
+    covers: [],
+    condition: session => userMentioned(session, /\b(chat|notification|live|real[- ]?time|collaborat)/i),
+  },
+
+  // PHASE 3: Tasks
+  {
+    id: "tasks-team",
+    question: "Who will build this - just you, a team, or an AI coding agent?",
+    category: "other",
+    phase: "tasks",
+    covers: [],
+  },
+  {
+    id: "tasks-testing",
+    question: "How much testing do you want built in - unit tests, end-to-end tests, or just the essentials?",
+    category: "other",
+    phase: "tasks",
+    covers: [],
+  },
+]
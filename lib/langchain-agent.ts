@@ -1,136 +1,133 @@
-import { ChatOpenAI } from "@langchain/openai"
 import { AgentExecutor, createOpenAIFunctionsAgent } from "langchain/agents"
 import { ChatPromptTemplate, MessagesPlaceholder } from "@langchain/core/prompts"
-import { BufferMemory } from "langchain/memory"
-
-// This is the core personality and instruction set for our AI assistant
-// It defines the three-phase workflow: Requirements → Design → Tasks
-const SYSTEM_PROMPT = `You are Understand.AI, an intelligent project planning assistant that helps developers refine their project ideas through a structured process.
-
-Your Mission:
-Guide developers through THREE phases to create comprehensive project documentation:
-
-PHASE 1: Requirements Gathering
-- Ask relevant questions about the project idea
-- Inquire about: tech stack preferences, theme/design style, target users, key features, constraints, scalability needs
-- Be conversational and intelligent - ask follow-up questions based on their answers
-- Continue until you have a complete understanding of their vision
-
-PHASE 2: System Design
-- Based on gathered requirements, create a detailed Design.md file
-- Include: Architecture overview, data models, API design, component structure, technology choices, deployment strategy
-- Present the design and ask if any changes are needed
-- Iterate on the design based on feedback
-
-PHASE 3: Task Generation
-- Create a comprehensive Task.md file with chronological, actionable tasks
-- Each task should be specific enough for an AI agent to execute
-- Include: setup tasks, feature implementation, testing, deployment steps
-- Format tasks in a clear, sequential order
-
-Your Behavior:
-- Be conversational and friendly, not robotic
-- Ask ONE question at a time (unless naturally grouped)
-- Show understanding by acknowledging their answers
-- Explain your reasoning when making suggestions
-- Make the process feel collaborative, not interrogative
-- Indicate which phase you're in and progress made
-
-Document Format:
-- Requirements.md: User needs, tech stack, constraints, features, target audience
-- Design.md: Architecture, data models, APIs, components, tech stack rationale
-- Task.md: Numbered tasks in chronological order, each with clear acceptance criteria
-
-Remember: Your goal is to help developers think through their project thoroughly before building, saving time and avoiding costly mistakes.`
+import { SystemMessage, isAIMessage, type BaseMessage } from "@langchain/core/messages"
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import { createChatModel, getProvider, type ProviderId } from "./llm/providers"
+import { getAnsweringModel, type AnsweringModel } from "./llm/resilient-chat-model"
+import { getMemoryManager, type TracerMemoryManager } from "./memory/session-manager"
+import { assembleProjectContext } from "./memory/context-assembler"
+import { getPhasePrompt, type PhasePromptOverrides } from "./prompts/phase-prompts"
+import "./phases"
+import type { ProjectSession } from "./types/project"
+import { createProjectTools } from "./tools/project-tools"
+
+// Context passed along with each chat turn
+// sessionId picks which conversation's memory the agent sees
+export interface AgentChatContext {
+  sessionId: string
+  // Extra instructions for this turn only, e.g. which question the interview planner wants asked
+  guidance?: string
+  // Token budget for the project state rendered into the prompt
+  contextTokens?: number
+  // Callbacks for this turn's LLM calls, e.g. usage tracking
+  callbacks?: Callbacks
+}
+
+// What a streamed turn ends with
+export interface AgentTurnResult {
+  output: string
+  // The model that wrote the final answer - may be a fallback
+  model?: AnsweringModel
+}
+
+// Whether a model call ended by calling a tool - the functions agent uses function_call,
+// tool-calling models fill in tool_calls
+function callsTool(message?: BaseMessage): boolean {
+  return !!message?.additional_kwargs?.function_call || (!!message && isAIMessage(message) && (message.tool_calls?.length ?? 0) > 0)
+}
 
 // Main agent class - handles all AI interactions
 export class TracerAgent {
-  private agent!: AgentExecutor
-  private model: ChatOpenAI
-  private memory: BufferMemory
-
-  constructor(apiKey?: string, modelName: string = "deepseek/deepseek-chat") {
-    // Using OpenRouter as our API gateway - it gives us access to multiple models
-    const key = apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY
-    const baseURL = process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1"
-    
-    // Debug logging - helps track down API key issues during development
-    console.log("TracerAgent initialization:", {
-      hasApiKey: !!key,
-      keyPrefix: key?.substring(0, 15),
-      modelName,
-      baseURL,
-    })
-    
-    if (!key) {
-      throw new Error("API key is required. Set OPENROUTER_API_KEY or OPENAI_API_KEY in .env.local")
-    }
-    
-    // Set up the ChatOpenAI model with our API credentials
-    // Temperature 0.7 gives us a good balance between creativity and consistency
-    this.model = new ChatOpenAI({
-      modelName,
-      temperature: 0.7,
-      openAIApiKey: key,
-      configuration: {
-        baseURL,
-        defaultHeaders: {
-          // Explicit auth header - some API gateways need this
-          "Authorization": `Bearer ${key}`,
-          "HTTP-Referer": "https://traycer.ai", // Optional: helps with API rankings
-          "X-Title": "Traycer AI", // Optional: identifies our app
-        },
-      },
-    })
+  // Prompts keyed by their system text - rebuilt when a prompt file changes
+  private prompts = new Map<string, ChatPromptTemplate>()
+  private model: BaseChatModel
+  private memoryManager: TracerMemoryManager
+  private promptOverrides: PhasePromptOverrides
+
+  constructor(
+    apiKey?: string,
+    modelName?: string,
+    providerId?: ProviderId,
+    memoryManager: TracerMemoryManager = getMemoryManager(),
+    promptOverrides: PhasePromptOverrides = {}
+  ) {
+    // The provider registry decides where the model lives (OpenRouter, a local server, or the fake one)
+    const provider = getProvider(providerId)
 
-    // BufferMemory keeps track of the conversation history
-    // This lets the AI remember what was said earlier in the chat
-    this.memory = new BufferMemory({
-      returnMessages: true,
-      memoryKey: "chat_history",
-      inputKey: "input",
-      outputKey: "output",
-    })
+    // Temperature 0.7 gives us a good balance between creativity and consistency
+    this.model = createChatModel({ apiKey, modelName, temperature: 0.7 }, provider.id)
 
-    this.initializeAgent()
+    // Conversation history lives in the memory manager, one entry per session
+    // The agent itself is stateless, so one instance can serve every chat safely
+    this.memoryManager = memoryManager
+    this.promptOverrides = promptOverrides
   }
 
-  private async initializeAgent() {
-    // We don't need any tools for this - it's purely conversational
-    // The AI just asks questions and guides the user through the planning process
-    const tools: any[] = []
+  private getPrompt(session?: ProjectSession): ChatPromptTemplate {
+    const systemPrompt = getPhasePrompt(session?.currentPhase ?? "requirements", this.promptOverrides, session)
+    const cached = this.prompts.get(systemPrompt)
+    if (cached) return cached
 
     // Build the prompt template with placeholders for history and user input
+    // The phase prompt goes in as a message, not a template, so overrides can contain braces
     const prompt = ChatPromptTemplate.fromMessages([
-      ["system", SYSTEM_PROMPT], // The AI's personality and instructions
+      new SystemMessage(systemPrompt), // The AI's personality and this phase's instructions
+      ["system", "Current project state:\n{context}"], // Live phase, requirements and documents for this session
       new MessagesPlaceholder("chat_history"), // Previous conversation
+      new MessagesPlaceholder({ variableName: "guidance", optional: true }), // Per-turn guidance (interview planner)
       ["human", "{input}"], // Current user message
-      new MessagesPlaceholder("agent_scratchpad"), // For agent reasoning (not really used here)
+      new MessagesPlaceholder("agent_scratchpad"), // Tool calls and their results
     ])
+    this.prompts.set(systemPrompt, prompt)
+    return prompt
+  }
 
+  // Build an executor for one turn, with memory loaded from this session's history only
+  // This keeps two chats running at the same time from bleeding into each other
+  private async prepareTurn(context: AgentChatContext): Promise<{ executor: AgentExecutor; inputs: Record<string, any> }> {
+    const memory = await this.memoryManager.createLangChainMemory(context.sessionId)
+    // Loaded up front rather than attached to the executor - streamEvents skips executor memory
+    const { chat_history } = await memory.loadMemoryVariables({})
+
+    // Tools write to this session's project state, so they're built per turn too
+    const tools = createProjectTools(this.memoryManager, context.sessionId)
+    // The prompt follows the project - interviewer, architect, planner, then wrap-up
     const agentRunnable = await createOpenAIFunctionsAgent({
       llm: this.model,
       tools,
-      prompt,
+      prompt: this.getPrompt(this.memoryManager.getProjectSession(context.sessionId)),
     })
 
     // AgentExecutor manages the conversation flow
-    this.agent = new AgentExecutor({
+    const executor = new AgentExecutor({
       agent: agentRunnable,
       tools,
-      memory: this.memory,
-      verbose: true, // Helpful for debugging in development
       maxIterations: 10,
     })
+
+    const inputs = {
+      chat_history,
+      guidance: context.guidance ? [new SystemMessage(context.guidance)] : [],
+      // Rendered fresh every turn so the model sees what the tools changed last time
+      context: assembleProjectContext(this.memoryManager, context.sessionId, { maxTokens: context.contextTokens }),
+    }
+
+    return { executor, inputs }
   }
 
   // Main method for chatting with the AI
-  async chat(message: string, context?: any): Promise<string> {
+  // Call this before the user's message is added to the session - the history is the "before" state
+  async chat(message: string, context: AgentChatContext): Promise<string> {
     try {
-      const result = await this.agent.invoke({
-        input: message,
-        context,
-      })
+      const { executor, inputs } = await this.prepareTurn(context)
+      const result = await executor.invoke(
+        {
+          input: message,
+          ...inputs,
+        },
+        { callbacks: context.callbacks }
+      )
 
       return result.output
     } catch (error) {
@@ -139,38 +136,63 @@ export class TracerAgent {
     }
   }
 
-  // Streaming version of chat - not actively used but kept for future enhancement
-  // Could be useful if we want to show responses word-by-word in the UI
-  async streamChat(message: string, context?: any): Promise<ReadableStream> {
-    const encoder = new TextEncoder()
-    const agent = this.agent
-    
-    return new ReadableStream({
-      async start(controller) {
-        try {
-          // Get the response from the agent
-          const result = await agent.invoke({
-            input: message,
-            context,
-          })
-
-          // Encode and stream it back to the client
-          controller.enqueue(encoder.encode(result.output))
-          controller.close()
-        } catch (error) {
-          controller.error(error)
+  // Streaming version of chat - yields the model's tokens as they arrive
+  // and returns the agent's final answer (and who wrote it) once the run is over
+  async *streamChat(message: string, context: AgentChatContext): AsyncGenerator<string, AgentTurnResult> {
+    const { executor, inputs } = await this.prepareTurn(context)
+    let output = ""
+    let model: AnsweringModel | undefined
+
+    try {
+      const events = executor.streamEvents(
+        { input: message, ...inputs },
+        { version: "v2", callbacks: context.callbacks }
+      )
+
+      // Tokens are held per model call until we know what the call was for - text from a
+      // call that ends in a function call is the model talking itself into a tool, not the answer
+      const pending = new Map<string, string[]>()
+
+      for await (const event of events) {
+        if (event.event === "on_chat_model_stream") {
+          const token = event.data.chunk?.content
+          if (typeof token === "string" && token.length > 0) {
+            pending.set(event.run_id, [...(pending.get(event.run_id) ?? []), token])
+          }
+        } else if (event.event === "on_chat_model_end") {
+          const tokens = pending.get(event.run_id) ?? []
+          pending.delete(event.run_id)
+          if (!callsTool(event.data.output)) {
+            yield* tokens
+            // The call that answers is the one that wrote the answer
+            model = getAnsweringModel(event.data.output) ?? model
+          }
+        } else if (event.event === "on_chain_end" && event.name === "AgentExecutor") {
+          // Streamed runs end with the bare answer, invoked ones with { output }
+          const result = event.data.output
+          output = typeof result === "string" ? result : result?.output ?? output
         }
-      },
-    })
+      }
+    } catch (error) {
+      console.error("Traycer Agent streaming error:", error)
+      throw error
+    }
+
+    return { output, model }
   }
 
-  // Clear conversation history - useful when starting a new project
-  clearMemory() {
-    this.memory.clear()
+  // Clear a session's conversation history - useful when starting a new project
+  clearMemory(sessionId: string) {
+    this.memoryManager.clearSession(sessionId)
   }
 }
 
 // Factory function to create new agent instances
-export const createTracerAgent = (apiKey?: string, modelName?: string) => {
-  return new TracerAgent(apiKey, modelName)
+export const createTracerAgent = (
+  apiKey?: string,
+  modelName?: string,
+  providerId?: ProviderId,
+  promptOverrides?: PhasePromptOverrides
+) => {
+  return new TracerAgent(apiKey, modelName, providerId, getMemoryManager(), promptOverrides)
 }
@@ -0,0 +1,262 @@
+import { createHash } from "crypto"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import path from "path"
+import { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager"
+import {
+  AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+  type StoredMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from "@langchain/core/messages"
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs"
+
+/**
+ * LLM Cassettes
+ *
+ * Record/replay for every chat model call, in the spirit of VCR-style HTTP cassettes.
+ *
+ * - record: calls go to the real model, and each request/response pair is saved
+ *           to the cassette file, keyed by a hash of the prompt
+ * - replay: responses are served from the cassette, the network is never touched.
+ *           A prompt that was never recorded is an error, not a silent live call.
+ *
+ * Configured with LLM_CASSETTE_MODE (off | record | replay), LLM_CASSETTE_DIR
+ * (default: ./cassettes) and LLM_CASSETTE (cassette name, default: "default").
+ */
+
+export type CassetteMode = "off" | "record" | "replay"
+
+export interface CassetteInteraction {
+  model: string
+  request: {
+    messages: StoredMessage[]
+    options: Record<string, unknown>
+  }
+  response: {
+    text: string
+    message: StoredMessage
+  }
+  recordedAt: number
+}
+
+export interface CassetteFile {
+  version: 1
+  interactions: Record<string, CassetteInteraction>
+}
+
+export class CassetteMissError extends Error {
+  constructor(public promptHash: string, cassettePath: string) {
+    super(`No recording for prompt ${promptHash} in cassette ${cassettePath}. Re-record with LLM_CASSETTE_MODE=record.`)
+    this.name = "CassetteMissError"
+  }
+}
+
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env.LLM_CASSETTE_MODE
+  return mode === "record" || mode === "replay" ? mode : "off"
+}
+
+export function getCassettePath(name: string = process.env.LLM_CASSETTE || "default"): string {
+  const dir = process.env.LLM_CASSETTE_DIR || path.join(process.cwd(), "cassettes")
+  return path.join(dir, `${name}.json`)
+}
+
+/**
+ * A cassette file on disk - loaded lazily, written after every recording
+ * so a crash mid-conversation doesn't lose earlier turns.
+ */
+export class Cassette {
+  private data: CassetteFile | null = null
+
+  constructor(public readonly filePath: string) {}
+
+  private load(): CassetteFile {
+    if (!this.data) {
+      this.data = existsSync(this.filePath)
+        ? (JSON.parse(readFileSync(this.filePath, "utf-8")) as CassetteFile)
+        : { version: 1, interactions: {} }
+    }
+    return this.data
+  }
+
+  get(hash: string): CassetteInteraction | undefined {
+    return this.load().interactions[hash]
+  }
+
+  put(hash: string, interaction: CassetteInteraction): void {
+    const data = this.load()
+    data.interactions[hash] = interaction
+    mkdirSync(path.dirname(this.filePath), { recursive: true })
+    writeFileSync(this.filePath, JSON.stringify(data, null, 2))
+  }
+}
+
+// Only these call options change what the model returns, the rest (callbacks, signal...) are noise
+const HASHED_OPTIONS = ["functions", "function_call", "tools", "tool_choice", "stop"] as const
+
+function pickHashedOptions(options: Record<string, unknown>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {}
+  for (const key of HASHED_OPTIONS) {
+    if (options[key] !== undefined) picked[key] = options[key]
+  }
+  return picked
+}
+
+/**
+ * Hash a prompt - same model + messages + options always gives the same key
+ */
+export function hashPrompt(model: string, messages: StoredMessage[], options: Record<string, unknown>): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ model, messages, options }))
+    .digest("hex")
+}
+
+export interface CassetteChatModelInput {
+  inner: BaseChatModel
+  modelName: string
+  mode: Exclude<CassetteMode, "off">
+  cassette: Cassette
+}
+
+/**
+ * Wraps any chat model and records or replays its calls
+ */
+export class CassetteChatModel extends BaseChatModel {
+  private inner: BaseChatModel
+  private modelName: string
+  private mode: Exclude<CassetteMode, "off">
+  private cassette: Cassette
+
+  static lc_name() {
+    return "CassetteChatModel"
+  }
+
+  constructor(fields: CassetteChatModelInput) {
+    super({})
+    this.inner = fields.inner
+    this.modelName = fields.modelName
+    this.mode = fields.mode
+    this.cassette = fields.cassette
+  }
+
+  _llmType(): string {
+    return "cassette"
+  }
+
+  // Report the wrapped model's parameters, so callbacks see the real model name
+  invocationParams(options?: this["ParsedCallOptions"]) {
+    return this.inner.invocationParams(options)
+  }
+
+  private requestFor(messages: BaseMessage[], options: this["ParsedCallOptions"]) {
+    const stored = mapChatMessagesToStoredMessages(messages)
+    const hashedOptions = pickHashedOptions(options as Record<string, unknown>)
+    return {
+      hash: hashPrompt(this.modelName, stored, hashedOptions),
+      request: { messages: stored, options: hashedOptions },
+    }
+  }
+
+  private replay(hash: string): { text: string; message: BaseMessage } {
+    const interaction = this.cassette.get(hash)
+    if (!interaction) {
+      throw new CassetteMissError(hash, this.cassette.filePath)
+    }
+    const [message] = mapStoredMessagesToChatMessages([interaction.response.message])
+    return { text: interaction.response.text, message }
+  }
+
+  private record(hash: string, request: CassetteInteraction["request"], text: string, message: BaseMessage) {
+    this.cassette.put(hash, {
+      model: this.modelName,
+      request,
+      response: { text, message: mapChatMessagesToStoredMessages([message])[0] },
+      recordedAt: Date.now(),
+    })
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const { hash, request } = this.requestFor(messages, options)
+
+    if (this.mode === "replay") {
+      const { text, message } = this.replay(hash)
+      return { generations: [{ text, message }] }
+    }
+
+    const result = await this.inner._generate(messages, options, runManager)
+    const generation = result.generations[0]
+    if (generation) {
+      this.record(hash, request, generation.text, generation.message)
+    }
+    return result
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { hash, request } = this.requestFor(messages, options)
+
+    // Replay (or an inner model that can't stream) - hand back the whole response as one chunk
+    const innerCanStream = this.inner._streamResponseChunks !== BaseChatModel.prototype._streamResponseChunks
+    if (this.mode === "replay" || !innerCanStream) {
+      const result = await this._generate(messages, options, runManager)
+      const { text, message } = result.generations[0]
+      yield new ChatGenerationChunk({
+        text,
+        message: new AIMessageChunk({
+          content: message.content,
+          additional_kwargs: message.additional_kwargs,
+          tool_calls: message instanceof AIMessage ? message.tool_calls : undefined,
+        }),
+      })
+      return
+    }
+
+    // Record - pass chunks straight through and save the assembled response at the end
+    let full: ChatGenerationChunk | undefined
+    for await (const chunk of this.inner._streamResponseChunks(messages, options, runManager)) {
+      full = full ? full.concat(chunk) : chunk
+      yield chunk
+    }
+    if (full) {
+      this.record(hash, request, full.text, full.message)
+    }
+  }
+}
+
+// One Cassette per file, shared by every model so concurrent recordings don't clobber each other
+const cassettes = new Map<string, Cassette>()
+
+function getCassette(filePath: string): Cassette {
+  let cassette = cassettes.get(filePath)
+  if (!cassette) {
+    cassette = new Cassette(filePath)
+    cassettes.set(filePath, cassette)
+  }
+  return cassette
+}
+
+/**
+ * Wrap a model with the cassette recorder/player if LLM_CASSETTE_MODE is set
+ */
+export function withCassette(inner: BaseChatModel, modelName: string): BaseChatModel {
+  const mode = getCassetteMode()
+  if (mode === "off") {
+    return inner
+  }
+  return new CassetteChatModel({
+    inner,
+    modelName,
+    mode,
+    cassette: getCassette(getCassettePath()),
+  })
+}
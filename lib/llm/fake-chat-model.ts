@@ -0,0 +1,116 @@
+import { SimpleChatModel, type BaseChatModelParams } from "@langchain/core/language_models/chat_models"
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager"
+import { AIMessageChunk, type BaseMessage } from "@langchain/core/messages"
+import { ChatGenerationChunk } from "@langchain/core/outputs"
+import type { PromptCallOptions } from "./providers"
+
+/**
+ * Fake Chat Model
+ *
+ * A deterministic, network-free chat model used by the "fake" provider.
+ * The same input always produces the same output, so the whole
+ * Requirements → Design → Tasks flow can run on an air-gapped machine
+ * (and in tests) without an API key.
+ *
+ * Responses are picked by the prompt a call is for (the promptName call
+ * option, see forPrompt in providers.ts), never by the prompt's wording -
+ * so editing a prompt file can't change which response comes back.
+ */
+
+// promptName is unset for calls that weren't tagged, like the agent's own turns
+export type FakeResponder = (messages: BaseMessage[], promptName?: string) => string
+
+export interface FakeChatModelInput extends BaseChatModelParams {
+  // Custom response function - defaults to canned planning responses
+  responder?: FakeResponder
+  modelName?: string
+}
+
+// Canned interview questions, picked by how many user turns we've seen
+const INTERVIEW_QUESTIONS = [
+  "Thanks for sharing! What tech stack would you like to use for the frontend and backend?",
+  "Got it. Who is the target audience for this project?",
+  "Makes sense. What are the core features you want in the first version?",
+  "Are there any constraints I should know about - budget, timeline, or hosting?",
+  "Do you have any design or theme preferences?",
+  "I have a good picture now. Let me know when you're ready to generate the requirements.",
+]
+
+// Stub documents by prompt name
+const DOCUMENTS: Record<string, string> = {
+  "document.requirements": "# Requirements\n\n## 1. Project Overview\nGenerated offline by the fake provider.\n",
+  "document.design": "# Design\n\n## 1. Architecture Overview\nGenerated offline by the fake provider.\n",
+  "document.tasks": "# Tasks\n\n## Phase 1: Setup & Foundation\n### Task 1: [Setup] Initialise the repository\n",
+}
+
+// Prompts that answer in JSON - an empty object is valid for every one of their schemas
+const JSON_PROMPTS = /^(extraction\.|consistency\.review$|design\.decisions$)/
+
+/**
+ * Default responder - returns stub output for the document, extraction and
+ * summary prompts, otherwise plays the interviewer.
+ */
+export const defaultFakeResponder: FakeResponder = (messages, promptName) => {
+  // Conversation summaries need some text, so they get a canned one
+  if (promptName === "conversation.summary") {
+    return JSON.stringify({ summary: "Earlier conversation summarised offline by the fake provider.", facts: [] })
+  }
+  if (promptName && JSON_PROMPTS.test(promptName)) {
+    return "{}"
+  }
+  if (promptName?.startsWith("document.")) {
+    // Phases added to the pipeline get a stub named after them
+    return DOCUMENTS[promptName] ?? `# ${promptName.slice("document.".length)}\n\nGenerated offline by the fake provider.\n`
+  }
+
+  const userTurns = messages.filter(msg => msg._getType() === "human").length
+  const index = Math.min(Math.max(userTurns - 1, 0), INTERVIEW_QUESTIONS.length - 1)
+  return INTERVIEW_QUESTIONS[index]
+}
+
+export class FakeChatModel extends SimpleChatModel<PromptCallOptions> {
+  private responder: FakeResponder
+  modelName: string
+
+  static lc_name() {
+    return "FakeChatModel"
+  }
+
+  constructor(fields: FakeChatModelInput = {}) {
+    super(fields)
+    this.responder = fields.responder ?? defaultFakeResponder
+    this.modelName = fields.modelName ?? "fake"
+  }
+
+  _llmType(): string {
+    return "fake"
+  }
+
+  // Reported to callbacks, so usage tracking knows which model answered
+  invocationParams() {
+    return { model: this.modelName }
+  }
+
+  async _call(messages: BaseMessage[], options: this["ParsedCallOptions"]): Promise<string> {
+    return this.responder(messages, options.promptName)
+  }
+
+  // Stream the response word by word so streaming code paths get exercised too
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const text = this.responder(messages, options.promptName)
+    const tokens = text.match(/\S+\s*|\s+/g) ?? []
+
+    for (const token of tokens) {
+      const chunk = new ChatGenerationChunk({
+        text: token,
+        message: new AIMessageChunk({ content: token }),
+      })
+      yield chunk
+      await runManager?.handleLLMNewToken(token)
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { ChatOpenAI } from "@langchain/openai"
+import type { BaseChatModel, BaseChatModelCallOptions } from "@langchain/core/language_models/chat_models"
+import { FakeChatModel } from "./fake-chat-model"
+import { getCassetteMode, withCassette } from "./cassette"
+import { ResilientChatModel, getRetryPolicy, type ModelCandidate, type RetryPolicy } from "./resilient-chat-model"
+
+/**
+ * LLM Provider Registry
+ *
+ * Every part of the app that needs a chat model (TracerAgent, DocumentGeneratorChain)
+ * asks this registry for one instead of building its own ChatOpenAI.
+ *
+ * Built-in providers:
+ * 1. openrouter - hosted models through OpenRouter (the default)
+ * 2. local      - any OpenAI-compatible endpoint (llama.cpp, vLLM, Ollama)
+ * 3. fake       - deterministic offline model, no network or API key needed
+ *
+ * The active provider is picked with the LLM_PROVIDER environment variable.
+ * Every model is wrapped with retries, timeouts and the LLM_FALLBACK_MODELS chain
+ * (see resilient-chat-model.ts).
+ */
+
+export type ProviderId = "openrouter" | "local" | "fake" | (string & {})
+
+// Call options every model can be given - which prompt the call is for,
+// the registry name for registered prompts (e.g. "document.design")
+export interface PromptCallOptions extends BaseChatModelCallOptions {
+  promptName?: string
+}
+
+export interface ChatModelOptions {
+  apiKey?: string
+  modelName?: string
+  temperature?: number
+  // Retries and timeout for this model - defaults come from the environment
+  retry?: Partial<RetryPolicy>
+}
+
+// One entry in the fallback chain
+export interface FallbackModel {
+  providerId: ProviderId
+  modelName?: string
+}
+
+export interface LLMProvider {
+  id: ProviderId
+  label: string
+  // Model used when the caller doesn't ask for a specific one
+  defaultModel: string
+  // Returns an error message if the provider can't be used (e.g. missing key)
+  validate(options?: ChatModelOptions): string | null
+  createChatModel(options?: ChatModelOptions): BaseChatModel
+}
+
+// OpenRouter - our default hosted gateway with access to many models
+const openRouterProvider: LLMProvider = {
+  id: "openrouter",
+  label: "OpenRouter",
+  defaultModel: process.env.OPENROUTER_MODEL || "deepseek/deepseek-chat",
+
+  validate(options) {
+    const key = options?.apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY
+    return key ? null : "API key is required. Set OPENROUTER_API_KEY or OPENAI_API_KEY in .env.local"
+  },
+
+  createChatModel(options = {}) {
+    const key = options.apiKey || process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY
+    const baseURL = process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1"
+
+    return new ChatOpenAI({
+      modelName: options.modelName || this.defaultModel,
+      temperature: options.temperature ?? 0.7,
+      openAIApiKey: key,
+      maxRetries: 0, // Retries are handled by ResilientChatModel, with logging and fallbacks
+      configuration: {
+        baseURL,
+        defaultHeaders: {
+          // Explicit auth header - some API gateways need this
+          "Authorization": `Bearer ${key}`,
+          "HTTP-Referer": "https://understand.ai", // Optional: helps with API rankings
+          "X-Title": "Understand.AI", // Optional: identifies our app
+        },
+      },
+    })
+  },
+}
+
+// Local OpenAI-compatible server - llama.cpp, vLLM and Ollama all speak this API
+const localProvider: LLMProvider = {
+  id: "local",
+  label: "Local (OpenAI-compatible)",
+  defaultModel: process.env.LOCAL_LLM_MODEL || "llama3.1",
+
+  validate() {
+    return null // Local servers usually don't need a key
+  },
+
+  createChatModel(options = {}) {
+    const baseURL = process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1"
+    // The OpenAI client refuses an empty key, so send a placeholder if none is set
+    const key = options.apiKey || process.env.LOCAL_LLM_API_KEY || "not-needed"
+
+    return new ChatOpenAI({
+      modelName: options.modelName || this.defaultModel,
+      temperature: options.temperature ?? 0.7,
+      openAIApiKey: key,
+      maxRetries: 0,
+      configuration: { baseURL },
+    })
+  },
+}
+
+// Fake provider - deterministic responses for offline development and tests
+const fakeProvider: LLMProvider = {
+  id: "fake",
+  label: "Fake (offline)",
+  defaultModel: "fake",
+
+  validate() {
+    return null
+  },
+
+  createChatModel(options = {}) {
+    return new FakeChatModel({ modelName: options.modelName || this.defaultModel })
+  },
+}
+
+const providers = new Map<ProviderId, LLMProvider>([
+  [openRouterProvider.id, openRouterProvider],
+  [localProvider.id, localProvider],
+  [fakeProvider.id, fakeProvider],
+])
+
+/**
+ * Register a custom provider (or replace a built-in one)
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider)
+}
+
+/**
+ * Get a provider by id - falls back to LLM_PROVIDER, then OpenRouter
+ */
+export function getProvider(id?: ProviderId): LLMProvider {
+  const providerId = id || process.env.LLM_PROVIDER || openRouterProvider.id
+  const provider = providers.get(providerId)
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider "${providerId}". Available: ${listProviders().map(p => p.id).join(", ")}`
+    )
+  }
+  return provider
+}
+
+/**
+ * List every registered provider
+ */
+export function listProviders(): LLMProvider[] {
+  return Array.from(providers.values())
+}
+
+/**
+ * Check the active (or given) provider is usable.
+ * Replaying cassettes never reaches the provider, so nothing needs configuring.
+ */
+export function validateProvider(options: ChatModelOptions = {}, providerId?: ProviderId): string | null {
+  if (getCassetteMode() === "replay") {
+    return null
+  }
+  return getProvider(providerId).validate(options)
+}
+
+/**
+ * Parse LLM_FALLBACK_MODELS - a comma separated list of provider:model entries,
+ * tried in order after the primary model, e.g.
+ * "openrouter:openai/gpt-4o-mini,local:llama3.1". The model can be left out
+ * to use the provider's default.
+ */
+export function getFallbackModels(): FallbackModel[] {
+  return (process.env.LLM_FALLBACK_MODELS || "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(":")
+      return separator === -1
+        ? { providerId: entry }
+        : { providerId: entry.slice(0, separator), modelName: entry.slice(separator + 1) || undefined }
+    })
+}
+
+/**
+ * The fallback models we can actually use - misconfigured ones are skipped with a warning
+ */
+function buildFallbacks(options: ChatModelOptions, primary: LLMProvider): ModelCandidate[] {
+  const candidates: ModelCandidate[] = []
+
+  for (const fallback of getFallbackModels()) {
+    const provider = providers.get(fallback.providerId)
+    // An explicit API key belongs to the primary provider
+    const fallbackOptions = {
+      ...options,
+      apiKey: provider?.id === primary.id ? options.apiKey : undefined,
+      modelName: fallback.modelName,
+    }
+    const problem = provider ? provider.validate(fallbackOptions) : `unknown provider "${fallback.providerId}"`
+    if (!provider || problem) {
+      console.warn(`Skipping fallback model ${fallback.providerId}:${fallback.modelName ?? "default"} - ${problem}`)
+      continue
+    }
+    candidates.push({
+      name: fallback.modelName || provider.defaultModel,
+      model: provider.createChatModel(fallbackOptions),
+    })
+  }
+
+  return candidates
+}
+
+/**
+ * Build a chat model from the active (or given) provider.
+ * Throws if the provider isn't configured, so callers fail fast.
+ * The model gets retries, timeouts and any configured fallbacks, and when
+ * LLM_CASSETTE_MODE is set the whole chain is wrapped for record/replay.
+ */
+export function createChatModel(options: ChatModelOptions = {}, providerId?: ProviderId): BaseChatModel {
+  const provider = getProvider(providerId)
+  const problem = validateProvider(options, provider.id)
+  if (problem) {
+    throw new Error(problem)
+  }
+  const modelName = options.modelName || provider.defaultModel
+  const model = new ResilientChatModel(
+    [{ name: modelName, model: provider.createChatModel(options) }, ...buildFallbacks(options, provider)],
+    getRetryPolicy(options.retry)
+  )
+  return withCassette(model, `${provider.id}/${modelName}`)
+}
+
+/**
+ * Tag every call through a model with the prompt it's for.
+ * It travels as a call option, so a model can tell calls apart without reading
+ * the prompt text - the fake provider picks its canned responses this way.
+ */
+export function forPrompt(model: BaseChatModel, promptName: string) {
+  const options: Partial<PromptCallOptions> = { promptName }
+  return model.withConfig(options)
+}
@@ -0,0 +1,314 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models"
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager"
+import { AIMessageChunk, type BaseMessage } from "@langchain/core/messages"
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs"
+
+/**
+ * Resilient Chat Model
+ *
+ * Wraps an ordered list of chat models - the primary first, then fallbacks -
+ * and gives every call retries with exponential backoff and a per-attempt timeout.
+ * When a model runs out of retries (or fails in a way retrying won't fix, like a
+ * bad API key) the next model in the list gets its turn.
+ *
+ * Failed attempts are logged (successful ones too with DEBUG_LLM=1), and the
+ * model that finally answered is stamped on the response (see getAnsweringModel).
+ *
+ * Every call also has an overall deadline, across all its attempts and fallbacks,
+ * so retries can't outlast the request that's waiting for them. The inner models
+ * must not retry on their own (the providers create them with maxRetries: 0).
+ *
+ * Configured with LLM_MAX_RETRIES (default 2), LLM_TIMEOUT_MS (default 30000),
+ * LLM_RETRY_BASE_DELAY_MS (default 500) and LLM_DEADLINE_MS (default 60000).
+ */
+
+export interface RetryPolicy {
+  // Retries per model after the first attempt
+  maxRetries: number
+  // Per-attempt timeout - for streams, the longest wait for the next chunk
+  timeoutMs: number
+  // First backoff delay, doubled on every retry
+  baseDelayMs: number
+  // Longest a whole call may take, every attempt and fallback included
+  deadlineMs: number
+}
+
+export interface ModelCandidate {
+  // Shown in logs and reported as the answering model, e.g. "deepseek/deepseek-chat"
+  name: string
+  model: BaseChatModel
+}
+
+// Which model answered a call, stamped into the response metadata
+export interface AnsweringModel {
+  model: string
+  // True if the primary model failed and a fallback answered
+  fallback: boolean
+}
+
+// Successful attempts are only worth a log line when debugging
+function logSuccess(message: string) {
+  if (process.env.DEBUG_LLM === "1") {
+    console.log(message)
+  }
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(public modelName: string, public timeoutMs: number) {
+    super(`${modelName} did not respond within ${timeoutMs}ms`)
+    this.name = "LLMTimeoutError"
+  }
+}
+
+export class LLMDeadlineError extends Error {
+  constructor(public deadlineMs: number) {
+    super(`No model answered within the ${deadlineMs}ms deadline`)
+    this.name = "LLMDeadlineError"
+  }
+}
+
+/**
+ * Thrown when every model in the chain has failed
+ */
+export class AllModelsFailedError extends Error {
+  constructor(public errors: Array<{ model: string; error: unknown }>) {
+    super(
+      `All models failed: ${errors.map(({ model, error }) => `${model} (${error instanceof Error ? error.message : String(error)})`).join("; ")}`
+    )
+    this.name = "AllModelsFailedError"
+  }
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = value ? Number.parseInt(value, 10) : Number.NaN
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+export function getRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return {
+    maxRetries: overrides.maxRetries ?? readNumber(process.env.LLM_MAX_RETRIES, 2),
+    timeoutMs: overrides.timeoutMs ?? readNumber(process.env.LLM_TIMEOUT_MS, 30000),
+    baseDelayMs: overrides.baseDelayMs ?? readNumber(process.env.LLM_RETRY_BASE_DELAY_MS, 500),
+    // Several calls can share one chat request, so this stays well under its maxDuration (app/api/chat/route.ts)
+    deadlineMs: overrides.deadlineMs ?? readNumber(process.env.LLM_DEADLINE_MS, 60000),
+  }
+}
+
+/**
+ * Read the answering model back off a response message
+ */
+export function getAnsweringModel(message?: BaseMessage): AnsweringModel | undefined {
+  const answeredBy = message?.response_metadata?.answeredBy
+  return answeredBy ? { model: answeredBy, fallback: !!message?.response_metadata?.usedFallback } : undefined
+}
+
+/**
+ * Worth retrying the same model? Rate limits, timeouts, server and network errors are.
+ * Other 4xx errors (bad key, bad request) won't get better - move on to the next model.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) return true
+  const status = (error as { status?: number })?.status
+  if (typeof status !== "number") return true // network errors have no status
+  return status === 408 || status === 409 || status === 429 || status >= 500
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Race a promise against a timer, aborting the underlying request when it fires
+async function withTimeout<T>(promise: Promise<T>, ms: number, controller: AbortController, modelName: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new LLMTimeoutError(modelName, ms))
+    }, ms)
+  })
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export class ResilientChatModel extends BaseChatModel {
+  private candidates: ModelCandidate[]
+  private policy: RetryPolicy
+
+  static lc_name() {
+    return "ResilientChatModel"
+  }
+
+  constructor(candidates: ModelCandidate[], policy: RetryPolicy = getRetryPolicy()) {
+    super({})
+    if (candidates.length === 0) {
+      throw new Error("ResilientChatModel needs at least one model")
+    }
+    this.candidates = candidates
+    this.policy = policy
+  }
+
+  _llmType(): string {
+    return "resilient"
+  }
+
+  // Report the primary model's parameters - the answering model is on the response
+  invocationParams(options?: this["ParsedCallOptions"]) {
+    return this.candidates[0].model.invocationParams(options)
+  }
+
+  /**
+   * Run every candidate/attempt in order until one succeeds or the deadline passes.
+   * Each attempt gets an options object with an abort signal wired to its timeout,
+   * and a timeout that never runs past the deadline.
+   * Callers must return() the generator when they're done with it.
+   */
+  private async *attempts(options: this["ParsedCallOptions"]) {
+    const errors: Array<{ model: string; error: unknown }> = []
+    const deadline = Date.now() + this.policy.deadlineMs
+
+    for (const [index, candidate] of this.candidates.entries()) {
+      for (let attempt = 0; attempt <= this.policy.maxRetries; attempt++) {
+        const delay = attempt > 0 ? this.policy.baseDelayMs * 2 ** (attempt - 1) : 0
+        if (Date.now() + delay >= deadline) {
+          errors.push({ model: candidate.name, error: new LLMDeadlineError(this.policy.deadlineMs) })
+          throw new AllModelsFailedError(errors)
+        }
+        if (delay > 0) {
+          await sleep(delay)
+        }
+
+        const controller = new AbortController()
+        // The caller can still cancel the whole call - the listener goes once the attempt is over
+        const abort = () => controller.abort()
+        options.signal?.addEventListener("abort", abort, { once: true })
+
+        let outcome: { error?: unknown }
+        try {
+          outcome = yield {
+            candidate,
+            fallback: index > 0,
+            label: `${candidate.name} attempt ${attempt + 1}/${this.policy.maxRetries + 1}`,
+            controller,
+            timeoutMs: Math.min(this.policy.timeoutMs, deadline - Date.now()),
+            options: { ...options, signal: controller.signal } as this["ParsedCallOptions"],
+          }
+        } finally {
+          options.signal?.removeEventListener("abort", abort)
+        }
+        if (!outcome?.error) return
+
+        errors.push({ model: candidate.name, error: outcome.error })
+        if (options.signal?.aborted) throw outcome.error
+        if (!isRetryable(outcome.error)) break
+      }
+    }
+
+    throw new AllModelsFailedError(errors)
+  }
+
+  private stamp(message: BaseMessage, candidate: ModelCandidate, fallback: boolean) {
+    message.response_metadata = { ...message.response_metadata, answeredBy: candidate.name, usedFallback: fallback }
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const attempts = this.attempts(options)
+    try {
+      let step = await attempts.next()
+
+      while (!step.done) {
+        const { candidate, fallback, label, controller, timeoutMs, options: attemptOptions } = step.value
+        const startedAt = Date.now()
+        try {
+          const result = await withTimeout(
+            candidate.model._generate(messages, attemptOptions, runManager),
+            timeoutMs,
+            controller,
+            candidate.name
+          )
+          logSuccess(`[llm] ${label}: ok in ${Date.now() - startedAt}ms`)
+          result.generations.forEach(generation => this.stamp(generation.message, candidate, fallback))
+          return result
+        } catch (error) {
+          console.warn(`[llm] ${label}: failed after ${Date.now() - startedAt}ms -`, error instanceof Error ? error.message : error)
+          step = await attempts.next({ error })
+        }
+      }
+    } finally {
+      // Finishes the attempt that succeeded, so it lets go of the caller's signal
+      await attempts.return(undefined)
+    }
+
+    // attempts() throws when it runs out, so we never get here
+    throw new Error("No model attempts were made")
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const attempts = this.attempts(options)
+    try {
+      let step = await attempts.next()
+
+      while (!step.done) {
+        const { candidate, fallback, label, controller, timeoutMs, options: attemptOptions } = step.value
+        const startedAt = Date.now()
+        let yielded = false
+
+        try {
+          const innerCanStream = candidate.model._streamResponseChunks !== BaseChatModel.prototype._streamResponseChunks
+
+          // Models that can't stream answer in one go
+          if (!innerCanStream) {
+            const result = await withTimeout(
+              candidate.model._generate(messages, attemptOptions, runManager),
+              timeoutMs,
+              controller,
+              candidate.name
+            )
+            const { text, message } = result.generations[0]
+            this.stamp(message, candidate, fallback)
+            logSuccess(`[llm] ${label}: ok in ${Date.now() - startedAt}ms`)
+            yield new ChatGenerationChunk({
+              text,
+              message: new AIMessageChunk({
+                content: message.content,
+                additional_kwargs: message.additional_kwargs,
+                response_metadata: message.response_metadata,
+              }),
+            })
+            return
+          }
+
+          const stream = candidate.model._streamResponseChunks(messages, attemptOptions, runManager)
+          while (true) {
+            const next = await withTimeout(stream.next(), timeoutMs, controller, candidate.name)
+            if (next.done) break
+            // The first chunk carries the answering model - chunk metadata is merged as they're concatenated
+            if (!yielded) {
+              this.stamp(next.value.message, candidate, fallback)
+            }
+            yielded = true
+            yield next.value
+          }
+          logSuccess(`[llm] ${label}: streamed in ${Date.now() - startedAt}ms`)
+          return
+        } catch (error) {
+          console.warn(`[llm] ${label}: failed after ${Date.now() - startedAt}ms -`, error instanceof Error ? error.message : error)
+          // Once tokens have reached the caller we can't take them back, so no retrying
+          if (yielded) throw error
+          step = await attempts.next({ error })
+        }
+      }
+    } finally {
+      // Finishes the attempt that succeeded, so it lets go of the caller's signal
+      await attempts.return(undefined)
+    }
+  }
+}
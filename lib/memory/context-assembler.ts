@@ -0,0 +1,177 @@
+import { getPendingQuestion } from "../interview/planner"
+import { validateTaskGraph } from "../analysis/task-graph"
+import { getPhasePipeline } from "../phases/pipeline"
+import type { ProjectSession, RequirementsData, DocumentType } from "../types/project"
+import type { TracerMemoryManager } from "./session-manager"
+
+/**
+ * Context Assembler
+ *
+ * Renders the live project state into text for the agent's prompt each turn:
+ * the current phase, what we already know, what's still open and which
+ * documents exist. Sections are added in priority order until the token
+ * budget runs out, so the prompt never grows without bound.
+ */
+
+export interface ContextOptions {
+  // Rough token budget for the whole context block
+  maxTokens?: number
+}
+
+interface ContextSection {
+  title: string
+  lines: string[]
+}
+
+const DEFAULT_MAX_TOKENS = 800
+
+// Close enough for budgeting - about four characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+const list = (items?: string[]) => (items && items.length > 0 ? items.join(", ") : undefined)
+
+/**
+ * One line per requirements field we actually know something about
+ */
+function requirementLines(requirements: RequirementsData): string[] {
+  const fields: Array<[string, string | undefined]> = [
+    ["Description", requirements.description || undefined],
+    ["Features", list(requirements.features)],
+    ["Target audience", requirements.targetAudience || undefined],
+    ["Frontend", list(requirements.techStack.frontend)],
+    ["Backend", list(requirements.techStack.backend)],
+    ["Database", list(requirements.techStack.database)],
+    ["Deployment", list(requirements.techStack.deployment)],
+    ["Other tech", list(requirements.techStack.other)],
+    ["Constraints", list(requirements.constraints)],
+    ["Theme", [requirements.theme.style, list(requirements.theme.colors), requirements.theme.preferences].filter(Boolean).join("; ") || undefined],
+    ["Expected users", requirements.usage.expectedUsers],
+    ["Scalability", requirements.usage.scalability],
+    ["Performance", requirements.usage.performance],
+    ["Timeline", requirements.timeline],
+    ["Budget", requirements.budget],
+  ]
+  return fields.filter(([, value]) => !!value).map(([label, value]) => `- ${label}: ${value}`)
+}
+
+// The summary already ticks off generated documents - this adds what's still to come
+function pendingDocumentsLine(session: ProjectSession): string | null {
+  const types: DocumentType[] = getPhasePipeline().ids()
+  const pending = types.filter(type => !session.documents[type])
+  return pending.length > 0 ? `Documents still to generate: ${pending.join(", ")}` : null
+}
+
+/**
+ * Build the sections for a session, most important first
+ */
+function buildSections(memoryManager: TracerMemoryManager, sessionId: string, session: ProjectSession): ContextSection[] {
+  const sections: ContextSection[] = []
+
+  // Status from the memory manager - phase, project name, progress and generated documents
+  const statusLines = memoryManager.getContextSummary(sessionId).trim().split("\n")
+  const pendingDocuments = pendingDocumentsLine(session)
+  if (pendingDocuments) {
+    statusLines.push(pendingDocuments)
+  }
+  sections.push({ title: "Status", lines: statusLines })
+
+  // What's still open - the question waiting for an answer and any uncovered categories
+  const openLines: string[] = []
+  const pending = getPendingQuestion(session)
+  if (pending) {
+    openLines.push(`- Waiting for an answer to: ${pending}`)
+  }
+  if (session.currentPhase === "requirements") {
+    const coverage = memoryManager.getRequirementsCoverage(sessionId)
+    const missing = coverage?.categories.filter(category => !category.covered).map(category => category.label)
+    if (missing && missing.length > 0) {
+      openLines.push(`- Not covered yet: ${missing.join(", ")}`)
+    }
+  }
+  if (session.tasks) {
+    const taskIssues = validateTaskGraph(session.tasks).issues
+    if (taskIssues.length > 0) {
+      openLines.push(`- Task dependency problems: ${taskIssues.map(issue => issue.message).join("; ")}`)
+    }
+  }
+  if (session.pendingPhaseAdvance) {
+    openLines.push(`- Finishing the ${session.pendingPhaseAdvance.phase} phase: ${session.pendingPhaseAdvance.reason}`)
+  }
+  if (openLines.length > 0) {
+    sections.push({ title: "Open items", lines: openLines })
+  }
+
+  // Known requirements - structured data if we have it
+  if (session.requirements) {
+    const lines = requirementLines(session.requirements)
+    if (lines.length > 0) {
+      sections.push({ title: "Known requirements", lines })
+    }
+  }
+
+  // Architecture decisions still in force, so later turns don't quietly reverse them
+  const decisions = (session.decisions ?? []).filter(adr => adr.status === "accepted")
+  if (decisions.length > 0) {
+    sections.push({
+      title: "Architecture decisions",
+      lines: decisions.map(adr => `- ADR ${adr.number}: ${adr.title} - ${adr.decision}`),
+    })
+  }
+
+  // Raw answers, newest first - the oldest are the first to go when the budget is tight
+  const answers = Object.entries(session.userAnswers).reverse()
+  if (answers.length > 0) {
+    sections.push({
+      title: "User answers",
+      lines: answers.map(([question, answer]) => `- Q: ${question}\n  A: ${answer}`),
+    })
+  }
+
+  return sections
+}
+
+/**
+ * Render the project state for the agent's prompt, within the token budget
+ */
+export function assembleProjectContext(
+  memoryManager: TracerMemoryManager,
+  sessionId: string,
+  options: ContextOptions = {}
+): string {
+  const session = memoryManager.getProjectSession(sessionId)
+  if (!session) {
+    return "No project has been started yet."
+  }
+
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS
+  let output = ""
+
+  for (const section of buildSections(memoryManager, sessionId, session)) {
+    let block = `${section.title}:`
+    let truncated = false
+
+    // Add lines one by one so a long section can still contribute its most important part
+    for (const line of section.lines) {
+      const next = `${block}\n${line}`
+      if (estimateTokens(output + next) > maxTokens) {
+        truncated = true
+        break
+      }
+      block = next
+    }
+
+    // A heading with nothing under it isn't worth the tokens
+    if (block === `${section.title}:`) {
+      break
+    }
+    output += (output ? "\n\n" : "") + block
+    if (truncated) {
+      output += "\n- ... (truncated)"
+      break
+    }
+  }
+
+  return output
+}
@@ -1,16 +1,128 @@
 import { BufferMemory, ChatMessageHistory } from "langchain/memory"
 import { AIMessage, HumanMessage, SystemMessage } from "@langchain/core/messages"
-import type { ProjectSession, ProjectPhase, RequirementsData, DesignData, TasksData } from "../types/project"
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import { scoreRequirementsCoverage, type RequirementsCoverage } from "../analysis/requirements-coverage"
+import { getPhasePipeline } from "../phases/pipeline"
+import type {
+  ProjectSession,
+  ProjectPhase,
+  RequirementsData,
+  DesignData,
+  TasksData,
+  DocumentType,
+  ConsistencyReview,
+  ReviewIssue,
+  ArchitectureDecision,
+} from "../types/project"
+import { estimateTokens } from "./context-assembler"
+
+// Requirements fields the agent can update one at a time
+export const REQUIREMENT_FIELDS = [
+  "description",
+  "features",
+  "targetAudience",
+  "constraints",
+  "timeline",
+  "budget",
+  "techStack.frontend",
+  "techStack.backend",
+  "techStack.database",
+  "techStack.deployment",
+  "techStack.other",
+  "theme.style",
+  "theme.colors",
+  "theme.preferences",
+  "usage.expectedUsers",
+  "usage.scalability",
+  "usage.performance",
+] as const
+
+export type RequirementField = (typeof REQUIREMENT_FIELDS)[number]
+
+const toList = (value: string | string[]) =>
+  Array.isArray(value) ? value : value.split(",").map(item => item.trim()).filter(Boolean)
+
+const toText = (value: string | string[]) => (Array.isArray(value) ? value.join(", ") : value)
+
+/**
+ * A blank RequirementsData to fill in field by field
+ */
+export function createEmptyRequirements(projectName: string): RequirementsData {
+  return {
+    projectName,
+    description: "",
+    techStack: {},
+    features: [],
+    targetAudience: "",
+    constraints: [],
+    theme: {},
+    usage: {},
+    metadata: {
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      version: 0,
+    },
+  }
+}
+
+export interface HistoryMessage {
+  role: "user" | "assistant" | "system"
+  content: string
+  timestamp: number
+  // The phase it was sent in - set once there's a project session
+  phase?: ProjectPhase
+}
+
+/**
+ * Anything that can fold old messages into a running summary
+ * (see lib/chains/conversation-summarizer.ts)
+ */
+export interface HistorySummarizer {
+  summarize(
+    previousSummary: string,
+    messages: HistoryMessage[],
+    callbacks?: Callbacks
+  ): Promise<{ summary: string; facts: string[] }>
+}
+
+// What the agent and document generator see of the conversation beyond the recent window
+export interface ConversationMemory {
+  summary: string
+  pinnedFacts: string[]
+  // The messages the summary doesn't cover yet, oldest first - empty if it covers everything
+  unsummarized: HistoryMessage[]
+}
+
+// Never evict below this many messages, however long they are
+const MIN_RECENT_MESSAGES = 4
+
+// After this many failed summaries in a row, only the newest MAX_EVICTED_MESSAGES
+// evicted messages are kept - the rest are dropped rather than replayed every turn
+const MAX_SUMMARY_FAILURES = 3
+const MAX_EVICTED_MESSAGES = 20
+
+// Oldest facts go first once a session has pinned this many
+const MAX_PINNED_FACTS = 30
+
+// The project's copy of the conversation - far more than a planning session needs,
+// so this only ever trims a runaway one
+const MAX_PROJECT_HISTORY_MESSAGES = 500
 
 export interface ChatContext {
   sessionId: string
+  // The user the session was started by (see user-identity.ts) - nobody else can read or continue it
+  ownerId?: string
   // Project session for Understand.AI workflow
   projectSession?: ProjectSession
-  conversationHistory: Array<{
-    role: "user" | "assistant" | "system"
-    content: string
-    timestamp: number
-  }>
+  conversationHistory: HistoryMessage[]
+  // Running summary of messages that no longer fit in conversationHistory
+  summary: string
+  // Key facts kept whatever gets summarized away - the newest MAX_PINNED_FACTS of them
+  pinnedFacts: string[]
+  // Messages pushed out of the window that haven't been summarized yet
+  evicted: HistoryMessage[]
+  // Summaries that have failed in a row
+  summaryFailures: number
   metadata: {
     createdAt: number
     updatedAt: number
@@ -25,10 +137,12 @@ export interface ChatContext {
 export class TracerMemoryManager {
   private sessions: Map<string, ChatContext>
   private maxMessagesPerSession: number
+  private maxHistoryTokens: number
 
-  constructor(maxMessagesPerSession: number = 50) {
+  constructor(maxMessagesPerSession: number = 50, maxHistoryTokens: number = 4000) {
     this.sessions = new Map()
     this.maxMessagesPerSession = maxMessagesPerSession
+    this.maxHistoryTokens = maxHistoryTokens
   }
 
   /**
@@ -38,6 +152,10 @@ export class TracerMemoryManager {
     const context: ChatContext = {
       sessionId,
       conversationHistory: [],
+      summary: "",
+      pinnedFacts: [],
+      evicted: [],
+      summaryFailures: 0,
       metadata: {
         createdAt: Date.now(),
         updatedAt: Date.now(),
@@ -60,6 +178,24 @@ export class TracerMemoryManager {
     return this.createSession(sessionId)
   }
 
+  /**
+   * Bind a session to a user - a new session (or one no one has claimed) becomes theirs.
+   * Returns false if it already belongs to someone else.
+   */
+  claimSession(sessionId: string, userId: string): boolean {
+    const session = this.getSession(sessionId)
+    session.ownerId ??= userId
+    return session.ownerId === userId
+  }
+
+  /**
+   * Whether a user started this session - a session we don't know belongs to nobody
+   */
+  isSessionOwner(sessionId: string, userId: string): boolean {
+    const ownerId = this.sessions.get(sessionId)?.ownerId
+    return ownerId !== undefined && ownerId === userId
+  }
+
   /**
    * Add a message to session history
    */
@@ -69,18 +205,30 @@ export class TracerMemoryManager {
     content: string
   ): void {
     const session = this.getSession(sessionId)
+    const phase = session.projectSession?.currentPhase
+    const message: HistoryMessage = { role, content, timestamp: Date.now(), ...(phase ? { phase } : {}) }
+
+    session.conversationHistory.push(message)
+
+    // Mirror into the project session, tagged with the phase it happened in
+    // This copy isn't windowed like the one above: structured extraction, the decision
+    // recorder and requirements coverage read a whole phase's conversation. It's only
+    // capped against runaway sessions, and lives as long as the session does (see pruneOldSessions)
+    if (session.projectSession && phase) {
+      const history = session.projectSession.conversationHistory
+      history.push({ ...message, phase })
+      history.splice(0, history.length - MAX_PROJECT_HISTORY_MESSAGES)
+    }
 
-    session.conversationHistory.push({
-      role,
-      content,
-      timestamp: Date.now(),
-    })
-
-    // Trim history if too long
-    if (session.conversationHistory.length > this.maxMessagesPerSession) {
-      session.conversationHistory = session.conversationHistory.slice(
-        -this.maxMessagesPerSession
-      )
+    // Keep the window within its message and token budgets
+    // Older messages wait in `evicted` until compactHistory folds them into the summary
+    const historyTokens = () =>
+      session.conversationHistory.reduce((total, msg) => total + estimateTokens(msg.content), 0)
+    while (
+      session.conversationHistory.length > MIN_RECENT_MESSAGES &&
+      (session.conversationHistory.length > this.maxMessagesPerSession || historyTokens() > this.maxHistoryTokens)
+    ) {
+      session.evicted.push(session.conversationHistory.shift()!)
     }
 
     session.metadata.updatedAt = Date.now()
@@ -97,12 +245,65 @@ export class TracerMemoryManager {
     return session?.conversationHistory || []
   }
 
+  /**
+   * Fold evicted messages into the running summary and pin any key facts.
+   * If the summarizer fails the messages stay queued and we try again next time -
+   * after MAX_SUMMARY_FAILURES in a row, only the newest of them are kept.
+   */
+  async compactHistory(sessionId: string, summarizer: HistorySummarizer, callbacks?: Callbacks): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (!session || session.evicted.length === 0) return
+
+    const pending = session.evicted
+    try {
+      const { summary, facts } = await summarizer.summarize(session.summary, pending, callbacks)
+      session.summary = summary
+      facts.forEach(fact => this.pinFact(sessionId, fact))
+      // Only drop what we summarized - more may have been evicted in the meantime
+      session.evicted = session.evicted.slice(pending.length)
+      session.summaryFailures = 0
+    } catch (error) {
+      console.error("Conversation summary error:", error)
+      session.summaryFailures++
+      const dropped = session.evicted.length - MAX_EVICTED_MESSAGES
+      if (session.summaryFailures >= MAX_SUMMARY_FAILURES && dropped > 0) {
+        console.warn(`Dropping ${dropped} unsummarized messages from ${sessionId} after ${session.summaryFailures} failed summaries`)
+        session.evicted = session.evicted.slice(dropped)
+      }
+    }
+  }
+
+  /**
+   * Keep a fact no matter what gets summarized - until MAX_PINNED_FACTS newer ones push it out
+   */
+  pinFact(sessionId: string, fact: string): void {
+    const session = this.getSession(sessionId)
+    const text = fact.trim()
+    if (text && !session.pinnedFacts.some(existing => existing.toLowerCase() === text.toLowerCase())) {
+      session.pinnedFacts.push(text)
+      session.pinnedFacts.splice(0, session.pinnedFacts.length - MAX_PINNED_FACTS)
+    }
+  }
+
+  /**
+   * The summary and pinned facts for a session
+   */
+  getConversationMemory(sessionId: string): ConversationMemory {
+    const session = this.sessions.get(sessionId)
+    return {
+      summary: session?.summary ?? "",
+      pinnedFacts: session?.pinnedFacts ?? [],
+      unsummarized: session ? [...session.evicted, ...session.conversationHistory] : [],
+    }
+  }
+
   /**
    * Create a LangChain memory instance for a session
+   * Built fresh from this session's history, so sessions never share memory
    */
   async createLangChainMemory(sessionId: string): Promise<BufferMemory> {
     const session = this.getSession(sessionId)
-    const messages = session.conversationHistory.map(msg => {
+    const messages = [...session.evicted, ...session.conversationHistory].map(msg => {
       switch (msg.role) {
         case "user":
           return new HumanMessage(msg.content)
@@ -113,12 +314,20 @@ export class TracerMemoryManager {
       }
     })
 
+    // Whatever has been summarized away comes first, as a system note
+    const memoryNote = formatConversationMemory(this.getConversationMemory(sessionId))
+    if (memoryNote) {
+      messages.unshift(new SystemMessage(memoryNote))
+    }
+
     const chatHistory = new ChatMessageHistory(messages)
 
     return new BufferMemory({
       chatHistory,
       returnMessages: true,
       memoryKey: "chat_history",
+      inputKey: "input",
+      outputKey: "output",
     })
   }
 
@@ -139,14 +348,12 @@ export class TracerMemoryManager {
       summary += `Project: ${session.projectSession.projectName}\n`
       summary += `Phase: ${session.projectSession.currentPhase}\n`
       summary += `Questions Asked: ${session.projectSession.questionsAsked.length}\n`
-      if (session.projectSession.requirements) {
-        summary += `  ✓ Requirements generated\n`
-      }
-      if (session.projectSession.design) {
-        summary += `  ✓ Design generated\n`
-      }
-      if (session.projectSession.tasks) {
-        summary += `  ✓ Tasks generated\n`
+      // Structured data can be filled in by the agent's tools before any document exists,
+      // so the documents themselves are what count as "generated"
+      for (const phase of getPhasePipeline().list()) {
+        if (session.projectSession.documents[phase.id]) {
+          summary += `  ✓ ${phase.indicator.label} generated\n`
+        }
       }
     }
 
@@ -166,6 +373,7 @@ export class TracerMemoryManager {
       conversationHistory: [],
       questionsAsked: [],
       userAnswers: {},
+      documents: {},
       metadata: {
         createdAt: Date.now(),
         updatedAt: Date.now(),
@@ -194,12 +402,95 @@ export class TracerMemoryManager {
     const session = this.getSession(sessionId)
     if (session.projectSession) {
       session.projectSession.currentPhase = phase
+      // Any pending proposal was for the phase we just left
+      session.projectSession.pendingPhaseAdvance = undefined
       session.projectSession.metadata.updatedAt = Date.now()
       session.projectSession.metadata.lastPhaseChange = Date.now()
       this.sessions.set(sessionId, session)
     }
   }
 
+  /**
+   * Rename the project
+   */
+  setProjectName(sessionId: string, projectName: string): void {
+    const session = this.getSession(sessionId)
+    if (session.projectSession) {
+      session.projectSession.projectName = projectName
+      if (session.projectSession.requirements) {
+        session.projectSession.requirements.projectName = projectName
+      }
+      session.projectSession.metadata.updatedAt = Date.now()
+      this.sessions.set(sessionId, session)
+    }
+  }
+
+  /**
+   * Update a single requirements field, e.g. "features" or "techStack.frontend"
+   * Starts an empty RequirementsData if nothing has been recorded yet
+   */
+  updateRequirement(sessionId: string, field: RequirementField, value: string | string[]): void {
+    const session = this.getSession(sessionId)
+    const projectSession = session.projectSession
+    if (!projectSession) return
+
+    const requirements = projectSession.requirements ?? createEmptyRequirements(projectSession.projectName)
+    const [group, key] = field.split(".") as [string, string | undefined]
+
+    if (key) {
+      // Nested fields: techStack.* are lists, theme.colors is a list, the rest are text
+      const target = requirements[group as "techStack" | "theme" | "usage"] as Record<string, string | string[] | undefined>
+      target[key] = group === "techStack" || key === "colors" ? toList(value) : toText(value)
+    } else if (group === "features" || group === "constraints") {
+      requirements[group] = toList(value)
+    } else {
+      (requirements as unknown as Record<string, string>)[group] = toText(value)
+    }
+
+    requirements.metadata.updatedAt = Date.now()
+    projectSession.requirements = requirements
+    projectSession.metadata.updatedAt = Date.now()
+    this.sessions.set(sessionId, session)
+  }
+
+  /**
+   * Record that the agent thinks the current phase is finished
+   */
+  proposePhaseAdvance(sessionId: string, reason: string): void {
+    const session = this.getSession(sessionId)
+    if (session.projectSession) {
+      session.projectSession.pendingPhaseAdvance = {
+        phase: session.projectSession.currentPhase,
+        reason,
+        requestedAt: Date.now(),
+      }
+      this.sessions.set(sessionId, session)
+    }
+  }
+
+  /**
+   * Ask for a document to be generated at the end of this turn
+   */
+  requestDocument(sessionId: string, type: DocumentType): void {
+    const session = this.getSession(sessionId)
+    if (session.projectSession) {
+      session.projectSession.documentRequest = type
+      this.sessions.set(sessionId, session)
+    }
+  }
+
+  /**
+   * Get and clear the pending document request
+   */
+  takeDocumentRequest(sessionId: string): DocumentType | undefined {
+    const projectSession = this.getProjectSession(sessionId)
+    const request = projectSession?.documentRequest
+    if (projectSession) {
+      projectSession.documentRequest = undefined
+    }
+    return request
+  }
+
   /**
    * Store requirements data
    */
@@ -236,6 +527,64 @@ export class TracerMemoryManager {
     }
   }
 
+  /**
+   * Store a generated markdown document
+   */
+  setDocument(sessionId: string, type: DocumentType, content: string): void {
+    const session = this.getSession(sessionId)
+    if (session.projectSession) {
+      session.projectSession.documents[type] = content
+      session.projectSession.metadata.updatedAt = Date.now()
+      this.sessions.set(sessionId, session)
+    }
+  }
+
+  /**
+   * Store the latest consistency review - it replaces the previous one
+   */
+  setReview(sessionId: string, review: ConsistencyReview): void {
+    const session = this.getSession(sessionId)
+    if (session.projectSession) {
+      session.projectSession.review = review
+      session.projectSession.metadata.updatedAt = Date.now()
+      this.sessions.set(sessionId, session)
+    }
+  }
+
+  /**
+   * Mark review issues as accepted for the next regeneration pass.
+   * Unknown ids (e.g. from a review that has since been replaced) are ignored.
+   */
+  acceptReviewIssues(sessionId: string, issueIds: string[]): ReviewIssue[] {
+    const review = this.getProjectSession(sessionId)?.review
+    if (!review) return []
+
+    const accepted = review.issues.filter(issue => issueIds.includes(issue.id))
+    accepted.forEach(issue => { issue.status = "accepted" })
+    return accepted
+  }
+
+  /**
+   * Append newly recorded architecture decisions, marking the ones they supersede
+   */
+  addDecisions(sessionId: string, decisions: ArchitectureDecision[]): void {
+    const session = this.getSession(sessionId)
+    if (session.projectSession) {
+      const records = session.projectSession.decisions ?? []
+      for (const decision of decisions) {
+        const superseded = records.find(record => record.number === decision.supersedes)
+        if (superseded) {
+          superseded.status = "superseded"
+          superseded.supersededBy = decision.number
+        }
+        records.push(decision)
+      }
+      session.projectSession.decisions = records
+      session.projectSession.metadata.updatedAt = Date.now()
+      this.sessions.set(sessionId, session)
+    }
+  }
+
   /**
    * Add question to asked list
    */
@@ -258,6 +607,14 @@ export class TracerMemoryManager {
     }
   }
 
+  /**
+   * Score how well the requirements interview covers each category
+   */
+  getRequirementsCoverage(sessionId: string): RequirementsCoverage | null {
+    const projectSession = this.getProjectSession(sessionId)
+    return projectSession ? scoreRequirementsCoverage(projectSession) : null
+  }
+
   /**
    * Check if phase is complete
    */
@@ -265,20 +622,18 @@ export class TracerMemoryManager {
     const session = this.sessions.get(sessionId)
     if (!session?.projectSession) return false
 
-    switch (phase) {
-      case "requirements":
-        return !!session.projectSession.requirements
-      case "design":
-        return !!session.projectSession.design
-      case "tasks":
-        return !!session.projectSession.tasks
-      case "complete":
-        return !!(session.projectSession.requirements && 
-                  session.projectSession.design && 
-                  session.projectSession.tasks)
-      default:
-        return false
+    // The agent can explicitly declare the current phase done
+    if (session.projectSession.pendingPhaseAdvance?.phase === phase) {
+      return true
     }
+
+    // Each phase decides for itself - the whole project is done when every phase's document exists
+    const pipeline = getPhasePipeline()
+    if (phase === "complete") {
+      const documents = session.projectSession.documents
+      return pipeline.list().every(definition => !!documents[definition.id])
+    }
+    return pipeline.get(phase)?.isComplete(session.projectSession) ?? false
   }
 
   /**
@@ -335,6 +690,20 @@ export class TracerMemoryManager {
   }
 }
 
+/**
+ * Render the summary and pinned facts as text, or an empty string if there are none
+ */
+export function formatConversationMemory(memory: ConversationMemory): string {
+  const parts: string[] = []
+  if (memory.summary) {
+    parts.push(`Summary of the earlier conversation:\n${memory.summary}`)
+  }
+  if (memory.pinnedFacts.length > 0) {
+    parts.push(`Key facts:\n${memory.pinnedFacts.map(fact => `- ${fact}`).join("\n")}`)
+  }
+  return parts.join("\n\n")
+}
+
 // Singleton instance for the application
 let memoryManager: TracerMemoryManager | null = null
 
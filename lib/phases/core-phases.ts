@@ -0,0 +1,95 @@
+import { scoreRequirementsCoverage } from "../analysis/requirements-coverage"
+import { applyTopologicalOrder, validateTaskGraph, type TaskGraphReport } from "../analysis/task-graph"
+import { computeSchedule, formatScheduleMarkdown, formatTotalEstimate, totalEffort } from "../analysis/schedule"
+import { PHASE_PROMPTS } from "../prompts/phase-prompts"
+import { registerPhase } from "./pipeline"
+
+/**
+ * Core Phases
+ *
+ * Requirements → Design → Tasks. Each one generates its document, then pulls
+ * structured data out of it for everything downstream (reviews, exports,
+ * the next phase's context).
+ */
+
+// Longest list of task graph problems we put in a reply - the rest are summarised
+const MAX_LISTED_TASK_ISSUES = 8
+
+// Problems in the task dependency graph - the order itself has already been fixed up where possible
+function taskGraphNotices(report: TaskGraphReport): string[] {
+  const notices: string[] = []
+  const issues = report.issues.filter(issue => !(report.isAcyclic && issue.kind === "ordered-before-prerequisite"))
+  if (report.isAcyclic && issues.length < report.issues.length) {
+    notices.push("↕️ Some tasks came before their prerequisites - I've reordered the task list to follow the dependencies.")
+  }
+  if (issues.length > 0) {
+    const listed = issues.slice(0, MAX_LISTED_TASK_ISSUES).map(issue => `- ${issue.message}`)
+    if (issues.length > listed.length) {
+      listed.push(`- ...and ${issues.length - listed.length} more`)
+    }
+    notices.push(`⚠️ The task dependencies need attention:\n${listed.join("\n")}`)
+  }
+  return notices
+}
+
+registerPhase({
+  id: "requirements",
+  fileName: "Requirements.md",
+  indicator: { label: "Requirements", description: "Understanding your project" },
+  prompt: PHASE_PROMPTS.requirements,
+  introduction: "Let's start by understanding what you want to build.",
+  dependsOn: [],
+  // Complete once the interview covers enough - partial requirements recorded
+  // by the agent's tools don't count on their own
+  isComplete: session => !!session.documents.requirements || scoreRequirementsCoverage(session).isComplete,
+  generate: ({ session, sessionId, memoryManager, documentGenerator, callbacks }) =>
+    documentGenerator.generateRequirements(session, memoryManager.getConversationMemory(sessionId), callbacks.generation),
+  afterGenerate: async ({ session, sessionId, memoryManager, extractor, callbacks }, generated) => {
+    const requirements = await extractor.extractRequirements(session, generated.content, callbacks.extraction)
+    requirements.metadata.promptVersion = generated.promptVersion
+    memoryManager.setRequirements(sessionId, requirements)
+  },
+})
+
+registerPhase({
+  id: "design",
+  fileName: "Design.md",
+  indicator: { label: "Design", description: "System architecture" },
+  prompt: PHASE_PROMPTS.design,
+  introduction: "Now let's move to the design phase. I'll help you create a system architecture.",
+  dependsOn: ["requirements"],
+  isComplete: session => !!session.design,
+  generate: ({ session, inputs, reviewFeedback, documentGenerator, callbacks }) =>
+    documentGenerator.generateDesign(inputs.requirements || "", session, reviewFeedback, callbacks.generation),
+  afterGenerate: async ({ session, sessionId, memoryManager, extractor, callbacks }, generated) => {
+    const design = await extractor.extractDesign(generated.content, session, callbacks.extraction)
+    design.metadata.promptVersion = generated.promptVersion
+    memoryManager.setDesign(sessionId, design)
+  },
+})
+
+registerPhase({
+  id: "tasks",
+  fileName: "Tasks.md",
+  indicator: { label: "Tasks", description: "Implementation plan" },
+  prompt: PHASE_PROMPTS.tasks,
+  introduction: "Now let's break this down into tasks. I'll create a detailed task list.",
+  dependsOn: ["requirements", "design"],
+  isComplete: session => !!session.tasks,
+  generate: ({ inputs, reviewFeedback, documentGenerator, callbacks }) =>
+    documentGenerator.generateTasks(inputs.design || "", inputs.requirements || "", reviewFeedback, callbacks.generation),
+  afterGenerate: async ({ session, sessionId, memoryManager, extractor, callbacks }, generated) => {
+    const tasks = await extractor.extractTasks(generated.content, session, callbacks.extraction)
+    tasks.metadata.promptVersion = generated.promptVersion
+    // Check the dependency graph and store the tasks in canonical topological order
+    const taskGraph = validateTaskGraph(tasks)
+    // Schedule from the parsed estimates - the critical path goes at the end of Tasks.md
+    const schedule = computeSchedule(tasks, taskGraph)
+    tasks.totalEstimate = formatTotalEstimate(totalEffort(tasks), schedule)
+    memoryManager.setTasks(sessionId, applyTopologicalOrder(tasks, taskGraph))
+    return {
+      ...(schedule ? { content: `${generated.content.trimEnd()}\n\n${formatScheduleMarkdown(schedule)}` } : {}),
+      notices: taskGraphNotices(taskGraph),
+    }
+  },
+})
@@ -0,0 +1,7 @@
+// The phase pipeline with every phase registered
+// Each phase module registers itself on import - add new ones after the core phases,
+// in the order they should run (or give them a position, see pipeline.ts)
+
+import "./core-phases"
+
+export * from "./pipeline"
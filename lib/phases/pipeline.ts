@@ -0,0 +1,233 @@
+import type { Callbacks } from "@langchain/core/callbacks/manager"
+import type { DocumentGeneration, DocumentGeneratorChain } from "../chains/document-generator"
+import type { StructuredExtractorChain } from "../chains/structured-extractor"
+import type { TracerMemoryManager } from "../memory/session-manager"
+import { registerPrompt } from "../prompts/registry"
+import type { DocumentType, ProjectPhase, ProjectSession } from "../types/project"
+
+/**
+ * Phase Pipeline
+ *
+ * The planning workflow as an ordered list of registered phases. Each phase
+ * declares everything the app needs to run it:
+ * - the agent's instructions while it's the current phase (registered as the
+ *   "system.<id>" prompt, so it can be versioned as a file like any other)
+ * - when it has enough to generate its document
+ * - how the document is generated, and what happens to it afterwards
+ * - which earlier phases' documents it reads
+ * - how it's shown in the PhaseIndicator
+ *
+ * Requirements, design and tasks are registered in core-phases.ts. More can be
+ * registered from their own module, imported in lib/phases/index.ts - e.g. a
+ * "security-review" phase after design:
+ *
+ *   registerPhase({ id: "security-review", ... }, { after: "design" })
+ *
+ * When the last phase's document is generated the project moves to "complete".
+ */
+
+// How a phase shows up in the PhaseIndicator
+export interface PhaseIndicatorMetadata {
+  label: string
+  description: string
+}
+
+export interface PhaseIndicatorItem extends PhaseIndicatorMetadata {
+  id: string
+}
+
+// Where a session is in the pipeline - what the PhaseIndicator shows
+export interface PhaseProgress {
+  phases: PhaseIndicatorItem[]
+  currentPhase: ProjectPhase
+  // Phases whose document has been generated
+  completedPhases: ProjectPhase[]
+}
+
+// Everything a phase's generator gets to work with
+export interface PhaseContext {
+  sessionId: string
+  session: ProjectSession
+  memoryManager: TracerMemoryManager
+  documentGenerator: DocumentGeneratorChain
+  extractor: StructuredExtractorChain
+  // Documents of the phases this one depends on, by phase id - only the ones generated so far
+  inputs: Partial<Record<DocumentType, string>>
+  // Accepted consistency review issues to fix, if this is a regeneration pass
+  reviewFeedback?: string
+  // For usage tracking - the document call and any structured extraction
+  callbacks: { generation: Callbacks; extraction: Callbacks }
+}
+
+// What a phase did with its document once it was stored
+export interface PhaseOutcome {
+  // A replacement for the stored document, e.g. with a computed section added
+  content?: string
+  // Notes for the user, appended to the reply as they are
+  notices?: string[]
+}
+
+export interface PhaseDefinition {
+  // Used for the phase, its document and its prompt - "requirements", "security-review"
+  id: string
+  // The document the phase produces - "Requirements.md"
+  fileName: string
+  indicator: PhaseIndicatorMetadata
+  // The agent's instructions while this is the current phase
+  prompt: string
+  // Said when the project moves into this phase
+  introduction: string
+  // Phases whose documents the generator reads - they have to come earlier in the pipeline
+  dependsOn: DocumentType[]
+  // Whether the phase has enough to generate its document without being asked
+  isComplete(session: ProjectSession): boolean
+  // Write the document
+  generate(context: PhaseContext): Promise<DocumentGeneration>
+  // Runs after the document is stored - extract structured data, check it, amend the document
+  afterGenerate?(context: PhaseContext, generated: DocumentGeneration): Promise<PhaseOutcome | void>
+}
+
+/**
+ * Thrown when the registered phases don't make a valid pipeline
+ */
+export class PhasePipelineError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid phase pipeline:\n${issues.map(issue => `- ${issue}`).join("\n")}`)
+    this.name = "PhasePipelineError"
+  }
+}
+
+// Where a phase goes - the end of the pipeline unless it says otherwise
+export interface PhasePosition {
+  after?: string
+  before?: string
+}
+
+export class PhasePipeline {
+  private phases: PhaseDefinition[] = []
+
+  /**
+   * Register a phase (or replace one with the same id, keeping its place)
+   */
+  register(definition: PhaseDefinition, position: PhasePosition = {}): void {
+    if (definition.id === "complete") {
+      throw new PhasePipelineError([`"complete" is reserved for the end of the pipeline`])
+    }
+
+    registerPrompt({
+      name: `system.${definition.id}`,
+      version: 1,
+      template: definition.prompt,
+      inputVariables: [],
+      literal: true,
+      description: `Agent instructions for the ${definition.indicator.label} phase`,
+    })
+
+    const existing = this.phases.findIndex(phase => phase.id === definition.id)
+    if (existing !== -1 && !position.after && !position.before) {
+      this.phases[existing] = definition
+      return
+    }
+    if (existing !== -1) {
+      this.phases.splice(existing, 1)
+    }
+
+    const anchor = position.after ?? position.before
+    const anchorIndex = anchor ? this.phases.findIndex(phase => phase.id === anchor) : -1
+    if (anchor && anchorIndex === -1) {
+      throw new PhasePipelineError([`Phase "${definition.id}" is positioned relative to "${anchor}", which isn't registered`])
+    }
+    const index = !anchor ? this.phases.length : position.after ? anchorIndex + 1 : anchorIndex
+    this.phases.splice(index, 0, definition)
+  }
+
+  /**
+   * A registered phase by id - undefined for "complete" and anything unknown
+   */
+  get(id: string): PhaseDefinition | undefined {
+    return this.phases.find(phase => phase.id === id)
+  }
+
+  /**
+   * Every phase, in order
+   */
+  list(): PhaseDefinition[] {
+    return [...this.phases]
+  }
+
+  ids(): string[] {
+    return this.phases.map(phase => phase.id)
+  }
+
+  /**
+   * The phase after this one, or undefined if it's the last
+   */
+  next(id: string): PhaseDefinition | undefined {
+    const index = this.phases.findIndex(phase => phase.id === id)
+    return index === -1 ? undefined : this.phases[index + 1]
+  }
+
+  indicators(): PhaseIndicatorItem[] {
+    return this.phases.map(phase => ({ id: phase.id, ...phase.indicator }))
+  }
+
+  progress(session: ProjectSession): PhaseProgress {
+    return {
+      phases: this.indicators(),
+      currentPhase: session.currentPhase,
+      completedPhases: this.ids().filter(id => !!session.documents[id]),
+    }
+  }
+
+  /**
+   * Check the pipeline - every dependency has to be a phase that comes earlier.
+   * Returns the problems found - an empty list means the pipeline is usable.
+   */
+  validate(): string[] {
+    const issues: string[] = []
+    if (this.phases.length === 0) {
+      issues.push("No phases are registered")
+    }
+    this.phases.forEach((phase, index) => {
+      for (const dependency of phase.dependsOn) {
+        const dependencyIndex = this.phases.findIndex(candidate => candidate.id === dependency)
+        if (dependencyIndex === -1) {
+          issues.push(`Phase "${phase.id}" depends on "${dependency}", which isn't registered`)
+        } else if (dependencyIndex >= index) {
+          issues.push(`Phase "${phase.id}" depends on "${dependency}", which comes after it`)
+        }
+      }
+    })
+    return issues
+  }
+
+  /**
+   * Validate and throw PhasePipelineError if anything is wrong - call at startup
+   */
+  assertValid(): void {
+    const issues = this.validate()
+    if (issues.length > 0) {
+      throw new PhasePipelineError(issues)
+    }
+  }
+}
+
+// Singleton instance for the application
+let phasePipeline: PhasePipeline | null = null
+
+/**
+ * Get the global phase pipeline
+ */
+export function getPhasePipeline(): PhasePipeline {
+  if (!phasePipeline) {
+    phasePipeline = new PhasePipeline()
+  }
+  return phasePipeline
+}
+
+/**
+ * Register a phase with the global pipeline
+ */
+export function registerPhase(definition: PhaseDefinition, position?: PhasePosition): void {
+  getPhasePipeline().register(definition, position)
+}
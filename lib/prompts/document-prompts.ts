@@ -0,0 +1,131 @@
+import { registerPrompt } from "./registry"
+
+/**
+ * Document Prompts
+ *
+ * Built-in templates for the three core documents. Newer versions can be
+ * dropped into the prompts directory - see registry.ts.
+ *
+ * Design and tasks take {reviewFeedback}: issues from the consistency reviewer
+ * the user accepted, or "(none)".
+ */
+
+// REQUIREMENTS TEMPLATE
+// Takes conversation history and generates a structured requirements document
+const REQUIREMENTS_TEMPLATE = `Based on the following conversation and gathered information, generate a comprehensive Requirements.md document.
+
+Project Information:
+{projectInfo}
+
+Earlier Conversation:
+{earlierConversation}
+
+Conversation History:
+{conversationHistory}
+
+User Answers:
+{userAnswers}
+
+Generate a well-structured Requirements.md document with the following sections:
+1. Project Overview
+2. Target Audience
+3. Core Features
+4. Technical Stack
+5. Design & Theme Preferences
+6. Constraints & Requirements
+7. Success Criteria
+
+Format the output as valid Markdown. Be specific and detailed. Include all gathered information.`
+
+// DESIGN TEMPLATE
+// Takes requirements and creates a comprehensive system architecture
+const DESIGN_TEMPLATE = `Based on the requirements document, create a comprehensive system design.
+
+Requirements:
+{requirements}
+
+Review Feedback To Address:
+{reviewFeedback}
+
+Create a detailed Design.md document with:
+1. Architecture Overview (high-level system design)
+2. Component Structure (frontend, backend, services)
+3. Data Models (entities, relationships, schemas)
+4. API Design (endpoints, methods, data flow)
+5. Technology Stack Rationale (why each technology was chosen)
+6. Security Considerations
+7. Scalability & Performance Strategy
+8. Deployment Architecture
+
+Format as valid Markdown with diagrams in Mermaid syntax where helpful.`
+
+// TASKS TEMPLATE
+// Takes design and requirements, outputs a chronological implementation plan
+const TASKS_TEMPLATE = `Based on the design document, create a chronological task list for building the project.
+
+Design Document:
+{design}
+
+Requirements:
+{requirements}
+
+Review Feedback To Address:
+{reviewFeedback}
+
+Generate a Tasks.md document with numbered tasks in this format:
+
+## Phase 1: Setup & Foundation
+### Task 1: [Category] Task Title
+**Description:** What needs to be done
+**Dependencies:** Tasks that must be completed first (if any)
+**Estimated Time:** Time estimate
+**Acceptance Criteria:**
+- Specific criterion 1
+- Specific criterion 2
+**Technical Details:**
+- Implementation notes
+- Code snippets if relevant
+- Configuration details
+
+Include these phases:
+1. Project Setup & Configuration
+2. Core Infrastructure
+3. Database & Models
+4. API Development
+5. Frontend Components
+6. Integration
+7. Testing
+8. Deployment
+9. Documentation
+
+Each task should be:
+- Specific enough for an AI agent to execute
+- In logical chronological order
+- With clear acceptance criteria
+- Properly sequenced with dependencies
+
+Format as valid Markdown.`
+
+registerPrompt({
+  name: "document.requirements",
+  version: 1,
+  template: REQUIREMENTS_TEMPLATE,
+  inputVariables: ["projectInfo", "earlierConversation", "conversationHistory", "userAnswers"],
+  description: "Requirements.md from the requirements interview",
+})
+
+registerPrompt({
+  name: "document.design",
+  version: 2,
+  template: DESIGN_TEMPLATE,
+  inputVariables: ["requirements", "reviewFeedback"],
+  description: "Design.md from the requirements document",
+})
+
+registerPrompt({
+  name: "document.tasks",
+  version: 2,
+  template: TASKS_TEMPLATE,
+  inputVariables: ["design", "requirements", "reviewFeedback"],
+  description: "Tasks.md from the design and requirements documents",
+})
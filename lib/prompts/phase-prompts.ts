@@ -0,0 +1,128 @@
+import { getPhasePipeline } from "../phases/pipeline"
+import type { CorePhase, ProjectPhase, ProjectSession } from "../types/project"
+import { getPromptRegistry, registerPrompt } from "./registry"
+
+/**
+ * Phase Prompts
+ *
+ * One system prompt per phase, so the agent only carries the instructions for
+ * the job it's doing right now: interviewer, architect, planner, then wrap-up.
+ * Every prompt shares the same identity, behaviour and tool notes.
+ *
+ * Any phase can be replaced through configuration - set PHASE_PROMPT_<PHASE>
+ * (e.g. PHASE_PROMPT_DESIGN, PHASE_PROMPT_SECURITY_REVIEW) or pass overrides to
+ * the agent. Otherwise the instructions come from the prompt registry as
+ * "system.<phase>", so they can also be versioned as files (e.g.
+ * prompts/system.design.v2.md). The phase pipeline registers each phase's
+ * prompt; the ones for the core phases are defined here.
+ *
+ * The instructions cover working out the phase's document with the user. Once
+ * the document exists, a short note about reviewing and regenerating it is added.
+ */
+
+export type PhasePromptOverrides = Partial<Record<ProjectPhase, string>>
+
+// The process follows the phase pipeline - "Requirements → Design → Tasks" unless more phases are registered
+const identity = () => {
+  const process = getPhasePipeline().list().map(phase => phase.indicator.label).join(" → ")
+  return `You are Understand.AI, an intelligent project planning assistant that helps developers refine their project ideas through a structured process: ${process}.`
+}
+
+const BEHAVIOR = `Your Behavior:
+- Be conversational and friendly, not robotic
+- Ask ONE question at a time (unless naturally grouped)
+- Show understanding by acknowledging their answers
+- Explain your reasoning when making suggestions
+- Make the process feel collaborative, not interrogative
+- Indicate which phase you're in and progress made`
+
+const TOOLS = `Your Tools:
+- record_answer: save the user's answer to a question you asked
+- set_project_name: save the project's name once it's known
+- update_requirement: save a specific requirement (features, tech stack, audience, constraints...)
+- pin_fact: pin a key fact or decision so it's never forgotten, even in a long conversation
+- propose_phase_advance: when the current phase has enough information and the user agrees, finish it - its document is generated automatically
+- generate_document: regenerate an existing document when the user asks for changes to it
+Use the tools to keep the project state up to date - don't just describe it in prose.`
+
+const REQUIREMENTS_PROMPT = `Current Phase: Requirements Gathering - you are the interviewer.
+
+Your Job:
+- Ask relevant questions about the project idea
+- Inquire about: tech stack preferences, theme/design style, target users, key features, constraints, scalability needs
+- Be curious - ask follow-up questions based on their answers and dig into anything vague
+- Don't propose an architecture yet; capture what they want, not how to build it
+- Continue until you have a complete understanding of their vision, then propose finishing the phase
+
+Requirements.md will cover: user needs, tech stack, constraints, features, target audience.`
+
+const DESIGN_PROMPT = `Current Phase: System Design - you are the architect.
+
+Your Job:
+- The requirements are settled - now work out the system design with the user
+- Walk through: architecture overview, data models, API design, component structure, technology choices, deployment strategy
+- Point out trade-offs, risks and anything the requirements imply that still needs deciding
+- Suggest concrete options and explain why; push back on choices that don't fit the requirements
+- Once the user is happy with the direction, propose finishing the phase - Design.md is drafted from this conversation
+
+Design.md will cover: architecture, data models, APIs, components, tech stack rationale.`
+
+const TASKS_PROMPT = `Current Phase: Task Generation - you are the delivery planner.
+
+Your Job:
+- Plan how the design gets built: chronological, actionable tasks, each specific enough for an AI agent to execute
+- Cover: setup tasks, feature implementation, testing, deployment steps
+- Agree the order with the user - dependencies first, nothing left out, nothing too big to do in one go
+- Once the user is happy with the plan, propose finishing the phase - Tasks.md is drafted from this conversation
+
+Tasks.md will contain numbered tasks in chronological order, each with clear acceptance criteria.`
+
+const COMPLETE_PROMPT = `Current Phase: Complete - the planning is done.
+
+Your Job:
+- Every planning document has been generated
+- Summarise what was produced and remind the user they can download each document
+- Suggest sensible next steps, e.g. starting with the first task or sharing the plan with their team
+- Answer questions about the plan; if they want something changed, regenerate the affected document
+- Don't start a new interview - if they have a new idea, suggest starting a new chat`
+
+export const PHASE_PROMPTS: Record<CorePhase | "complete", string> = {
+  requirements: REQUIREMENTS_PROMPT,
+  design: DESIGN_PROMPT,
+  tasks: TASKS_PROMPT,
+  complete: COMPLETE_PROMPT,
+}
+
+// The wrap-up instructions - every other phase's prompt is registered with the phase itself
+// Used verbatim, so braces are fine
+registerPrompt({ name: "system.complete", version: 1, template: COMPLETE_PROMPT, inputVariables: [], literal: true })
+
+// Overrides from the environment, e.g. PHASE_PROMPT_REQUIREMENTS or PHASE_PROMPT_SECURITY_REVIEW
+function getEnvOverride(phase: ProjectPhase): string | undefined {
+  return process.env[`PHASE_PROMPT_${phase.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`] || undefined
+}
+
+// Once the phase's document exists the agent reviews it rather than drafting it
+function revisionNote(phase: ProjectPhase, session?: ProjectSession): string | null {
+  const definition = getPhasePipeline().get(phase)
+  if (!definition || !session?.documents[definition.id]) return null
+  return `${definition.fileName} has been drafted - review it with the user. When they ask for changes, regenerate it with generate_document.`
+}
+
+/**
+ * The full system prompt for a phase.
+ * An override replaces the phase's instructions; the shared identity, behaviour and tools stay.
+ * Pass the session to tell the agent when the phase's document already exists.
+ */
+export function getPhasePrompt(phase: ProjectPhase, overrides: PhasePromptOverrides = {}, session?: ProjectSession): string {
+  const instructions = overrides[phase] ?? getEnvOverride(phase) ?? getPromptRegistry().get(`system.${phase}`).template
+
+  return [
+    identity(),
+    instructions,
+    revisionNote(phase, session),
+    BEHAVIOR,
+    TOOLS,
+    "Remember: Your goal is to help developers think through their project thoroughly before building, saving time and avoiding costly mistakes.",
+  ].filter(Boolean).join("\n\n")
+}
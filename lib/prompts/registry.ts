@@ -0,0 +1,254 @@
+import { createHash } from "crypto"
+import { existsSync, readdirSync, readFileSync, statSync } from "fs"
+import path from "path"
+import { PromptTemplate } from "@langchain/core/prompts"
+
+/**
+ * Prompt Registry
+ *
+ * Every prompt the app uses is registered here by name, with a built-in
+ * version compiled into the code. Newer versions can be dropped into the
+ * prompts directory as files named `<name>.v<version>.md`, e.g.
+ * `document.requirements.v2.md` - the highest version wins. A workspace can
+ * override any prompt from `<prompts dir>/workspaces/<workspace>/`.
+ *
+ * Files are re-read when they change, so prompts can be tuned without a
+ * redeploy. Input variables are checked against the built-in definition:
+ * a file that drops or invents a variable is rejected (and reported at startup).
+ *
+ * Configured with PROMPTS_DIR (default: ./prompts) and PROMPT_WORKSPACE.
+ */
+
+export interface PromptDefinition {
+  name: string
+  version: number
+  template: string
+  // Variables the template must use - files are validated against these
+  inputVariables: string[]
+  // Literal prompts are used as-is, so braces aren't variables
+  literal?: boolean
+  description?: string
+}
+
+export type PromptSource = "builtin" | "file" | "workspace"
+
+export interface ResolvedPrompt {
+  name: string
+  version: number
+  template: string
+  source: PromptSource
+  filePath?: string
+  // name@version#hash - recorded with everything the prompt produces
+  id: string
+}
+
+/**
+ * Thrown at startup when prompt files don't match their definitions
+ */
+export class PromptValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid prompt files:\n${issues.map(issue => `- ${issue}`).join("\n")}`)
+    this.name = "PromptValidationError"
+  }
+}
+
+// e.g. document.requirements.v2.md → ["document.requirements", "2"]
+const PROMPT_FILE_PATTERN = /^(.+)\.v(\d+)\.md$/
+
+export function getPromptsDir(): string {
+  return process.env.PROMPTS_DIR || path.join(process.cwd(), "prompts")
+}
+
+export function getPromptWorkspace(): string | undefined {
+  return process.env.PROMPT_WORKSPACE || undefined
+}
+
+const hashTemplate = (template: string) => createHash("sha256").update(template).digest("hex").slice(0, 8)
+
+interface PromptFile {
+  name: string
+  version: number
+  filePath: string
+}
+
+type LoadedFile = { mtimeMs: number; template: string; issues: string[] }
+
+export class PromptRegistry {
+  private definitions = new Map<string, PromptDefinition>()
+  // Parsed files, re-read when their modification time changes
+  private files = new Map<string, LoadedFile>()
+
+  constructor(
+    private promptsDir: string = getPromptsDir(),
+    private workspace: string | undefined = getPromptWorkspace()
+  ) {}
+
+  /**
+   * Register a built-in prompt (or replace one)
+   */
+  register(definition: PromptDefinition): void {
+    this.definitions.set(definition.name, definition)
+  }
+
+  /**
+   * A registry with the same built-in prompts, reading files from another
+   * directory or workspace - e.g. to compare two prompt versions side by side
+   */
+  withOverrides(promptsDir: string = this.promptsDir, workspace: string | undefined = this.workspace): PromptRegistry {
+    const registry = new PromptRegistry(promptsDir, workspace)
+    this.definitions.forEach(definition => registry.register(definition))
+    return registry
+  }
+
+  /**
+   * The active version of a prompt: workspace override, then the highest
+   * valid file version, then the built-in one
+   */
+  get(name: string): ResolvedPrompt {
+    const definition = this.definitions.get(name)
+    if (!definition) {
+      throw new Error(`Unknown prompt "${name}". Registered: ${Array.from(this.definitions.keys()).join(", ")}`)
+    }
+
+    const sources: Array<[PromptSource, string | undefined]> = [
+      ["workspace", this.workspaceDir()],
+      ["file", this.promptsDir],
+    ]
+
+    for (const [source, dir] of sources) {
+      const candidates = this.scan(dir)
+        .filter(file => file.name === name && (source === "workspace" || file.version > definition.version))
+        .sort((a, b) => b.version - a.version)
+
+      for (const file of candidates) {
+        const loaded = this.load(file.filePath, definition)
+        if (loaded.issues.length > 0) {
+          console.error(`Ignoring prompt file ${file.filePath}:`, loaded.issues)
+          continue
+        }
+        return this.resolve(definition.name, file.version, loaded.template, source, file.filePath)
+      }
+    }
+
+    return this.resolve(definition.name, definition.version, definition.template, "builtin")
+  }
+
+  /**
+   * The active version of every registered prompt
+   */
+  list(): ResolvedPrompt[] {
+    return Array.from(this.definitions.keys()).map(name => this.get(name))
+  }
+
+  /**
+   * Check every prompt file against its definition.
+   * Returns the problems found - an empty list means everything is usable.
+   */
+  validate(): string[] {
+    const issues: string[] = []
+
+    for (const dir of [this.promptsDir, this.workspaceDir()]) {
+      for (const file of this.scan(dir)) {
+        const definition = this.definitions.get(file.name)
+        if (!definition) {
+          issues.push(`${file.filePath}: no prompt named "${file.name}"`)
+          continue
+        }
+        issues.push(...this.load(file.filePath, definition).issues.map(issue => `${file.filePath}: ${issue}`))
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Validate and throw PromptValidationError if anything is wrong - call at startup
+   */
+  assertValid(): void {
+    const issues = this.validate()
+    if (issues.length > 0) {
+      throw new PromptValidationError(issues)
+    }
+  }
+
+  private workspaceDir(): string | undefined {
+    return this.workspace ? path.join(this.promptsDir, "workspaces", this.workspace) : undefined
+  }
+
+  private scan(dir?: string): PromptFile[] {
+    if (!dir || !existsSync(dir)) return []
+
+    return readdirSync(dir).flatMap(fileName => {
+      const match = PROMPT_FILE_PATTERN.exec(fileName)
+      return match ? [{ name: match[1], version: Number(match[2]), filePath: path.join(dir, fileName) }] : []
+    })
+  }
+
+  private load(filePath: string, definition: PromptDefinition): LoadedFile {
+    const { mtimeMs } = statSync(filePath)
+    const cached = this.files.get(filePath)
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached
+    }
+
+    const template = readFileSync(filePath, "utf-8").trim()
+    const loaded = { mtimeMs, template, issues: checkVariables(template, definition) }
+    this.files.set(filePath, loaded)
+    return loaded
+  }
+
+  private resolve(name: string, version: number, template: string, source: PromptSource, filePath?: string): ResolvedPrompt {
+    return { name, version, template, source, filePath, id: `${name}@${version}#${hashTemplate(template)}` }
+  }
+}
+
+/**
+ * Compare a template's input variables with what its definition expects
+ */
+function checkVariables(template: string, definition: PromptDefinition): string[] {
+  if (!template) {
+    return ["template is empty"]
+  }
+  if (definition.literal) {
+    return []
+  }
+
+  let variables: string[]
+  try {
+    variables = PromptTemplate.fromTemplate(template).inputVariables as string[]
+  } catch (error) {
+    return [`template could not be parsed: ${(error as Error).message}`]
+  }
+
+  const expected = new Set(definition.inputVariables)
+  const issues: string[] = []
+  const missing = definition.inputVariables.filter(variable => !variables.includes(variable))
+  const unknown = variables.filter(variable => !expected.has(variable))
+  if (missing.length > 0) {
+    issues.push(`missing input variables: ${missing.map(variable => `{${variable}}`).join(", ")}`)
+  }
+  if (unknown.length > 0) {
+    issues.push(`unknown input variables: ${unknown.map(variable => `{${variable}}`).join(", ")} (use {{ }} for literal braces)`)
+  }
+  return issues
+}
+
+// Singleton instance for the application
+let promptRegistry: PromptRegistry | null = null
+
+/**
+ * Get the global prompt registry instance
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (!promptRegistry) {
+    promptRegistry = new PromptRegistry()
+  }
+  return promptRegistry
+}
+
+/**
+ * Register a built-in prompt with the global registry
+ */
+export function registerPrompt(definition: PromptDefinition): void {
+  getPromptRegistry().register(definition)
+}
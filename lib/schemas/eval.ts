@@ -0,0 +1,36 @@
+import { z } from "zod"
+
+/**
+ * Zod schema for golden conversation files (evals/golden/*.json).
+ * Mirrors GoldenConversation in lib/types/eval.ts - the name is filled in from
+ * the file name when it's left out.
+ */
+
+const expectedSections = z.array(z.string().min(1)).optional()
+
+export const goldenConversationSchema = z.object({
+  name: z.string().min(1).optional(),
+  projectName: z.string().min(1),
+  description: z.string().optional(),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string().min(1),
+      })
+    )
+    .min(1),
+  answers: z.record(z.string()).default({}),
+  expect: z.object({
+    features: z.array(z.string().min(1)).default([]),
+    sections: z
+      .object({
+        requirements: expectedSections,
+        design: expectedSections,
+        tasks: expectedSections,
+      })
+      .optional(),
+  }),
+})
+
+export type GoldenConversationFile = z.infer<typeof goldenConversationSchema>
@@ -0,0 +1,192 @@
+import { z } from "zod"
+
+/**
+ * Zod schemas for the structured project data
+ *
+ * These mirror the interfaces in lib/types/project.ts (minus metadata, which we
+ * fill in ourselves). They're deliberately forgiving about what LLMs tend to get
+ * wrong - nulls for missing values, numeric task IDs - but strict about shape.
+ */
+
+// LLMs like to send null for "not specified" - treat it the same as missing
+const optionalString = z.string().nullish().transform(value => value ?? undefined)
+const optionalStringArray = z.array(z.string()).nullish().transform(value => value ?? undefined)
+
+// Task IDs sometimes come back as numbers (1, 2, 3) - normalise them to strings
+const taskId = z.union([z.string(), z.number()]).transform(String)
+
+export const requirementsSchema = z.object({
+  // An empty name is as good as none
+  projectName: z.string().min(1).catch("Untitled Project"),
+  description: z.string().default(""),
+  techStack: z
+    .object({
+      frontend: optionalStringArray,
+      backend: optionalStringArray,
+      database: optionalStringArray,
+      deployment: optionalStringArray,
+      other: optionalStringArray,
+    })
+    .default({}),
+  features: z.array(z.string()).default([]),
+  targetAudience: z.string().default(""),
+  constraints: z.array(z.string()).default([]),
+  theme: z
+    .object({
+      style: optionalString,
+      colors: optionalStringArray,
+      preferences: optionalString,
+    })
+    .default({}),
+  usage: z
+    .object({
+      expectedUsers: optionalString,
+      scalability: optionalString,
+      performance: optionalString,
+    })
+    .default({}),
+  timeline: optionalString,
+  budget: optionalString,
+})
+
+export const designSchema = z.object({
+  architecture: z
+    .object({
+      overview: z.string().default(""),
+      components: z
+        .array(
+          z.object({
+            name: z.string().min(1),
+            responsibility: z.string().default(""),
+            dependencies: z.array(z.string()).default([]),
+          })
+        )
+        .default([]),
+      dataFlow: z.string().default(""),
+    })
+    .default({}),
+  dataModels: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        fields: z
+          .array(
+            z.object({
+              name: z.string().min(1),
+              type: z.string().default("string"),
+              description: z.string().default(""),
+            })
+          )
+          .default([]),
+        relationships: z.array(z.string()).default([]),
+      })
+    )
+    .default([]),
+  apiDesign: z
+    .object({
+      endpoints: z
+        .array(
+          z.object({
+            method: z.string().min(1),
+            path: z.string().min(1),
+            description: z.string().default(""),
+            requestBody: optionalString,
+            response: z.string().default(""),
+          })
+        )
+        .default([]),
+      authentication: optionalString,
+      rateLimit: optionalString,
+    })
+    .default({}),
+  technologyChoices: z
+    .object({
+      frontend: z.string().default(""),
+      backend: z.string().default(""),
+      database: z.string().default(""),
+      deployment: z.string().default(""),
+      rationale: z.string().default(""),
+    })
+    .default({}),
+  deploymentStrategy: z
+    .object({
+      environment: z.string().default(""),
+      cicd: z.string().default(""),
+      monitoring: z.string().default(""),
+    })
+    .default({}),
+})
+
+export const taskSchema = z.object({
+  id: taskId,
+  title: z.string().min(1),
+  description: z.string().default(""),
+  category: z.enum(["setup", "feature", "testing", "deployment", "documentation"]),
+  dependencies: z.array(taskId).default([]),
+  estimatedTime: optionalString,
+  acceptanceCriteria: z.array(z.string()).default([]),
+  technicalDetails: optionalString,
+  order: z.number().int(),
+})
+
+export const tasksSchema = z.object({
+  tasks: z.array(taskSchema).default([]),
+  totalEstimate: optionalString,
+  phases: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        taskIds: z.array(taskId).default([]),
+        description: z.string().default(""),
+      })
+    )
+    .default([]),
+})
+
+export type ExtractedRequirements = z.infer<typeof requirementsSchema>
+export type ExtractedDesign = z.infer<typeof designSchema>
+export type ExtractedTasks = z.infer<typeof tasksSchema>
+
+// Rolling conversation summary - the summary text plus facts worth keeping forever
+export const conversationSummarySchema = z.object({
+  summary: z.string().min(1),
+  facts: z.array(z.string()).default([]),
+})
+
+export type ConversationSummary = z.infer<typeof conversationSummarySchema>
+
+// Consistency review - problems found between Requirements.md, Design.md and Tasks.md
+export const reviewIssueSchema = z.object({
+  kind: z.enum(["feature-without-component", "component-without-tasks", "tech-mismatch", "ignored-constraint"]),
+  severity: z.enum(["high", "medium", "low"]).catch("medium"),
+  subject: z.string().min(1),
+  description: z.string().min(1),
+  suggestion: z.string().default(""),
+  document: z.enum(["design", "tasks"]),
+})
+
+export const consistencyReviewSchema = z.object({
+  issues: z.array(reviewIssueSchema).default([]),
+})
+
+export type ExtractedReview = z.infer<typeof consistencyReviewSchema>
+
+// Architecture decisions pulled out of the design conversation and Design.md
+export const decisionRecordSchema = z.object({
+  title: z.string().min(1),
+  context: z.string().min(1),
+  options: z.array(z.object({
+    name: z.string().min(1),
+    summary: z.string().default(""),
+  })).default([]),
+  decision: z.string().min(1),
+  consequences: z.array(z.string()).default([]),
+  // Number of an earlier decision this one replaces
+  supersedes: z.number().int().positive().nullish(),
+})
+
+export const decisionRecordsSchema = z.object({
+  decisions: z.array(decisionRecordSchema).default([]),
+})
+
+export type ExtractedDecisionRecords = z.infer<typeof decisionRecordsSchema>
@@ -0,0 +1,110 @@
+import { tool } from "@langchain/core/tools"
+import { z } from "zod"
+import { REQUIREMENT_FIELDS, type TracerMemoryManager } from "../memory/session-manager"
+import { getPhasePipeline } from "../phases"
+
+/**
+ * Project Tools
+ *
+ * Tools the agent uses to manage the planning workflow explicitly, instead of
+ * the route guessing from prose. Every tool calls straight through to the
+ * TracerMemoryManager for one session - build a fresh set per turn.
+ */
+
+export function createProjectTools(memoryManager: TracerMemoryManager, sessionId: string) {
+  // Any phase in the pipeline has a document that can be regenerated
+  const documentTypes = getPhasePipeline().ids() as [string, ...string[]]
+
+  const recordAnswer = tool(
+    async ({ question, answer }) => {
+      memoryManager.addUserAnswer(sessionId, question, answer)
+      return `Recorded answer to "${question}".`
+    },
+    {
+      name: "record_answer",
+      description: "Record the user's answer to an interview question. Call this whenever the user answers something you asked.",
+      schema: z.object({
+        question: z.string().describe("The question that was asked"),
+        answer: z.string().describe("The user's answer, summarised in their own terms"),
+      }),
+    }
+  )
+
+  const setProjectName = tool(
+    async ({ name }) => {
+      memoryManager.setProjectName(sessionId, name)
+      return `Project name set to "${name}".`
+    },
+    {
+      name: "set_project_name",
+      description: "Set the project's name once the user has given or agreed to one.",
+      schema: z.object({
+        name: z.string().min(1).describe("The project name"),
+      }),
+    }
+  )
+
+  const updateRequirement = tool(
+    async ({ field, value }) => {
+      memoryManager.updateRequirement(sessionId, field, value)
+      return `Updated requirement ${field}.`
+    },
+    {
+      name: "update_requirement",
+      description:
+        "Update one requirements field with what the user has told you. List fields (features, constraints, techStack.*, theme.colors) replace the whole list.",
+      schema: z.object({
+        field: z.enum(REQUIREMENT_FIELDS).describe("The requirements field to update"),
+        value: z.union([z.string(), z.array(z.string())]).describe("The new value - a list for list fields"),
+      }),
+    }
+  )
+
+  const pinFact = tool(
+    async ({ fact }) => {
+      memoryManager.pinFact(sessionId, fact)
+      return `Pinned: ${fact}`
+    },
+    {
+      name: "pin_fact",
+      description:
+        "Pin a key fact or decision (e.g. 'Backend is FastAPI on Fly.io') so it's remembered for the whole session, even after older messages are summarized.",
+      schema: z.object({
+        fact: z.string().min(1).describe("The fact, as one short sentence"),
+      }),
+    }
+  )
+
+  const proposePhaseAdvance = tool(
+    async ({ reason }) => {
+      memoryManager.proposePhaseAdvance(sessionId, reason)
+      const phase = memoryManager.getProjectSession(sessionId)?.currentPhase
+      return `Proposed finishing the ${phase} phase. Its document will be generated after this reply.`
+    },
+    {
+      name: "propose_phase_advance",
+      description:
+        "Declare the current phase finished once you have enough information and the user agrees. This generates the phase's document and moves on to the next phase.",
+      schema: z.object({
+        reason: z.string().describe("Why the phase is complete"),
+      }),
+    }
+  )
+
+  const generateDocument = tool(
+    async ({ type }) => {
+      memoryManager.requestDocument(sessionId, type)
+      return `${type} document will be generated after this reply.`
+    },
+    {
+      name: "generate_document",
+      description:
+        "(Re)generate a planning document - e.g. when the user asks for changes to one that already exists. Does not change the phase.",
+      schema: z.object({
+        type: z.enum(documentTypes).describe("Which document to generate"),
+      }),
+    }
+  )
+
+  return [recordAnswer, setProjectName, updateRequirement, pinFact, proposePhaseAdvance, generateDocument]
+}
@@ -0,0 +1,50 @@
+// Chat message types shared by the /api/chat stream and the chat UI
+
+import type { UIMessage } from "ai"
+import type { ArchitectureDecision, ConsistencyReview, ProjectPhase } from "./project"
+import type { RequirementsCoverage } from "../analysis/requirements-coverage"
+import type { TraceabilityMatrix } from "../analysis/traceability"
+import type { OpenApiExport } from "../export/openapi"
+import type { DatabaseSchemaExport } from "../export/db-schema-formats"
+import type { ScaffoldSummary } from "../export/scaffold"
+import type { SessionUsage } from "./usage"
+import type { AnsweringModel } from "../llm/resilient-chat-model"
+import type { PhaseProgress } from "../phases/pipeline"
+
+// A document that was generated during this turn
+export interface GeneratedDocument {
+  type: ProjectPhase
+  // The file name the phase gives its document - "Requirements.md"
+  fileName: string
+  content: string
+  // The session's project name when it was generated - downloads are named after it
+  projectName: string
+}
+
+// Typed data parts that travel alongside the text in the UI message stream
+// Each key becomes a "data-<key>" part on the message
+export type ChatDataParts = {
+  document: GeneratedDocument
+  // Requirements interview progress, sent at the end of every requirements-phase turn
+  coverage: RequirementsCoverage
+  // Token and cost totals for the session so far, sent at the end of every turn
+  usage: SessionUsage
+  // The registered phases and how far the session has got, sent at the end of every turn
+  progress: PhaseProgress
+  // The model that wrote this reply, after any retries and fallbacks
+  model: AnsweringModel
+  // Consistency review of the three documents, sent after Design.md or Tasks.md changes
+  review: ConsistencyReview
+  // Feature → component → task links, sent whenever Design.md or Tasks.md changes
+  traceability: TraceabilityMatrix
+  // Every architecture decision on record, sent when a new Design.md adds some
+  decisions: ArchitectureDecision[]
+  // OpenAPI 3.1 contract for the design's endpoints, sent with every new Design.md that has some
+  openapi: OpenApiExport & { validationIssues: string[] }
+  // Database schema files for the design's data models, sent with every new Design.md that has some
+  dbSchema: DatabaseSchemaExport
+  // Starter repository built from the documents, sent whenever Design.md or Tasks.md changes once both exist
+  scaffold: ScaffoldSummary
+}
+
+export type ChatUIMessage = UIMessage<never, ChatDataParts>
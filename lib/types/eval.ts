@@ -0,0 +1,85 @@
+// Evaluation harness types - golden conversations, check results and run reports
+
+import type { DocumentType } from "./project"
+
+// A scripted conversation with what its documents must contain
+export interface GoldenConversation {
+  // Defaults to the file name
+  name: string
+  projectName: string
+  description?: string
+  messages: Array<{ role: "user" | "assistant"; content: string }>
+  // Question → answer pairs, as the record_answer tool would have stored them
+  answers: Record<string, string>
+  expect: {
+    // Features every document that lists work has to mention
+    features: string[]
+    // Extra headings to require, on top of the defaults for each document
+    sections?: Partial<Record<DocumentType, string[]>>
+  }
+}
+
+// Which model and prompts produced a run
+export interface EvalVariant {
+  label: string
+  providerId?: string
+  modelName?: string
+  promptsDir?: string
+  workspace?: string
+}
+
+export type EvalCheckId = "sections" | "features" | "mermaid" | "taskFormat"
+
+export interface CheckResult {
+  id: EvalCheckId
+  score: number // 0..1
+  passed: boolean
+  // What was missing or wrong
+  details: string[]
+}
+
+export interface DocumentEvaluation {
+  type: DocumentType
+  promptVersion: string
+  content: string
+  checks: CheckResult[]
+  score: number // 0..1, mean of the checks
+  durationMs: number
+}
+
+export interface ConversationEvaluation {
+  name: string
+  documents: DocumentEvaluation[]
+  score: number // 0..1, mean of the documents
+  // Set when generation failed part way - the documents so far are still scored
+  error?: string
+}
+
+export interface EvalRun {
+  variant: EvalVariant
+  startedAt: number
+  conversations: ConversationEvaluation[]
+  score: number // 0..1, mean of the conversations
+}
+
+// One check in one document, before and after
+export interface ScoreChange {
+  conversation: string
+  document: DocumentType
+  check: EvalCheckId
+  baseline: number
+  candidate: number
+  delta: number
+}
+
+export interface EvalComparison {
+  baseline: EvalVariant
+  candidate: EvalVariant
+  baselineScore: number
+  candidateScore: number
+  byDocument: Array<{ type: DocumentType; baseline: number; candidate: number }>
+  regressions: ScoreChange[]
+  improvements: ScoreChange[]
+  // In one run but not the other, e.g. a generation error
+  unmatched: string[]
+}
@@ -1,6 +1,10 @@
 // Type definitions for Understand.AI workflow
 
-export type ProjectPhase = "requirements" | "design" | "tasks" | "complete"
+// The phases every project goes through - more can be registered in the phase pipeline (see lib/phases)
+export type CorePhase = "requirements" | "design" | "tasks"
+
+// A registered phase's id, or "complete" once the last one is done
+export type ProjectPhase = CorePhase | "complete" | (string & {})
 
 export interface RequirementsData {
   projectName: string
@@ -31,6 +35,7 @@ export interface RequirementsData {
     createdAt: number
     updatedAt: number
     version: number
+    promptVersion?: string // registry id of the prompt that generated the document
   }
 }
 
@@ -81,6 +86,7 @@ export interface DesignData {
     updatedAt: number
     version: number
     basedOnRequirements: string // requirements version
+    promptVersion?: string // registry id of the prompt that generated the document
   }
 }
 
@@ -109,9 +115,67 @@ export interface TasksData {
     updatedAt: number
     version: number
     basedOnDesign: string // design version
+    promptVersion?: string // registry id of the prompt that generated the document
   }
 }
 
+// The generated markdown documents, keyed by the phase that produced them
+export type DocumentType = Exclude<ProjectPhase, "complete">
+
+export type ProjectDocuments = Partial<Record<DocumentType, string>>
+
+// What the consistency reviewer found wrong between the three documents
+export type ReviewIssueKind =
+  | "feature-without-component" // a required feature no design component handles
+  | "component-without-tasks" // a design component no task builds
+  | "tech-mismatch" // a technology choice that contradicts the stated tech stack
+  | "ignored-constraint" // a constraint the design or tasks don't respect
+
+export interface ReviewIssue {
+  id: string
+  kind: ReviewIssueKind
+  severity: "high" | "medium" | "low"
+  // The feature, component, technology or constraint the issue is about
+  subject: string
+  description: string
+  // What the regenerated document should do differently
+  suggestion: string
+  // The document to regenerate to fix it
+  document: Exclude<CorePhase, "requirements">
+  // Accepted issues are fed into the next regeneration pass
+  status: "open" | "accepted"
+}
+
+export interface ConsistencyReview {
+  issues: ReviewIssue[]
+  reviewedAt: number
+}
+
+// An Architecture Decision Record - one significant decision from the design phase
+export interface DecisionOption {
+  name: string
+  // Why it was chosen or passed over
+  summary: string
+}
+
+export interface ArchitectureDecision {
+  // 1-based, in the order decisions were recorded - never reused
+  number: number
+  title: string
+  status: "accepted" | "superseded"
+  // The forces at play - what made a decision necessary
+  context: string
+  options: DecisionOption[]
+  decision: string
+  consequences: string[]
+  // Version of the design the decision was recorded from
+  designVersion: number
+  // An earlier decision this one replaces, and the later one that replaced this
+  supersedes?: number
+  supersededBy?: number
+  recordedAt: number
+}
+
 export interface ProjectSession {
   sessionId: string
   projectName: string
@@ -119,6 +183,7 @@ export interface ProjectSession {
   requirements?: RequirementsData
   design?: DesignData
   tasks?: TasksData
+  documents: ProjectDocuments
   conversationHistory: Array<{
     role: "user" | "assistant" | "system"
     content: string
@@ -127,6 +192,18 @@ export interface ProjectSession {
   }>
   questionsAsked: string[]
   userAnswers: Record<string, string>
+  // Set by the agent when it thinks the current phase is done
+  pendingPhaseAdvance?: {
+    phase: ProjectPhase
+    reason: string
+    requestedAt: number
+  }
+  // Set by the agent to (re)generate a document at the end of the turn
+  documentRequest?: DocumentType
+  // Latest cross-check of Requirements.md, Design.md and Tasks.md
+  review?: ConsistencyReview
+  // Architecture decisions recorded from each version of the design, oldest first
+  decisions?: ArchitectureDecision[]
   metadata: {
     createdAt: number
     updatedAt: number
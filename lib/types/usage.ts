@@ -0,0 +1,45 @@
+// Token and cost accounting types, shared by the usage API and the chat UI
+
+import type { DocumentType, ProjectPhase } from "./project"
+
+// What an LLM call was for
+export type UsageSource = "chat" | "document" | "extraction" | "summary" | "review" | "repair" | "decisions"
+
+// One LLM call
+export interface UsageRecord {
+  sessionId: string
+  userId?: string
+  phase: ProjectPhase
+  document?: DocumentType
+  source: UsageSource
+  model: string
+  promptTokens: number
+  completionTokens: number
+  // Estimated cost in USD
+  cost: number
+  // True when the provider didn't report usage and we counted characters instead
+  estimated: boolean
+  timestamp: number
+}
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+}
+
+export interface SessionUsage {
+  sessionId: string
+  total: UsageTotals
+  byPhase: Partial<Record<ProjectPhase, UsageTotals>>
+  byDocument: Partial<Record<DocumentType, UsageTotals>>
+  byModel: Record<string, UsageTotals>
+}
+
+// Spend caps in USD - undefined means no cap
+export interface SpendCaps {
+  session?: number
+  user?: number
+}
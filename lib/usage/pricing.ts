@@ -0,0 +1,48 @@
+/**
+ * Model Pricing
+ *
+ * USD per million tokens for the models we use through OpenRouter. Costs are
+ * estimates - check openrouter.ai/models for current prices. Anything not in
+ * the table (local and fake models included) is free as far as we're concerned.
+ *
+ * Extra or updated prices can be supplied as JSON in LLM_PRICING, e.g.
+ * {"openai/gpt-4o": {"prompt": 2.5, "completion": 10}}
+ */
+
+export interface ModelPrice {
+  prompt: number
+  completion: number
+}
+
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  "deepseek/deepseek-chat": { prompt: 0.3, completion: 0.85 },
+  "openai/gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "anthropic/claude-3.5-sonnet": { prompt: 3, completion: 15 },
+  "google/gemini-pro": { prompt: 0.5, completion: 1.5 },
+}
+
+let envPricing: Record<string, ModelPrice> | null = null
+
+function getEnvPricing(): Record<string, ModelPrice> {
+  if (envPricing) return envPricing
+  try {
+    envPricing = process.env.LLM_PRICING ? JSON.parse(process.env.LLM_PRICING) : {}
+  } catch (error) {
+    console.error("Invalid LLM_PRICING, ignoring it:", error)
+    envPricing = {}
+  }
+  return envPricing!
+}
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  return getEnvPricing()[model] ?? MODEL_PRICING[model]
+}
+
+/**
+ * Estimated USD cost of one call
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getModelPrice(model)
+  if (!price) return 0
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000
+}
@@ -0,0 +1,228 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base"
+import { getBufferString, type BaseMessage } from "@langchain/core/messages"
+import type { Serialized } from "@langchain/core/load/serializable"
+import type { LLMResult } from "@langchain/core/outputs"
+import { estimateTokens } from "../memory/context-assembler"
+import { estimateCost } from "./pricing"
+import { getAnsweringModel } from "../llm/resilient-chat-model"
+import type { DocumentType, ProjectPhase } from "../types/project"
+import type { SessionUsage, SpendCaps, UsageRecord, UsageSource, UsageTotals } from "../types/usage"
+
+/**
+ * Usage Tracker
+ *
+ * Records prompt and completion tokens, model and estimated cost for every LLM
+ * call, against the session, phase and document it was made for. Calls are
+ * captured with a LangChain callback handler passed in at invoke time, so the
+ * models themselves stay shared between sessions.
+ *
+ * Spend caps (SESSION_SPEND_CAP_USD, USER_SPEND_CAP_USD) are checked before
+ * every call - once one is exceeded, the call fails with SpendCapExceededError.
+ */
+
+/**
+ * Thrown when a session or user has spent more than their cap
+ */
+export class SpendCapExceededError extends Error {
+  constructor(public scope: keyof SpendCaps, public spent: number, public cap: number) {
+    super(`The ${scope} spend cap of $${cap.toFixed(2)} has been reached ($${spent.toFixed(4)} spent).`)
+    this.name = "SpendCapExceededError"
+  }
+}
+
+const parseCap = (value?: string) => {
+  const cap = value ? Number.parseFloat(value) : Number.NaN
+  return Number.isFinite(cap) && cap > 0 ? cap : undefined
+}
+
+export function getSpendCaps(): SpendCaps {
+  return {
+    session: parseCap(process.env.SESSION_SPEND_CAP_USD),
+    user: parseCap(process.env.USER_SPEND_CAP_USD),
+  }
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 })
+
+function addTo(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  totals.calls++
+  totals.promptTokens += record.promptTokens
+  totals.completionTokens += record.completionTokens
+  totals.totalTokens += record.promptTokens + record.completionTokens
+  totals.cost += record.cost
+  return totals
+}
+
+export class UsageTracker {
+  private records: Map<string, UsageRecord[]> = new Map()
+
+  /**
+   * Store one call's usage
+   */
+  record(record: UsageRecord): void {
+    const records = this.records.get(record.sessionId) ?? []
+    records.push(record)
+    this.records.set(record.sessionId, records)
+  }
+
+  /**
+   * Totals for a session, broken down by phase, document and model
+   */
+  getSessionUsage(sessionId: string): SessionUsage {
+    const usage: SessionUsage = { sessionId, total: emptyTotals(), byPhase: {}, byDocument: {}, byModel: {} }
+
+    for (const record of this.records.get(sessionId) ?? []) {
+      addTo(usage.total, record)
+      usage.byPhase[record.phase] = addTo(usage.byPhase[record.phase] ?? emptyTotals(), record)
+      if (record.document) {
+        usage.byDocument[record.document] = addTo(usage.byDocument[record.document] ?? emptyTotals(), record)
+      }
+      usage.byModel[record.model] = addTo(usage.byModel[record.model] ?? emptyTotals(), record)
+    }
+
+    return usage
+  }
+
+  /**
+   * Totals for one user across all of their sessions
+   */
+  getUserUsage(userId: string): UsageTotals {
+    const totals = emptyTotals()
+    for (const records of this.records.values()) {
+      records.filter(record => record.userId === userId).forEach(record => addTo(totals, record))
+    }
+    return totals
+  }
+
+  /**
+   * Throw SpendCapExceededError if the session or user has hit their cap
+   */
+  checkSpendCaps(sessionId: string, userId?: string, caps: SpendCaps = getSpendCaps()): void {
+    if (caps.session !== undefined) {
+      const spent = this.getSessionUsage(sessionId).total.cost
+      if (spent >= caps.session) {
+        throw new SpendCapExceededError("session", spent, caps.session)
+      }
+    }
+    if (caps.user !== undefined && userId) {
+      const spent = this.getUserUsage(userId).cost
+      if (spent >= caps.user) {
+        throw new SpendCapExceededError("user", spent, caps.user)
+      }
+    }
+  }
+
+  /**
+   * Forget a session's usage
+   */
+  clearSession(sessionId: string): void {
+    this.records.delete(sessionId)
+  }
+}
+
+// What the calls made through one handler are for
+export interface UsageContext {
+  sessionId: string
+  userId?: string
+  phase: ProjectPhase
+  document?: DocumentType
+  source: UsageSource
+}
+
+/**
+ * LangChain callback handler that records every chat model call it sees.
+ * Errors are raised and awaited so a spend cap actually stops the call.
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = "usage_tracker"
+  raiseError = true
+  awaitHandlers = true
+
+  // Model and prompt for calls that have started but not finished, by run id
+  private pending = new Map<string, { model: string; prompt: string }>()
+
+  constructor(private tracker: UsageTracker, private context: UsageContext) {
+    super()
+  }
+
+  async handleChatModelStart(
+    _llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.tracker.checkSpendCaps(this.context.sessionId, this.context.userId)
+
+    const invocationParams = extraParams?.invocation_params as { model?: string } | undefined
+    const model = invocationParams?.model ?? (metadata?.ls_model_name as string | undefined) ?? "unknown"
+    this.pending.set(runId, { model, prompt: messages.map(batch => getBufferString(batch)).join("\n") })
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string) {
+    const call = this.pending.get(runId)
+    if (!call) return
+    this.pending.delete(runId)
+
+    try {
+      const generation = output.generations[0]?.[0] as { text: string; message?: BaseMessage } | undefined
+      // Streaming calls report usage on the message, regular ones in llmOutput
+      const usage = (generation?.message as { usage_metadata?: { input_tokens: number; output_tokens: number } })?.usage_metadata
+      const tokenUsage = output.llmOutput?.tokenUsage as { promptTokens?: number; completionTokens?: number } | undefined
+
+      let promptTokens = usage?.input_tokens ?? tokenUsage?.promptTokens
+      let completionTokens = usage?.output_tokens ?? tokenUsage?.completionTokens
+      const estimated = promptTokens === undefined || completionTokens === undefined
+
+      // No usage from the provider (local servers, the fake model) - count characters instead
+      if (estimated) {
+        const functionCall = generation?.message?.additional_kwargs?.function_call
+        const completion = (generation?.text ?? "") + (functionCall ? JSON.stringify(functionCall) : "")
+        promptTokens = estimateTokens(call.prompt)
+        completionTokens = estimateTokens(completion)
+      }
+
+      // A fallback may have answered instead of the model the call started with
+      const model = getAnsweringModel(generation?.message)?.model ?? call.model
+
+      this.tracker.record({
+        ...this.context,
+        model,
+        promptTokens: promptTokens!,
+        completionTokens: completionTokens!,
+        cost: estimateCost(model, promptTokens!, completionTokens!),
+        estimated,
+        timestamp: Date.now(),
+      })
+    } catch (error) {
+      // Accounting problems shouldn't break the conversation
+      console.error("Usage tracking error:", error)
+    }
+  }
+
+  async handleLLMError(_error: unknown, runId: string) {
+    this.pending.delete(runId)
+  }
+}
+
+/**
+ * Callbacks to pass to a chain or agent call so its usage gets recorded
+ */
+export function createUsageCallbacks(context: UsageContext, tracker: UsageTracker = getUsageTracker()) {
+  return [new UsageCallbackHandler(tracker, context)]
+}
+
+// Singleton instance for the application
+let usageTracker: UsageTracker | null = null
+
+/**
+ * Get the global usage tracker instance
+ */
+export function getUsageTracker(): UsageTracker {
+  if (!usageTracker) {
+    usageTracker = new UsageTracker()
+  }
+  return usageTracker
+}
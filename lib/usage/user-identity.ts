@@ -0,0 +1,80 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto"
+
+/**
+ * User Identity
+ *
+ * Who the per-user spend cap, usage totals and chat sessions belong to - a
+ * session is bound to the user who started it. The id lives in a signed,
+ * httpOnly cookie the server issues on the first request, so a client can't
+ * pick its own id or borrow someone else's - anything it sends in a request
+ * body or query string is ignored.
+ *
+ * There are no accounts, so a user is one browser: clearing cookies starts a
+ * new one. The session cap still limits each chat.
+ *
+ * Cookies are signed with USER_COOKIE_SECRET. Without it a random secret is
+ * made at startup, so every restart hands out new ids.
+ */
+
+export const USER_COOKIE = "uai_user"
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365
+
+export interface UserIdentity {
+  userId: string
+  // Set-Cookie value to send back - only when the id was just issued
+  setCookie?: string
+}
+
+let generatedSecret: string | null = null
+
+function getSecret(): string {
+  if (process.env.USER_COOKIE_SECRET) return process.env.USER_COOKIE_SECRET
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32).toString("hex")
+  }
+  return generatedSecret
+}
+
+const sign = (userId: string) => createHmac("sha256", getSecret()).update(userId).digest("base64url")
+
+function readCookie(header: string | null, name: string): string | undefined {
+  for (const part of (header ?? "").split(";")) {
+    const separator = part.indexOf("=")
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim())
+    }
+  }
+  return undefined
+}
+
+function isValid(userId: string, signature: string): boolean {
+  const expected = Buffer.from(sign(userId))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * The user making this request - from their cookie, or a new id (with the cookie to set)
+ * if it's missing or wasn't signed by us
+ */
+export function resolveUser(req: Request): UserIdentity {
+  const [userId, signature] = readCookie(req.headers.get("cookie"), USER_COOKIE)?.split(".") ?? []
+  if (userId && signature && isValid(userId, signature)) {
+    return { userId }
+  }
+
+  const issued = randomUUID()
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : ""
+  return {
+    userId: issued,
+    setCookie: `${USER_COOKIE}=${issued}.${sign(issued)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${ONE_YEAR_SECONDS}${secure}`,
+  }
+}
+
+/**
+ * Headers that hand a newly issued id to the browser - empty for a returning user
+ */
+export function userCookieHeaders(user: UserIdentity): Record<string, string> {
+  return user.setCookie ? { "Set-Cookie": user.setCookie } : {}
+}
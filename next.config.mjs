@@ -9,10 +9,16 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Loaded from node_modules as is on the server: mermaid parses generated diagrams, and the
+  // OpenAPI validator reads its JSON Schemas from files next to its own source
+  serverExternalPackages: ["mermaid", "@seriousme/openapi-schema-validator"],
   env: {
     OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
     OPENROUTER_MODEL: process.env.OPENROUTER_MODEL,
     OPENROUTER_BASE_URL: process.env.OPENROUTER_BASE_URL,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+    LOCAL_LLM_MODEL: process.env.LOCAL_LLM_MODEL,
   },
 }
 
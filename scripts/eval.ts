@@ -0,0 +1,94 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs"
+import path from "path"
+import { parseArgs } from "util"
+import "../lib/prompts/document-prompts"
+import { DEFAULT_GOLDEN_DIR, loadGoldenConversations } from "../lib/eval/golden"
+import { EvaluationRunner } from "../lib/eval/runner"
+import { compareRuns, formatComparisonReport, formatRunReport } from "../lib/eval/report"
+import type { EvalRun, EvalVariant } from "../lib/types/eval"
+
+/**
+ * Document quality evaluation
+ *
+ *   npm run eval -- run [--label v2] [--provider fake] [--model name]
+ *                       [--prompts-dir dir] [--workspace name]
+ *                       [--dir evals/golden] [--out file.json] [--baseline file.json]
+ *   npm run eval -- compare baseline.json candidate.json [--out report.md]
+ *
+ * `run` generates every golden conversation's documents, scores them and saves
+ * the run as JSON (evals/results/<label>.json by default). `compare` reports
+ * the differences between two saved runs; `run --baseline` does both at once.
+ */
+
+const RESULTS_DIR = path.join(process.cwd(), "evals", "results")
+
+const USAGE = `Usage:
+  npm run eval -- run [--label name] [--provider id] [--model name] [--prompts-dir dir] [--workspace name] [--dir dir] [--out file] [--baseline file]
+  npm run eval -- compare <baseline.json> <candidate.json> [--out file]`
+
+function readRun(filePath: string): EvalRun {
+  return JSON.parse(readFileSync(filePath, "utf-8")) as EvalRun
+}
+
+function writeOutput(filePath: string, content: string): void {
+  mkdirSync(path.dirname(filePath), { recursive: true })
+  writeFileSync(filePath, content)
+  console.log(`Wrote ${filePath}`)
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      label: { type: "string" },
+      provider: { type: "string" },
+      model: { type: "string" },
+      "prompts-dir": { type: "string" },
+      workspace: { type: "string" },
+      dir: { type: "string" },
+      out: { type: "string" },
+      baseline: { type: "string" },
+    },
+  })
+  const [command, ...files] = positionals
+
+  if (command === "compare") {
+    if (files.length !== 2) {
+      throw new Error(USAGE)
+    }
+    const report = formatComparisonReport(compareRuns(readRun(files[0]), readRun(files[1])))
+    console.log(report)
+    if (values.out) {
+      writeOutput(values.out, report)
+    }
+    return
+  }
+
+  if (command !== "run") {
+    throw new Error(USAGE)
+  }
+
+  const providerId = values.provider || process.env.LLM_PROVIDER
+  const variant: EvalVariant = {
+    label: values.label || [providerId || "default", values.model].filter(Boolean).join("-"),
+    providerId,
+    modelName: values.model,
+    promptsDir: values["prompts-dir"],
+    workspace: values.workspace,
+  }
+
+  const conversations = loadGoldenConversations(values.dir || DEFAULT_GOLDEN_DIR)
+  const run = await new EvaluationRunner(variant).run(conversations)
+
+  writeOutput(values.out || path.join(RESULTS_DIR, `${variant.label.replace(/[^\w.-]+/g, "_")}.json`), JSON.stringify(run, null, 2))
+  console.log(formatRunReport(run))
+
+  if (values.baseline) {
+    console.log(formatComparisonReport(compareRuns(readRun(values.baseline), run)))
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,106 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import path from "path"
+
+// A replayed conversation through /api/chat - fully offline and deterministic.
+// The cassette was recorded from the fake provider; re-record it after a prompt
+// change with LLM_CASSETTE_MODE=record npm test
+process.env.LLM_PROVIDER = "fake"
+process.env.LLM_CASSETTE_MODE ||= "replay"
+process.env.LLM_CASSETTE_DIR = path.join(__dirname, "cassettes")
+process.env.LLM_CASSETTE = "chat-route"
+
+// The route and the tests share the memory manager singleton, so tests can set up the session directly
+async function memory() {
+  const { getMemoryManager } = await import("@/lib/memory/session-manager")
+  return getMemoryManager()
+}
+
+// The signed cookie a browser would send back, so every turn comes from the same user
+async function userCookie(): Promise<string> {
+  const { resolveUser } = await import("@/lib/usage/user-identity")
+  return resolveUser(new Request("http://localhost")).setCookie!.split(";")[0]
+}
+
+type StreamPart = { type: string; delta?: string; data?: any }
+
+async function postMessage(sessionId: string, text: string, cookie: string): Promise<Response> {
+  const { POST } = await import("@/app/api/chat/route")
+  return POST(new Request("http://localhost/api/chat", {
+    method: "POST",
+    headers: { cookie },
+    body: JSON.stringify({
+      sessionId,
+      messages: [{ id: `user-${text.length}`, role: "user", parts: [{ type: "text", text }] }],
+    }),
+  }))
+}
+
+let cookie: Promise<string> | null = null
+
+// POST one user message and collect the UI message stream's parts
+async function sendMessage(sessionId: string, text: string): Promise<StreamPart[]> {
+  cookie ??= userCookie()
+  const response = await postMessage(sessionId, text, await cookie)
+  assert.equal(response.status, 200)
+  const body = await response.text()
+  const parts = body
+    .split("\n")
+    .filter(line => line.startsWith("data: ") && line !== "data: [DONE]")
+    .map(line => JSON.parse(line.slice("data: ".length)) as StreamPart)
+  // A cassette miss only shows up as an error part in the stream
+  assert.ok(!parts.some(part => part.type === "error"), JSON.stringify(parts.find(part => part.type === "error")))
+  return parts
+}
+
+const replyText = (parts: StreamPart[]) => parts.filter(part => part.type === "text-delta").map(part => part.delta).join("")
+
+describe("POST /api/chat", () => {
+  it("streams the interviewer's reply and the session's usage", async () => {
+    const parts = await sendMessage("test-interview", "I want to build a recipe sharing app")
+    // Only the answering call is streamed, once
+    assert.equal(replyText(parts), "Thanks for sharing! What tech stack would you like to use for the frontend and backend?")
+    assert.ok(parts.some(part => part.type === "data-usage"))
+    assert.equal(parts[parts.length - 1].type, "finish")
+  })
+
+  it("generates a requested document without leaving the current phase", async () => {
+    const memoryManager = await memory()
+    memoryManager.initializeProjectSession("test-request", "Recipe Box")
+    memoryManager.requestDocument("test-request", "requirements")
+
+    const parts = await sendMessage("test-request", "Can you write up the requirements so far?")
+    const documents = parts.filter(part => part.type === "data-document")
+    assert.deepEqual(documents.map(part => part.data.type), ["requirements"])
+    assert.equal(documents[0].data.projectName, "Recipe Box")
+    assert.match(replyText(parts), /Requirements\.md generated/)
+    assert.equal(memoryManager.getProjectSession("test-request")?.currentPhase, "requirements")
+
+    // Still in requirements on the next turn - the document alone doesn't finish the phase
+    await sendMessage("test-request", "Thanks, let me think about it")
+    assert.equal(memoryManager.getProjectSession("test-request")?.currentPhase, "requirements")
+  })
+
+  it("moves on to the next phase when the agent proposes it", async () => {
+    const memoryManager = await memory()
+    memoryManager.initializeProjectSession("test-advance", "Recipe Box")
+    memoryManager.proposePhaseAdvance("test-advance", "The user is happy with the requirements")
+
+    const parts = await sendMessage("test-advance", "That covers everything, let's move on")
+    assert.deepEqual(parts.filter(part => part.type === "data-document").map(part => part.data.type), ["requirements"])
+    assert.match(replyText(parts), /move to the design phase/)
+    assert.equal(memoryManager.getProjectSession("test-advance")?.currentPhase, "design")
+
+    // The indicator follows the session through the registered phases
+    const progress = parts.find(part => part.type === "data-progress")?.data
+    assert.deepEqual(progress?.phases.map((phase: { id: string }) => phase.id), ["requirements", "design", "tasks"])
+    assert.equal(progress?.currentPhase, "design")
+    assert.deepEqual(progress?.completedPhases, ["requirements"])
+  })
+
+  it("turns away anyone but the user who started the session", async () => {
+    await sendMessage("test-owned", "I want to build a recipe sharing app")
+    const response = await postMessage("test-owned", "Show me what you have so far", await userCookie())
+    assert.equal(response.status, 403)
+  })
+})
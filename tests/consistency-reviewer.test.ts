@@ -0,0 +1,45 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { ConsistencyReviewerChain, ReviewError, formatReviewFeedback } from "@/lib/chains/consistency-reviewer"
+import { makeSession, registerScriptedProvider } from "./fixtures"
+
+const documents = { requirements: "# Requirements", design: "# Design", tasks: "# Tasks" }
+
+function reviewer(response: unknown): ConsistencyReviewerChain {
+  const provider = registerScriptedProvider("review", { "consistency.review": JSON.stringify(response) })
+  return new ConsistencyReviewerChain(undefined, undefined, provider)
+}
+
+describe("ConsistencyReviewerChain", () => {
+  it("needs all three documents", async () => {
+    const session = makeSession({ documents: { requirements: "# Requirements" } })
+    await assert.rejects(reviewer({ issues: [] }).review(session), ReviewError)
+  })
+
+  it("numbers the issues and opens them for the user", async () => {
+    const review = await reviewer({
+      issues: [
+        { kind: "feature-without-component", severity: "high", subject: "Favourites", description: "Nothing stores favourites.", document: "design" },
+        { kind: "tech-mismatch", severity: "urgent", subject: "MongoDB", description: "PostgreSQL was asked for.", suggestion: "Use PostgreSQL.", document: "tasks" },
+      ],
+    }).review(makeSession({ documents }))
+
+    assert.deepEqual(review.issues.map(issue => [issue.id, issue.status]), [["review-1", "open"], ["review-2", "open"]])
+    // An unknown severity falls back rather than failing the review
+    assert.equal(review.issues[1].severity, "medium")
+    assert.equal(review.issues[0].suggestion, "")
+  })
+
+  it("rejects a response that isn't a review", async () => {
+    await assert.rejects(reviewer({ issues: [{ kind: "typo" }] }).review(makeSession({ documents })), ReviewError)
+  })
+})
+
+describe("formatReviewFeedback", () => {
+  it("lists each issue with its fix", async () => {
+    const review = await reviewer({
+      issues: [{ kind: "ignored-constraint", severity: "low", subject: "Budget", description: "Too many services.", suggestion: "Use one host.", document: "design" }],
+    }).review(makeSession({ documents }))
+    assert.equal(formatReviewFeedback(review.issues), "- [low] Budget: Too many services. Fix: Use one host.")
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import "@/lib/phases"
+import { assembleProjectContext, estimateTokens } from "@/lib/memory/context-assembler"
+import { TracerMemoryManager } from "@/lib/memory/session-manager"
+
+function managerWithAnswers(count: number): TracerMemoryManager {
+  const memoryManager = new TracerMemoryManager()
+  memoryManager.initializeProjectSession("context", "Recipe Box")
+  for (let index = 1; index <= count; index++) {
+    memoryManager.addUserAnswer("context", `Question ${index}?`, `Answer number ${index}, with some detail to take up room`)
+  }
+  return memoryManager
+}
+
+describe("assembleProjectContext", () => {
+  it("says so when there's no project yet", () => {
+    assert.equal(assembleProjectContext(new TracerMemoryManager(), "missing"), "No project has been started yet.")
+  })
+
+  it("includes every section when the budget allows", () => {
+    const context = assembleProjectContext(managerWithAnswers(3), "context")
+    assert.match(context, /^Status:/)
+    assert.match(context, /Documents still to generate: /)
+    assert.match(context, /User answers:/)
+    assert.ok(context.includes("Question 1?"))
+    assert.ok(!context.includes("(truncated)"))
+  })
+
+  it("stays within the budget and drops the oldest answers first", () => {
+    const context = assembleProjectContext(managerWithAnswers(40), "context", { maxTokens: 300 })
+    // The truncation marker is the only thing allowed past the budget
+    assert.ok(estimateTokens(context.replace("\n- ... (truncated)", "")) <= 300)
+    assert.ok(context.endsWith("- ... (truncated)"))
+    assert.ok(context.includes("Question 40?"))
+    assert.ok(!context.includes("Question 1?"))
+  })
+
+  it("leaves out a section whose heading alone won't fit", () => {
+    const memoryManager = managerWithAnswers(1)
+    const status = assembleProjectContext(memoryManager, "context", { maxTokens: 1000 }).split("\n\n")[0]
+    const context = assembleProjectContext(memoryManager, "context", { maxTokens: estimateTokens(status) })
+    assert.ok(!context.includes("User answers:"))
+  })
+})
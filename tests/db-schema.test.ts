@@ -0,0 +1,82 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { buildDatabaseSchema } from "@/lib/export/db-schema"
+import { buildDatabaseSchemaFiles } from "@/lib/export/db-schema-formats"
+import { makeDesign } from "./fixtures"
+
+const design = makeDesign({
+  dataModels: [
+    {
+      name: "User",
+      fields: [
+        { name: "id", type: "uuid", description: "" },
+        { name: "email", type: "string", description: "" },
+      ],
+      relationships: [],
+    },
+    {
+      name: "Post",
+      fields: [
+        { name: "id", type: "uuid", description: "" },
+        { name: "title", type: "string", description: "" },
+      ],
+      relationships: ["Post belongs to User via author_id", "Post many-to-many with Tag through post_tags"],
+    },
+    {
+      name: "Tag",
+      fields: [
+        { name: "id", type: "uuid", description: "" },
+        { name: "name", type: "string", description: "" },
+      ],
+      relationships: ["Tag *:* Post"],
+    },
+  ],
+})
+
+describe("buildDatabaseSchema", () => {
+  it("adds foreign keys and one join table per many-to-many pair", () => {
+    const schema = buildDatabaseSchema(design)
+    const posts = schema.tables.find(table => table.name === "posts")
+    assert.ok(posts)
+    const authorId = posts.columns.find(column => column.name === "author_id")
+    assert.equal(authorId?.references?.table, "users")
+    assert.ok(!posts.columns.some(column => column.name === "user_id"))
+    assert.equal(schema.tables.filter(table => table.name === "post_tags").length, 1)
+  })
+
+  it("maps number ids to integers and JS Dates to timestamps", () => {
+    const schema = buildDatabaseSchema(makeDesign({
+      dataModels: [
+        {
+          name: "Order",
+          fields: [
+            { name: "id", type: "number", description: "" },
+            { name: "total", type: "number", description: "" },
+            { name: "createdAt", type: "Date", description: "" },
+            { name: "deliveryDay", type: "date", description: "" },
+          ],
+          relationships: [],
+        },
+        {
+          name: "OrderItem",
+          fields: [{ name: "orderId", type: "number", description: "" }],
+          relationships: [],
+        },
+      ],
+    }))
+    const typeOf = (table: string, column: string) =>
+      schema.tables.find(t => t.name === table)?.columns.find(c => c.name === column)?.type
+
+    assert.equal(typeOf("orders", "id"), "integer")
+    assert.equal(typeOf("orders", "total"), "float")
+    assert.equal(typeOf("orders", "created_at"), "datetime")
+    assert.equal(typeOf("orders", "delivery_day"), "date")
+    assert.equal(typeOf("order_items", "order_id"), "integer")
+  })
+
+  it("writes every schema format", () => {
+    const { files } = buildDatabaseSchemaFiles(design)
+    assert.deepEqual(files.map(file => file.format), ["postgres", "sqlite", "prisma", "drizzle"])
+    assert.match(files[0].content, /CREATE TABLE/)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { DecisionRecorderChain, DecisionRecordError } from "@/lib/chains/decision-recorder"
+import { decisionRecordFileName, formatDecisionRecord } from "@/lib/export/decision-records"
+import { TracerMemoryManager } from "@/lib/memory/session-manager"
+import type { ArchitectureDecision } from "@/lib/types/project"
+import { makeSession, registerScriptedProvider } from "./fixtures"
+
+const decision = (number: number, title: string, status: ArchitectureDecision["status"] = "accepted"): ArchitectureDecision => ({
+  number,
+  title,
+  status,
+  context: "Recipes need to be stored.",
+  options: [],
+  decision: `We go with ${title}.`,
+  consequences: [],
+  designVersion: 1,
+  recordedAt: 0,
+})
+
+function recorder(decisions: unknown[]): DecisionRecorderChain {
+  const provider = registerScriptedProvider("decisions", { "design.decisions": JSON.stringify({ decisions }) })
+  return new DecisionRecorderChain(undefined, undefined, provider)
+}
+
+describe("DecisionRecorderChain", () => {
+  it("needs Design.md", async () => {
+    await assert.rejects(recorder([]).record(makeSession()), DecisionRecordError)
+  })
+
+  it("numbers new decisions after the existing ones and only supersedes accepted ones", async () => {
+    const session = makeSession({
+      documents: { design: "# Design" },
+      decisions: [decision(1, "Use PostgreSQL"), decision(2, "Use REST", "superseded")],
+    })
+    const records = await recorder([
+      { title: "Use SQLite", context: "A single server is enough.", decision: "SQLite.", supersedes: 1 },
+      { title: "Use GraphQL", context: "Clients need flexible queries.", decision: "GraphQL.", supersedes: 2 },
+    ]).record(session)
+
+    assert.deepEqual(records.map(adr => [adr.number, adr.status, adr.supersedes]), [[3, "accepted", 1], [4, "accepted", undefined]])
+  })
+})
+
+describe("decision records", () => {
+  it("marks the superseded decision when a new one replaces it", () => {
+    const memoryManager = new TracerMemoryManager()
+    memoryManager.initializeProjectSession("adr", "Recipe Box")
+    memoryManager.addDecisions("adr", [decision(1, "Use PostgreSQL")])
+    memoryManager.addDecisions("adr", [{ ...decision(2, "Use SQLite"), supersedes: 1 }])
+
+    const [first, second] = memoryManager.getProjectSession("adr")?.decisions ?? []
+    assert.equal(first.status, "superseded")
+    assert.equal(first.supersededBy, 2)
+    assert.match(formatDecisionRecord(first), /\*\*Status:\*\* Superseded by ADR 2/)
+    assert.match(formatDecisionRecord(second), /\*\*Status:\*\* Accepted - supersedes ADR 1/)
+  })
+
+  it("names the file after the number and title", () => {
+    assert.equal(decisionRecordFileName(decision(3, "Use PostgreSQL for persistence!")), "0003-use-postgresql-for-persistence.md")
+    assert.equal(decisionRecordFileName(decision(12, "???")), "0012-decision.md")
+  })
+})
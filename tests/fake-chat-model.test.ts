@@ -0,0 +1,26 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { FakeChatModel } from "@/lib/llm/fake-chat-model"
+import { forPrompt } from "@/lib/llm/providers"
+import { ResilientChatModel, getRetryPolicy } from "@/lib/llm/resilient-chat-model"
+
+describe("FakeChatModel", () => {
+  it("answers by prompt name, whatever the prompt says", async () => {
+    const model = new FakeChatModel()
+    const design = await forPrompt(model, "document.design").invoke("Turn Requirements.md into a Task.md")
+    assert.match(String(design.content), /^# Design/)
+    const extraction = await forPrompt(model, "extraction.tasks").invoke("Write the Design.md")
+    assert.equal(extraction.content, "{}")
+  })
+
+  it("plays the interviewer for untagged calls", async () => {
+    const reply = await new FakeChatModel().invoke("Generate Requirements.md")
+    assert.match(String(reply.content), /tech stack/)
+  })
+
+  it("still sees the prompt name behind the resilient wrapper", async () => {
+    const model = new ResilientChatModel([{ name: "fake", model: new FakeChatModel() }], getRetryPolicy())
+    const tasks = await forPrompt(model, "document.tasks").invoke("anything")
+    assert.match(String(tasks.content), /^# Tasks/)
+  })
+})
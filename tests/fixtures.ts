@@ -0,0 +1,80 @@
+import { FakeChatModel } from "@/lib/llm/fake-chat-model"
+import { registerProvider } from "@/lib/llm/providers"
+import type { DesignData, ProjectSession, RequirementsData, Task, TasksData } from "@/lib/types/project"
+
+// Small, fully-typed project data for the tests - override only what a test cares about
+
+export function makeSession(overrides: Partial<ProjectSession> = {}): ProjectSession {
+  return {
+    sessionId: "test-session",
+    projectName: "Recipe Box",
+    currentPhase: "requirements",
+    documents: {},
+    conversationHistory: [],
+    questionsAsked: [],
+    userAnswers: {},
+    metadata: { createdAt: 0, updatedAt: 0, lastPhaseChange: 0 },
+    ...overrides,
+  }
+}
+
+export function makeRequirements(overrides: Partial<RequirementsData> = {}): RequirementsData {
+  return {
+    projectName: "Recipe Box",
+    description: "Share and save recipes",
+    techStack: { frontend: ["Next.js"], backend: ["Node.js"], database: ["PostgreSQL"] },
+    features: ["Recipe sharing", "Favourites"],
+    targetAudience: "Home cooks",
+    constraints: [],
+    theme: {},
+    usage: {},
+    metadata: { createdAt: 0, updatedAt: 0, version: 1 },
+    ...overrides,
+  }
+}
+
+export function makeDesign(overrides: Partial<DesignData> = {}): DesignData {
+  return {
+    architecture: { overview: "A web app with an API", components: [], dataFlow: "" },
+    dataModels: [],
+    apiDesign: { endpoints: [] },
+    technologyChoices: { frontend: "Next.js", backend: "Node.js", database: "PostgreSQL", deployment: "Vercel", rationale: "" },
+    deploymentStrategy: { environment: "Vercel", cicd: "GitHub Actions", monitoring: "" },
+    metadata: { createdAt: 0, updatedAt: 0, version: 1, basedOnRequirements: "1" },
+    ...overrides,
+  }
+}
+
+export function makeTask(id: string, dependencies: string[] = [], estimatedTime?: string): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: "",
+    category: "feature",
+    dependencies,
+    estimatedTime,
+    acceptanceCriteria: [],
+    order: Number(id),
+  }
+}
+
+export function makeTasks(tasks: Task[]): TasksData {
+  return {
+    tasks,
+    phases: [],
+    metadata: { createdAt: 0, updatedAt: 0, version: 1, basedOnDesign: "1" },
+  }
+}
+
+// Registers an offline provider that answers each tagged prompt with a fixed response,
+// for chains whose output the default fake provider doesn't cover
+export function registerScriptedProvider(id: string, responses: Record<string, string>): string {
+  registerProvider({
+    id,
+    label: id,
+    defaultModel: id,
+    validate: () => null,
+    createChatModel: () => new FakeChatModel({ modelName: id, responder: (_, promptName) => responses[promptName ?? ""] ?? "" }),
+  })
+  return id
+}
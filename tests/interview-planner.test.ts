@@ -0,0 +1,57 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { InterviewPlanner, getNextQuestion, getPendingQuestion } from "@/lib/interview/planner"
+import type { InterviewQuestion } from "@/lib/interview/question-bank"
+import { TracerMemoryManager } from "@/lib/memory/session-manager"
+import { makeSession } from "./fixtures"
+
+const bank: InterviewQuestion[] = [
+  {
+    id: "features",
+    question: "What should it do?",
+    category: "features",
+    phase: "requirements",
+    covers: [],
+    followUpQuestions: ["Which feature matters most?", "Which one can wait?"],
+  },
+  { id: "audience", question: "Who is it for?", category: "usage", phase: "requirements", covers: [] },
+  { id: "architecture", question: "One app or several services?", category: "techstack", phase: "design", covers: [] },
+]
+
+describe("getNextQuestion", () => {
+  it("walks every follow-up before moving on", () => {
+    const asked = (questionsAsked: string[]) => getNextQuestion(makeSession({ questionsAsked }), bank)?.question
+
+    assert.equal(asked([]), "What should it do?")
+    assert.equal(asked(["What should it do?"]), "Which feature matters most?")
+    assert.equal(asked(["What should it do?", "Which feature matters most?"]), "Which one can wait?")
+    assert.equal(asked(["What should it do?", "Which feature matters most?", "Which one can wait?"]), "Who is it for?")
+  })
+})
+
+describe("getPendingQuestion", () => {
+  it("forgets an unanswered question once the phase has moved on", () => {
+    assert.equal(getPendingQuestion(makeSession({ questionsAsked: ["Who is it for?"] }), bank), "Who is it for?")
+    assert.equal(getPendingQuestion(makeSession({ currentPhase: "design", questionsAsked: ["Who is it for?"] }), bank), null)
+  })
+})
+
+describe("InterviewPlanner", () => {
+  it("marks the question asked only when the turn completes and leaves answers to record_answer", () => {
+    const memoryManager = new TracerMemoryManager()
+    memoryManager.initializeProjectSession("planner", "Recipe Box")
+    const planner = new InterviewPlanner(memoryManager, bank)
+
+    const first = planner.prepareTurn("planner")
+    assert.match(first.guidance, /What should it do\?/)
+    assert.deepEqual(memoryManager.getProjectSession("planner")?.questionsAsked, [])
+
+    planner.completeTurn("planner", first)
+    assert.deepEqual(memoryManager.getProjectSession("planner")?.questionsAsked, ["What should it do?"])
+
+    // The reply isn't stored as the answer - the agent is told to record it
+    const second = planner.prepareTurn("planner")
+    assert.match(second.guidance, /record_answer, passing that question exactly/)
+    assert.deepEqual(memoryManager.getProjectSession("planner")?.userAnswers, {})
+  })
+})
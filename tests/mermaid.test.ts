@@ -0,0 +1,57 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { extractMermaidBlocks, validateMermaid, validateMermaidBlock } from "@/lib/analysis/mermaid"
+import { MermaidRepairChain, checkMermaidBlock } from "@/lib/chains/mermaid-repair"
+import { registerScriptedProvider } from "./fixtures"
+
+// Labels go through Mermaid's sanitizer, which needs a DOM this process doesn't have
+const VALID = 'graph TD\n  A["Sign in"] --> B(Dashboard)'
+// Balanced and typed, so only Mermaid's own parser catches it
+const BROKEN = "graph TD\n  A --> B -->"
+
+const document = ["# Design", "", "```mermaid", VALID, "```", "", "```mermaid", BROKEN, "```", "", "The end."].join("\n")
+
+const repairer = (fix: string) =>
+  new MermaidRepairChain(undefined, undefined, registerScriptedProvider(`mermaid-${fix.length}`, { "mermaid.repair": fix }))
+
+describe("Mermaid lint", () => {
+  it("finds every block and where it starts and ends", () => {
+    const blocks = extractMermaidBlocks(`${document}\n\`\`\`mermaid\npie`)
+    assert.deepEqual(blocks.map(block => [block.line, block.endLine, block.closed]), [[3, 6, true], [8, 11, true], [14, 15, false]])
+    assert.deepEqual(validateMermaidBlock(blocks[2]), ["code fence is never closed", "diagram has no content after its type"])
+  })
+
+  it("catches the usual mistakes", () => {
+    assert.deepEqual(validateMermaid("flowchart XY\n  A --> B"), ['invalid flowchart direction "XY"'])
+    assert.deepEqual(validateMermaid("graph TD\n  A[Start --> B"), ['line 2: missing "]"'])
+    assert.deepEqual(validateMermaid("erDiagram\n  USER ||--o{ ORDER : places"), [])
+  })
+})
+
+describe("checkMermaidBlock", () => {
+  it("passes a valid diagram and reports a broken one", async () => {
+    const [valid, broken] = extractMermaidBlocks(document)
+    assert.deepEqual(await checkMermaidBlock(valid), [])
+    const issues = await checkMermaidBlock(broken)
+    assert.equal(issues.length, 1)
+    assert.match(issues[0], /Parse error on line/)
+  })
+})
+
+describe("MermaidRepairChain", () => {
+  it("replaces a broken diagram with the model's fix", async () => {
+    const result = await repairer("```mermaid\ngraph TD\n  A --> B\n```").repairDocument(document)
+    assert.equal(result.repaired, 1)
+    assert.deepEqual(result.flagged, [])
+    assert.ok(result.content.includes(VALID))
+    assert.ok(result.content.includes("```mermaid\ngraph TD\n  A --> B\n```\n\nThe end."))
+  })
+
+  it("flags a diagram the model can't fix and leaves the valid one alone", async () => {
+    const result = await repairer(BROKEN).repairDocument(document)
+    assert.equal(result.repaired, 0)
+    assert.deepEqual(result.flagged.map(flag => flag.line), [8])
+    assert.match(result.content, /```\n\n> ⚠️ \*\*This diagram may not render:\*\* Parse error/)
+    assert.ok(result.content.startsWith(["# Design", "", "```mermaid", VALID, "```"].join("\n")))
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { buildOpenApiSpec } from "@/lib/export/openapi"
+import { validateOpenApiSpec } from "@/lib/export/openapi-validation"
+import { makeDesign } from "./fixtures"
+
+const design = makeDesign({
+  dataModels: [
+    {
+      name: "Recipe",
+      fields: [
+        { name: "id", type: "number", description: "" },
+        { name: "title", type: "string", description: "" },
+      ],
+      relationships: [],
+    },
+  ],
+  apiDesign: {
+    endpoints: [
+      { method: "GET", path: "/api/recipes", description: "List recipes", response: "Recipe[]" },
+      { method: "GET", path: "/api/recipes/:id", description: "Get a recipe", response: "Recipe" },
+      { method: "POST", path: "/api/recipes", description: "Create a recipe", requestBody: "Recipe", response: "Recipe" },
+    ],
+  },
+})
+
+describe("buildOpenApiSpec", () => {
+  it("groups operations by path and turns :params into path parameters", async () => {
+    const { spec } = buildOpenApiSpec(design, "Recipe Box")
+    assert.deepEqual(Object.keys(spec.paths ?? {}).sort(), ["/api/recipes", "/api/recipes/{id}"])
+    assert.ok(spec.paths?.["/api/recipes"]?.get && spec.paths["/api/recipes"].post)
+    assert.ok(spec.components?.schemas?.Recipe)
+    assert.deepEqual(await validateOpenApiSpec(spec), [])
+  })
+
+  it("merges paths that only differ in parameter names", () => {
+    const { spec, warnings } = buildOpenApiSpec(makeDesign({
+      dataModels: [],
+      apiDesign: {
+        endpoints: [
+          { method: "GET", path: "/users/:id", description: "Get a user", response: "User" },
+          { method: "DELETE", path: "/users/{userId}", description: "Delete a user", response: "Nothing" },
+        ],
+      },
+    }), "Recipe Box")
+    assert.deepEqual(Object.keys(spec.paths ?? {}), ["/users/{id}"])
+    const item = spec.paths?.["/users/{id}"]
+    assert.ok(item?.get && item.delete)
+    assert.deepEqual(item.delete.parameters?.map(parameter => "name" in parameter && parameter.name), ["id"])
+    assert.equal(warnings.length, 1)
+  })
+
+  it("finds multi-word models however they're written", () => {
+    const { spec } = buildOpenApiSpec(makeDesign({
+      dataModels: [{ name: "BlogPost", fields: [{ name: "id", type: "uuid", description: "" }], relationships: [] }],
+      apiDesign: {
+        endpoints: [{ method: "GET", path: "/posts", description: "List posts", response: "A list of blog posts" }],
+      },
+    }), "Recipe Box")
+    const content = spec.paths?.["/posts"]?.get?.responses?.["200"]
+    assert.deepEqual(content && "content" in content ? content.content?.["application/json"]?.schema : undefined, {
+      type: "array",
+      items: { $ref: "#/components/schemas/BlogPost" },
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { PhasePipeline, PhasePipelineError, type PhaseDefinition } from "@/lib/phases/pipeline"
+import { makeSession } from "./fixtures"
+
+const phase = (id: string, dependsOn: string[] = []): PhaseDefinition => ({
+  id,
+  fileName: `${id}.md`,
+  indicator: { label: id, description: "" },
+  prompt: `Instructions for ${id}`,
+  introduction: "",
+  dependsOn,
+  isComplete: () => false,
+  generate: async () => ({ content: "", promptVersion: "test" }),
+})
+
+describe("PhasePipeline", () => {
+  it("keeps phases in registration order and walks them with next()", () => {
+    const pipeline = new PhasePipeline()
+    pipeline.register(phase("a"))
+    pipeline.register(phase("b", ["a"]))
+    assert.deepEqual(pipeline.ids(), ["a", "b"])
+    assert.equal(pipeline.next("a")?.id, "b")
+    assert.equal(pipeline.next("b"), undefined)
+    assert.deepEqual(pipeline.validate(), [])
+  })
+
+  it("reports a session's progress for the indicator", () => {
+    const pipeline = new PhasePipeline()
+    pipeline.register(phase("a"))
+    pipeline.register(phase("b", ["a"]))
+    const progress = pipeline.progress(makeSession({ currentPhase: "b", documents: { a: "# A" } }))
+    assert.deepEqual(progress.phases.map(item => item.id), ["a", "b"])
+    assert.equal(progress.currentPhase, "b")
+    assert.deepEqual(progress.completedPhases, ["a"])
+  })
+
+  it("inserts a phase relative to another one", () => {
+    const pipeline = new PhasePipeline()
+    pipeline.register(phase("a"))
+    pipeline.register(phase("c"))
+    pipeline.register(phase("b"), { after: "a" })
+    pipeline.register(phase("start"), { before: "a" })
+    assert.deepEqual(pipeline.ids(), ["start", "a", "b", "c"])
+  })
+
+  it("replaces a phase with the same id in place", () => {
+    const pipeline = new PhasePipeline()
+    pipeline.register(phase("a"))
+    pipeline.register(phase("b"))
+    pipeline.register({ ...phase("a"), fileName: "A.md" })
+    assert.deepEqual(pipeline.ids(), ["a", "b"])
+    assert.equal(pipeline.get("a")?.fileName, "A.md")
+  })
+
+  it("reports dependencies that are missing or come later", () => {
+    const pipeline = new PhasePipeline()
+    pipeline.register(phase("a", ["b"]))
+    pipeline.register(phase("b", ["missing"]))
+    assert.equal(pipeline.validate().length, 2)
+    assert.throws(() => pipeline.assertValid(), PhasePipelineError)
+  })
+
+  it("rejects the reserved id and unknown anchors", () => {
+    const pipeline = new PhasePipeline()
+    assert.throws(() => pipeline.register(phase("complete")), PhasePipelineError)
+    assert.throws(() => pipeline.register(phase("a"), { after: "nowhere" }), PhasePipelineError)
+  })
+})
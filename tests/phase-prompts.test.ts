@@ -0,0 +1,22 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import "@/lib/phases"
+import { getPhasePrompt } from "@/lib/prompts/phase-prompts"
+import { makeSession } from "./fixtures"
+
+describe("getPhasePrompt", () => {
+  it("drafts the design before there's a Design.md to review", () => {
+    const prompt = getPhasePrompt("design", {}, makeSession({ currentPhase: "design", documents: { requirements: "# Requirements" } }))
+    assert.match(prompt, /work out the system design/)
+    assert.doesNotMatch(prompt, /Design\.md has been drafted/)
+  })
+
+  it("reviews and regenerates the phase's document once it exists", () => {
+    const prompt = getPhasePrompt("tasks", {}, makeSession({ currentPhase: "tasks", documents: { tasks: "# Tasks" } }))
+    assert.match(prompt, /Tasks\.md has been drafted - review it with the user/)
+  })
+
+  it("lists the pipeline's phases in the identity line", () => {
+    assert.match(getPhasePrompt("requirements"), /Requirements → Design → Tasks/)
+  })
+})
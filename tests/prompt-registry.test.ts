@@ -0,0 +1,67 @@
+import { after, describe, it, mock } from "node:test"
+import assert from "node:assert/strict"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { PromptRegistry, PromptValidationError } from "@/lib/prompts/registry"
+
+// A throwaway prompts directory per registry, cleaned up at the end
+const dirs: string[] = []
+after(() => dirs.forEach(dir => rmSync(dir, { recursive: true, force: true })))
+
+function registryWith(files: Record<string, string>, workspace?: string): PromptRegistry {
+  const dir = mkdtempSync(path.join(tmpdir(), "prompts-"))
+  dirs.push(dir)
+  for (const [fileName, template] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(dir, fileName)), { recursive: true })
+    writeFileSync(path.join(dir, fileName), template)
+  }
+
+  const registry = new PromptRegistry(dir, workspace)
+  registry.register({ name: "greeting", version: 1, template: "Hello {name}", inputVariables: ["name"] })
+  return registry
+}
+
+describe("PromptRegistry", () => {
+  it("uses the built-in prompt when there are no files", () => {
+    const prompt = registryWith({}).get("greeting")
+    assert.equal(prompt.source, "builtin")
+    assert.equal(prompt.template, "Hello {name}")
+    assert.match(prompt.id, /^greeting@1#[0-9a-f]{8}$/)
+  })
+
+  it("picks the highest file version above the built-in one", () => {
+    const prompt = registryWith({
+      "greeting.v1.md": "Old {name}",
+      "greeting.v2.md": "Hi {name}",
+      "greeting.v3.md": "Hey {name}",
+    }).get("greeting")
+    assert.equal(prompt.source, "file")
+    assert.equal(prompt.version, 3)
+    assert.equal(prompt.template, "Hey {name}")
+  })
+
+  it("falls back past a file with the wrong input variables", () => {
+    mock.method(console, "error", () => {})
+    const registry = registryWith({ "greeting.v2.md": "Hi {name}", "greeting.v3.md": "Hey {nickname}" })
+    assert.equal(registry.get("greeting").version, 2)
+    assert.throws(() => registry.assertValid(), PromptValidationError)
+    mock.restoreAll()
+  })
+
+  it("prefers a workspace override over any file version", () => {
+    const files = { "greeting.v5.md": "Hi {name}", "workspaces/acme/greeting.v1.md": "Welcome to Acme, {name}" }
+    const prompt = registryWith(files, "acme").get("greeting")
+    assert.equal(prompt.source, "workspace")
+    assert.equal(prompt.template, "Welcome to Acme, {name}")
+
+    // Without the workspace the override isn't visible
+    assert.equal(registryWith(files).get("greeting").version, 5)
+  })
+
+  it("reports files for prompts that don't exist", () => {
+    const issues = registryWith({ "farewell.v2.md": "Bye" }).validate()
+    assert.equal(issues.length, 1)
+    assert.match(issues[0], /no prompt named "farewell"/)
+  })
+})
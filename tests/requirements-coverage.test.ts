@@ -0,0 +1,20 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { scoreRequirementsCoverage } from "@/lib/analysis/requirements-coverage"
+import { makeRequirements, makeSession } from "./fixtures"
+
+describe("scoreRequirementsCoverage", () => {
+  it("is incomplete before the interview has covered anything", () => {
+    const coverage = scoreRequirementsCoverage(makeSession())
+    assert.equal(coverage.isComplete, false)
+    assert.ok(coverage.missing.includes("techStack"))
+    assert.ok(coverage.missing.includes("features"))
+  })
+
+  it("counts structured requirements as covered", () => {
+    const coverage = scoreRequirementsCoverage(makeSession({ requirements: makeRequirements() }))
+    assert.equal(coverage.isComplete, true)
+    assert.ok(!coverage.missing.includes("techStack"))
+    assert.ok(!coverage.missing.includes("targetAudience"))
+  })
+})
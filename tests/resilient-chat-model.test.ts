@@ -0,0 +1,62 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { HumanMessage } from "@langchain/core/messages"
+import { FakeChatModel } from "@/lib/llm/fake-chat-model"
+import { AllModelsFailedError, LLMDeadlineError, ResilientChatModel, getAnsweringModel, getRetryPolicy } from "@/lib/llm/resilient-chat-model"
+
+// A model that fails its first `failures` calls with a retryable server error
+function flakyModel(failures: number, answer = "ok") {
+  let calls = 0
+  const model = new FakeChatModel({
+    responder: () => {
+      calls++
+      if (calls <= failures) throw Object.assign(new Error("upstream error"), { status: 503 })
+      return answer
+    },
+  })
+  return { model, calls: () => calls }
+}
+
+const policy = (overrides = {}) => getRetryPolicy({ maxRetries: 2, timeoutMs: 1000, baseDelayMs: 1, deadlineMs: 5000, ...overrides })
+
+describe("ResilientChatModel", () => {
+  it("retries, then falls back to the next model", async () => {
+    const primary = flakyModel(10)
+    const fallback = flakyModel(0, "from the fallback")
+    const model = new ResilientChatModel(
+      [{ name: "primary", model: primary.model }, { name: "fallback", model: fallback.model }],
+      policy()
+    )
+    const message = await model.invoke([new HumanMessage("hi")])
+    assert.equal(message.content, "from the fallback")
+    assert.equal(primary.calls(), 3)
+    assert.deepEqual(getAnsweringModel(message), { model: "fallback", fallback: true })
+  })
+
+  it("stops retrying once the deadline has passed", async () => {
+    const flaky = flakyModel(10)
+    const model = new ResilientChatModel([{ name: "primary", model: flaky.model }], policy({ baseDelayMs: 50, deadlineMs: 40 }))
+    await assert.rejects(model.invoke([new HumanMessage("hi")]), (error: unknown) =>
+      error instanceof AllModelsFailedError && error.errors.some(({ error }) => error instanceof LLMDeadlineError)
+    )
+    assert.equal(flaky.calls(), 1)
+  })
+
+  it("removes its abort listener from the caller's signal after every attempt", async () => {
+    const controller = new AbortController()
+    let listeners = 0
+    const add = controller.signal.addEventListener.bind(controller.signal)
+    const remove = controller.signal.removeEventListener.bind(controller.signal)
+    controller.signal.addEventListener = ((...args: Parameters<typeof add>) => { listeners++; add(...args) }) as typeof add
+    controller.signal.removeEventListener = ((...args: Parameters<typeof remove>) => { listeners--; remove(...args) }) as typeof remove
+
+    const model = new ResilientChatModel([{ name: "primary", model: flakyModel(2).model }], policy())
+    await model.invoke([new HumanMessage("hi")], { signal: controller.signal })
+    // LangChain may add its own listeners, but ours must all be gone
+    const stream = await model.stream([new HumanMessage("hi")], { signal: controller.signal })
+    for await (const _chunk of stream) {
+      // drain
+    }
+    assert.ok(listeners <= 0, `${listeners} abort listeners left on the signal`)
+  })
+})
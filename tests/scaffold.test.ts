@@ -0,0 +1,76 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { buildScaffold, canScaffold } from "@/lib/export/scaffold"
+import { makeDesign, makeRequirements, makeSession, makeTask, makeTasks } from "./fixtures"
+
+const component = (name: string, responsibility: string) => ({ name, responsibility, dependencies: [] })
+
+const design = makeDesign({
+  architecture: {
+    overview: "",
+    dataFlow: "",
+    components: [
+      component("Recipe Service", "Stores recipes"),
+      component("Recipe-Service", "A second module that kebab-cases to the same name"),
+    ],
+  },
+  dataModels: [
+    {
+      name: "Recipe",
+      fields: [
+        { name: "id", type: "number", description: "" },
+        { name: "title", type: "string", description: "" },
+      ],
+      relationships: [],
+    },
+  ],
+  apiDesign: {
+    endpoints: [
+      { method: "GET", path: "/api/recipes", description: "List recipes", response: "Recipe[]" },
+      { method: "GET", path: "/api/recipes/:id", description: "Get a recipe", response: "Recipe" },
+    ],
+  },
+})
+
+const session = makeSession({
+  projectName: "Recipe Box",
+  requirements: makeRequirements(),
+  design,
+  tasks: makeTasks([{ ...makeTask("1"), title: "Build the recipe API" }]),
+  documents: { requirements: "# Requirements", design: "# Design", tasks: "# Tasks" },
+})
+
+describe("buildScaffold", () => {
+  it("needs Design.md and Tasks.md", () => {
+    assert.equal(canScaffold(makeSession({ design })), false)
+    assert.throws(() => buildScaffold(makeSession({ design })), /must be generated/)
+  })
+
+  it("lays out components, routes, models and docs under the project's folder", () => {
+    const scaffold = buildScaffold(session)
+    const paths = scaffold.files.map(file => file.path)
+    assert.equal(scaffold.root, "recipe-box")
+    for (const expected of [
+      "README.md",
+      "package.json",
+      "src/components/recipe-service/index.ts",
+      "src/components/recipe-service-2/index.ts",
+      "src/routes/index.ts",
+      "src/models/recipe.ts",
+      "src/models/index.ts",
+      "docs/openapi.yaml",
+      "docs/Requirements.md",
+      "docs/Design.md",
+      "docs/Tasks.md",
+    ]) {
+      assert.ok(paths.includes(expected), `missing ${expected}`)
+    }
+    assert.equal(new Set(paths).size, paths.length)
+  })
+
+  it("notes the tasks that build each component", () => {
+    const module = buildScaffold(session).files.find(file => file.path === "src/components/recipe-service/index.ts")
+    assert.match(module?.content ?? "", / \* - 1: Build the recipe API/)
+    assert.match(module?.content ?? "", /export function createRecipeService\(\)/)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { validateTaskGraph } from "@/lib/analysis/task-graph"
+import { computeSchedule, totalEffort } from "@/lib/analysis/schedule"
+import { parseEstimate } from "@/lib/analysis/estimates"
+import { makeTask, makeTasks } from "./fixtures"
+
+describe("parseEstimate", () => {
+  it("reads amounts, ranges and words", () => {
+    assert.deepEqual(parseEstimate("2h"), { minHours: 2, maxHours: 2 })
+    assert.deepEqual(parseEstimate("1-2 days"), { minHours: 8, maxHours: 16 })
+    assert.deepEqual(parseEstimate("half a day"), { minHours: 4, maxHours: 4 })
+    assert.equal(parseEstimate("soon"), null)
+  })
+
+  it("reads fractions, half-days and thousands separators", () => {
+    assert.deepEqual(parseEstimate("1 1/2 days"), { minHours: 12, maxHours: 12 })
+    assert.deepEqual(parseEstimate("one and a half days"), { minHours: 12, maxHours: 12 })
+    assert.deepEqual(parseEstimate("3/4 hour"), { minHours: 0.75, maxHours: 0.75 })
+    assert.deepEqual(parseEstimate("half-day"), { minHours: 4, maxHours: 4 })
+    assert.deepEqual(parseEstimate("1,000 hours"), { minHours: 1000, maxHours: 1000 })
+    assert.deepEqual(parseEstimate("1,5 days"), { minHours: 12, maxHours: 12 })
+  })
+})
+
+describe("computeSchedule", () => {
+  it("finds the critical path and the slack on the other tasks", () => {
+    // 1 → 2 → 4 takes 10h, 1 → 3 → 4 only 4h
+    const tasks = makeTasks([
+      makeTask("1", [], "2h"),
+      makeTask("2", ["1"], "6h"),
+      makeTask("3", ["1"], "0 hours"),
+      makeTask("4", ["2", "3"], "2h"),
+      makeTask("5"),
+    ])
+    const schedule = computeSchedule(tasks, validateTaskGraph(tasks))
+    assert.ok(schedule)
+    assert.equal(schedule.length, 10)
+    assert.deepEqual(schedule.criticalPath, ["1", "2", "4"])
+    assert.equal(schedule.tasks.find(task => task.id === "3")?.slack, 6)
+    assert.deepEqual(schedule.unestimated, ["5"])
+    assert.deepEqual(totalEffort(tasks), { minHours: 10, maxHours: 10 })
+  })
+
+  it("gives up on a cyclic graph", () => {
+    const tasks = makeTasks([makeTask("1", ["2"], "1h"), makeTask("2", ["1"], "1h")])
+    assert.equal(computeSchedule(tasks, validateTaskGraph(tasks)), null)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { TracerMemoryManager, type HistorySummarizer } from "@/lib/memory/session-manager"
+
+const summarizer: HistorySummarizer = {
+  summarize: async (previous, messages) => ({ summary: `${previous} ${messages.length} messages`.trim(), facts: [] }),
+}
+
+describe("TracerMemoryManager", () => {
+  it("reports the messages the summary doesn't cover from its own window", async () => {
+    const memoryManager = new TracerMemoryManager(4)
+    memoryManager.initializeProjectSession("memory", "Recipe Box")
+    for (let index = 1; index <= 6; index++) {
+      memoryManager.addMessage("memory", index % 2 ? "user" : "assistant", `message ${index}`)
+    }
+
+    // Nothing summarized yet - the evicted messages are still outstanding
+    assert.equal(memoryManager.getConversationMemory("memory").unsummarized.length, 6)
+
+    await memoryManager.compactHistory("memory", summarizer)
+    const memory = memoryManager.getConversationMemory("memory")
+    assert.equal(memory.summary, "2 messages")
+    assert.deepEqual(memory.unsummarized.map(message => message.content), ["message 3", "message 4", "message 5", "message 6"])
+    assert.ok(memory.unsummarized.every(message => message.phase === "requirements"))
+
+    // The project session keeps the whole phase for extraction
+    assert.equal(memoryManager.getProjectSession("memory")?.conversationHistory.length, 6)
+  })
+
+  it("drops the oldest unsummarized messages once the summarizer keeps failing", async (t) => {
+    t.mock.method(console, "error", () => {})
+    t.mock.method(console, "warn", () => {})
+    const failing: HistorySummarizer = { summarize: async () => { throw new Error("model unavailable") } }
+    const memoryManager = new TracerMemoryManager(4)
+    for (let index = 1; index <= 34; index++) {
+      memoryManager.addMessage("failing", "user", `message ${index}`)
+    }
+
+    await memoryManager.compactHistory("failing", failing)
+    await memoryManager.compactHistory("failing", failing)
+    assert.equal(memoryManager.getSession("failing").evicted.length, 30)
+
+    // The third failure in a row drops all but the newest 20
+    await memoryManager.compactHistory("failing", failing)
+    const evicted = memoryManager.getSession("failing").evicted
+    assert.equal(evicted.length, 20)
+    assert.equal(evicted[0].content, "message 11")
+  })
+
+  it("keeps only the newest pinned facts", () => {
+    const memoryManager = new TracerMemoryManager()
+    for (let index = 1; index <= 35; index++) {
+      memoryManager.pinFact("facts", `fact ${index}`)
+    }
+    const { pinnedFacts } = memoryManager.getConversationMemory("facts")
+    assert.equal(pinnedFacts.length, 30)
+    assert.equal(pinnedFacts[0], "fact 6")
+  })
+
+  it("has nothing unsummarized for an unknown session", () => {
+    assert.deepEqual(new TracerMemoryManager().getConversationMemory("missing").unsummarized, [])
+  })
+})
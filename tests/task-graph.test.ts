@@ -0,0 +1,28 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { applyTopologicalOrder, validateTaskGraph } from "@/lib/analysis/task-graph"
+import { makeTask, makeTasks } from "./fixtures"
+
+describe("validateTaskGraph", () => {
+  it("orders prerequisites first and reorders the task list to match", () => {
+    const tasks = makeTasks([makeTask("1", ["2"]), makeTask("2"), makeTask("3", ["1"])])
+    const report = validateTaskGraph(tasks)
+    assert.equal(report.isAcyclic, true)
+    assert.deepEqual(report.order, ["2", "1", "3"])
+    assert.ok(report.issues.some(issue => issue.kind === "ordered-before-prerequisite"))
+    assert.deepEqual(applyTopologicalOrder(tasks, report).tasks.map(task => task.id), ["2", "1", "3"])
+  })
+
+  it("finds cycles and dangling dependencies", () => {
+    const report = validateTaskGraph(makeTasks([makeTask("1", ["2"]), makeTask("2", ["1"]), makeTask("3", ["9"])]))
+    assert.equal(report.isAcyclic, false)
+    assert.deepEqual(report.issues.find(issue => issue.kind === "cycle")?.taskIds.sort(), ["1", "2"])
+    assert.deepEqual(report.issues.find(issue => issue.kind === "dangling-dependency")?.taskIds, ["3", "9"])
+  })
+
+  it("flags duplicate ids", () => {
+    const report = validateTaskGraph(makeTasks([makeTask("1"), makeTask("1")]))
+    assert.equal(report.isAcyclic, false)
+    assert.ok(report.issues.some(issue => issue.kind === "duplicate-id"))
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { buildTraceabilityMatrix, formatTraceabilityCsv, formatTraceabilityMarkdown } from "@/lib/analysis/traceability"
+import { makeDesign, makeRequirements, makeTask, makeTasks } from "./fixtures"
+
+const component = (name: string, responsibility: string) => ({ name, responsibility, dependencies: [] })
+
+function matrix() {
+  const requirements = makeRequirements({ features: ["Recipe sharing", "Favourites", "Meal planning calendar"] })
+  const design = makeDesign({
+    architecture: {
+      overview: "",
+      dataFlow: "",
+      components: [
+        component("Recipe Service", "Stores recipes and handles sharing them"),
+        component("Favourites Store", "Keeps each user's favourites"),
+        component("Auth Gateway", "Signs users in"),
+      ],
+    },
+  })
+  const tasks = makeTasks([
+    { ...makeTask("1"), title: "Build the recipe API" },
+    { ...makeTask("2"), title: "Set up the auth gateway", acceptanceCriteria: ["Users can sign in"] },
+  ])
+  return buildTraceabilityMatrix(requirements, design, tasks)
+}
+
+describe("buildTraceabilityMatrix", () => {
+  it("links features to components and components to tasks", () => {
+    const { rows, coveredCount } = matrix()
+    assert.deepEqual(rows.map(row => [row.feature, row.status]), [
+      ["Recipe sharing", "covered"],
+      ["Favourites", "no-tasks"],
+      ["Meal planning calendar", "no-component"],
+    ])
+    // "Service" is generic - the task only has to mention the recipe
+    assert.deepEqual(rows[0].components, [{ name: "Recipe Service", taskIds: ["1"] }])
+    assert.equal(coveredCount, 1)
+  })
+
+  it("lists components no feature maps to", () => {
+    assert.deepEqual(matrix().unlinkedComponents, [{ name: "Auth Gateway", taskIds: ["2"] }])
+  })
+
+  it("flags uncovered rows in Markdown and quotes CSV fields", () => {
+    const result = matrix()
+    const markdown = formatTraceabilityMarkdown(result)
+    assert.match(markdown, /1 of 3 features are covered/)
+    assert.match(markdown, /\| Meal planning calendar \| - \| - \| ⚠️ No design component \|/)
+    assert.match(markdown, /## Components Not Linked to a Feature/)
+
+    result.rows[0].feature = "Sharing, with friends"
+    assert.match(formatTraceabilityCsv(result), /^"Sharing, with friends",Recipe Service,1,Covered$/m)
+  })
+})
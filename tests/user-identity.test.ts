@@ -0,0 +1,83 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { USER_COOKIE, resolveUser } from "@/lib/usage/user-identity"
+import { getUsageTracker } from "@/lib/usage/usage-tracker"
+import { getMemoryManager } from "@/lib/memory/session-manager"
+import { GET } from "@/app/api/usage/route"
+import { GET as getTraceability } from "@/app/api/traceability/route"
+
+const withCookie = (cookie?: string) =>
+  new Request("http://localhost/api/usage", { headers: cookie ? { cookie } : {} })
+
+// The name=value part of a Set-Cookie header, as the browser would send it back
+const cookieFor = (setCookie: string) => setCookie.split(";")[0]
+
+describe("resolveUser", () => {
+  it("issues a signed cookie to a new user and recognises it afterwards", () => {
+    const issued = resolveUser(withCookie())
+    const setCookie = issued.setCookie ?? ""
+    assert.ok(setCookie.startsWith(`${USER_COOKIE}=${issued.userId}.`))
+    assert.match(setCookie, /HttpOnly/)
+
+    const returning = resolveUser(withCookie(cookieFor(setCookie)))
+    assert.equal(returning.userId, issued.userId)
+    assert.equal(returning.setCookie, undefined)
+  })
+
+  it("doesn't accept an id it didn't sign", () => {
+    const victim = resolveUser(withCookie())
+    const forged = resolveUser(withCookie(`${USER_COOKIE}=${victim.userId}.forged`))
+    assert.notEqual(forged.userId, victim.userId)
+    assert.ok(forged.setCookie)
+  })
+})
+
+describe("GET /api/usage", () => {
+  it("only shows a session's usage to the user who started it", async () => {
+    const owner = resolveUser(withCookie())
+    const other = resolveUser(withCookie())
+    getMemoryManager().claimSession("usage-owned", owner.userId)
+    getUsageTracker().record({
+      sessionId: "usage-owned",
+      userId: owner.userId,
+      phase: "requirements",
+      source: "chat",
+      model: "fake",
+      promptTokens: 10,
+      completionTokens: 5,
+      cost: 0.01,
+      estimated: true,
+      timestamp: 0,
+    })
+    const request = (setCookie: string) =>
+      new Request("http://localhost/api/usage?sessionId=usage-owned", { headers: { cookie: cookieFor(setCookie) } })
+
+    const allowed = await GET(request(owner.setCookie!))
+    assert.equal(allowed.status, 200)
+    const body = await allowed.json()
+    assert.equal(body.session.total.cost, 0.01)
+    assert.equal(body.user.cost, 0.01)
+
+    assert.equal((await GET(request(other.setCookie!))).status, 403)
+  })
+
+  it("doesn't show a session nobody has started", async () => {
+    const user = resolveUser(withCookie())
+    const response = await GET(new Request("http://localhost/api/usage?sessionId=usage-unknown", { headers: { cookie: cookieFor(user.setCookie!) } }))
+    assert.equal(response.status, 403)
+  })
+})
+
+describe("session downloads", () => {
+  it("are only served to the user who started the session", async () => {
+    const owner = resolveUser(withCookie())
+    const other = resolveUser(withCookie())
+    getMemoryManager().claimSession("downloads-owned", owner.userId)
+    const request = (setCookie: string) =>
+      new Request("http://localhost/api/traceability?sessionId=downloads-owned", { headers: { cookie: cookieFor(setCookie) } })
+
+    // The owner gets through to the "not generated yet" check
+    assert.equal((await getTraceability(request(owner.setCookie!))).status, 404)
+    assert.equal((await getTraceability(request(other.setCookie!))).status, 403)
+  })
+})